@@ -1,12 +1,22 @@
 import { defineConfig } from 'astro/config';
 import sitemap from '@astrojs/sitemap';
+import fs from 'node:fs';
+
+// Old slugs from the slug registry only exist as redirect pages
+const slugRegistryPath = new URL('./public/assets/slug-registry.json', import.meta.url);
+const redirectSlugs = fs.existsSync(slugRegistryPath)
+    ? Object.values(JSON.parse(fs.readFileSync(slugRegistryPath, 'utf-8'))).flatMap((entry) => entry.previous)
+    : [];
 
 // https://astro.build/config
 export default defineConfig({
     // If using Vite plugins shared between Vike and Astro, configure them here.
     // vite: { ... }
-    integrations: [sitemap()],
+    // Internal review pages and redirect pages are built but kept out of the sitemap
+    integrations: [sitemap({
+        filter: (page) => !page.includes('/internal/') && !redirectSlugs.some((slug) => page.endsWith(`/districts/${slug}/`)),
+    })],
     site: 'https://orieg.github.io/edu-policy-navigator',
     base: '/edu-policy-navigator/',
     // outDir: 'dist', // This is the default, so not strictly needed
-}); 
\ No newline at end of file
+});
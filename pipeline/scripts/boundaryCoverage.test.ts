@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listBoundaryCdsCodes, reconcileBoundaryCoverage } from './boundaryCoverage';
+import { renderDistrictInfoHtml } from '../../src/scripts/districtUtils';
+
+const HAYWARD = '01611920000000';
+const ALAMEDA_COE = '01100170000000';
+const NEW_HAVEN = '01612500000000';
+const CLOSED_DISTRICT = '01613000000000';
+
+const districts = {
+    [HAYWARD]: { 'CDS Code': HAYWARD, District: 'Hayward Unified', County: 'Alameda', 'Entity Type': 'Unified School District', hasBoundary: true },
+    [ALAMEDA_COE]: { 'CDS Code': ALAMEDA_COE, District: 'Alameda County Office of Education', County: 'Alameda', 'Entity Type': 'County Office of Education (COE)', hasBoundary: false },
+    [NEW_HAVEN]: { 'CDS Code': NEW_HAVEN, District: 'New Haven Unified', County: 'Alameda', 'Entity Type': 'Unified School District', hasBoundary: false },
+} as any;
+
+describe('boundaryCoverage', () => {
+    let tempDir: string | null = null;
+
+    afterEach(() => {
+        if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+        tempDir = null;
+    });
+
+    it('should list the district boundary files only', () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'boundaries-'));
+        for (const filename of [`${HAYWARD}.geojson`, `${HAYWARD}.lod1.geojson`, `${CLOSED_DISTRICT}.geojson`, 'districts.topojson', 'layers.json']) {
+            fs.writeFileSync(path.join(tempDir, filename), '{}');
+        }
+        expect(listBoundaryCdsCodes(tempDir)).toEqual([HAYWARD, CLOSED_DISTRICT]);
+        expect(listBoundaryCdsCodes(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+
+    it('should report districts without a boundary and boundaries without a district', () => {
+        const report = reconcileBoundaryCoverage(districts, [HAYWARD, CLOSED_DISTRICT], { [CLOSED_DISTRICT]: 'elementary' });
+        expect(report.summary).toEqual({ districts: 3, withBoundary: 1, missing: 1, notExpected: 1, boundariesWithoutDistrict: 1 });
+        expect(report.districtsWithoutBoundary.map(entry => [entry.cdsCode, entry.expected])).toEqual([
+            [NEW_HAVEN, true],
+            [ALAMEDA_COE, false],
+        ]);
+        expect(report.boundariesWithoutDistrict).toEqual([{ cdsCode: CLOSED_DISTRICT, layer: 'elementary' }]);
+    });
+
+    it('should tell visitors when a district has no boundary map', () => {
+        document.body.innerHTML = renderDistrictInfoHtml(districts[NEW_HAVEN], []);
+        expect(document.querySelector('.map-note')?.textContent).toBe('No boundary map is available for this district.');
+        document.body.innerHTML = renderDistrictInfoHtml(districts[HAYWARD], []);
+        expect(document.querySelector('.map-note')).toBeNull();
+    });
+});
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import type { BoundaryCoverageEntry, BoundaryCoverageReport, BoundaryLayerKey, DistrictDataMap } from '../../src/scripts/types.js';
+import { CALIFORNIA } from '../../src/scripts/stateProfile.js';
+import { GEOGRAPHIC_ENTITY_TYPES } from './charters.js';
+
+// CDS codes of the district boundary files in `boundariesDir`. Full-detail district files are
+// `{cdsCode}.geojson`, with IDs in the state profile's format; this leaves out the levels of
+// detail (`{cdsCode}.lod1.geojson`), the layer index and the statewide topology.
+export function listBoundaryCdsCodes(boundariesDir: string, idPattern: string = CALIFORNIA.id.pattern): string[] {
+    if (!fs.existsSync(boundariesDir)) return [];
+    const districtBoundaryFile = new RegExp(`^(${idPattern})\\.geojson$`);
+    return fs.readdirSync(boundariesDir)
+        .map(filename => districtBoundaryFile.exec(filename)?.[1])
+        .filter((cdsCode): cdsCode is string => !!cdsCode)
+        .sort();
+}
+
+/**
+ * Reconciles districts.json with the boundary files: districts without a boundary (from the
+ * `hasBoundary` flag set by boundary validation) and boundary files without a district.
+ */
+export function reconcileBoundaryCoverage(
+    districts: DistrictDataMap,
+    boundaryCdsCodes: string[],
+    layerIndex: { [cdsCode: string]: BoundaryLayerKey } = {}
+): BoundaryCoverageReport {
+    const districtsWithoutBoundary: BoundaryCoverageEntry[] = Object.entries(districts)
+        .filter(([, district]) => district.hasBoundary === false)
+        .map(([cdsCode, district]) => ({
+            cdsCode,
+            name: district.District,
+            county: district.County || 'Unknown',
+            entityType: String(district['Entity Type'] ?? 'Unknown'),
+            expected: GEOGRAPHIC_ENTITY_TYPES.includes(String(district['Entity Type'])),
+        }))
+        .sort((a, b) => Number(b.expected) - Number(a.expected) || a.county.localeCompare(b.county) || a.name.localeCompare(b.name));
+
+    const boundariesWithoutDistrict = boundaryCdsCodes
+        .filter(cdsCode => !districts[cdsCode])
+        .map(cdsCode => ({ cdsCode, layer: layerIndex[cdsCode] || null }));
+
+    const missing = districtsWithoutBoundary.filter(entry => entry.expected).length;
+    return {
+        generatedAt: new Date().toISOString(),
+        summary: {
+            districts: Object.keys(districts).length,
+            withBoundary: Object.values(districts).filter(district => district.hasBoundary === true).length,
+            missing,
+            notExpected: districtsWithoutBoundary.length - missing,
+            boundariesWithoutDistrict: boundariesWithoutDistrict.length,
+        },
+        districtsWithoutBoundary,
+        boundariesWithoutDistrict,
+    };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Polygon } from 'geojson';
+import { applyDistrictOverlaps, findOverlappingDistricts } from './boundaryOverlaps';
+import { boundaryLayerOf, listOverlappingDistricts } from '../../src/scripts/districtOverlaps';
+import { renderDistrictInfoHtml } from '../../src/scripts/districtUtils';
+
+const CASTRO_VALLEY = '01611760000000';
+const SUNOL_ELEMENTARY = '01612340000000';
+const PLEASANTON_ELEMENTARY = '01612000000000';
+const AMADOR_HIGH = '01600000000000';
+const HAYWARD = '01611920000000';
+
+const square = (minLon: number, minLat: number, maxLon: number, maxLat: number): Polygon => ({
+    type: 'Polygon',
+    coordinates: [[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]]],
+});
+
+// Two elementary districts side by side under one high school district; Hayward (unified) borders
+// the high school district with a sliver of overlap, and Castro Valley (unified) is apart
+const BOUNDARIES: { [cdsCode: string]: Polygon } = {
+    [SUNOL_ELEMENTARY]: square(0, 0, 1, 1),
+    [PLEASANTON_ELEMENTARY]: square(1, 0, 2, 1),
+    [AMADOR_HIGH]: square(0, 0, 2, 1),
+    [HAYWARD]: square(1.99, 0, 3, 1),
+    [CASTRO_VALLEY]: square(0, 2, 1, 3),
+};
+
+const buildDistricts = () => ({
+    [SUNOL_ELEMENTARY]: { 'CDS Code': SUNOL_ELEMENTARY, District: 'Sunol Glen Elementary', 'Entity Type': 'Elementary School District', slug: `sunol-${SUNOL_ELEMENTARY}` },
+    [PLEASANTON_ELEMENTARY]: { 'CDS Code': PLEASANTON_ELEMENTARY, District: 'Pleasanton Elementary', 'Entity Type': 'Elementary School District', slug: `pleasanton-${PLEASANTON_ELEMENTARY}` },
+    [AMADOR_HIGH]: { 'CDS Code': AMADOR_HIGH, District: 'Amador Valley High', 'Entity Type': 'High School District', slug: `amador-${AMADOR_HIGH}` },
+    [HAYWARD]: { 'CDS Code': HAYWARD, District: 'Hayward Unified', 'Entity Type': 'Unified School District', slug: `hayward-${HAYWARD}` },
+    [CASTRO_VALLEY]: { 'CDS Code': CASTRO_VALLEY, District: 'Castro Valley Unified', 'Entity Type': 'Unified School District', slug: `castro-valley-${CASTRO_VALLEY}` },
+}) as any;
+
+describe('boundaryOverlaps', () => {
+    it('should classify boundaries into layers by district type', () => {
+        expect(boundaryLayerOf('Elementary')).toBe('elementary');
+        expect(boundaryLayerOf('High')).toBe('high');
+        expect(boundaryLayerOf('Unified School District')).toBe('unified');
+        expect(boundaryLayerOf('County Office of Education (COE)')).toBeNull();
+        expect(boundaryLayerOf(undefined)).toBeNull();
+    });
+
+    it('should pair districts of different layers that serve the same area', () => {
+        const overlapping = findOverlappingDistricts({
+            [SUNOL_ELEMENTARY]: { layer: 'elementary', geometry: BOUNDARIES[SUNOL_ELEMENTARY] },
+            [PLEASANTON_ELEMENTARY]: { layer: 'elementary', geometry: BOUNDARIES[PLEASANTON_ELEMENTARY] },
+            [AMADOR_HIGH]: { layer: 'high', geometry: BOUNDARIES[AMADOR_HIGH] },
+            [HAYWARD]: { layer: 'unified', geometry: BOUNDARIES[HAYWARD] },
+        });
+        expect(overlapping).toEqual({
+            [SUNOL_ELEMENTARY]: [AMADOR_HIGH],
+            [PLEASANTON_ELEMENTARY]: [AMADOR_HIGH],
+            [AMADOR_HIGH]: [PLEASANTON_ELEMENTARY, SUNOL_ELEMENTARY],
+            [HAYWARD]: [], // The sliver along the shared border is under the minimum share
+        });
+    });
+
+    it('should record layers and overlaps on districts and list them on district pages', () => {
+        const districts = buildDistricts();
+        const summary = applyDistrictOverlaps(districts, { [SUNOL_ELEMENTARY]: 'elementary' }, cdsCode => BOUNDARIES[cdsCode] || null);
+
+        expect(summary).toEqual({ layers: { elementary: 2, high: 1, unified: 2 }, overlapping: 3 });
+        expect(districts[SUNOL_ELEMENTARY]).toMatchObject({ boundaryLayer: 'elementary', overlappingDistrictCdsCodes: [AMADOR_HIGH] });
+        expect(districts[CASTRO_VALLEY].overlappingDistrictCdsCodes).toEqual([]);
+
+        const groups = listOverlappingDistricts(districts[AMADOR_HIGH], districts, '/base/');
+        expect(groups.map(group => [group.layer.key, group.districts.map(partner => partner.name)])).toEqual([
+            ['elementary', ['Pleasanton Elementary', 'Sunol Glen Elementary']],
+        ]);
+
+        document.body.innerHTML = renderDistrictInfoHtml(districts[SUNOL_ELEMENTARY], [], [], listOverlappingDistricts(districts[SUNOL_ELEMENTARY], districts, '/base/'));
+        expect(document.querySelector('.overlapping-districts p')?.textContent).toBe('High School Districts: Amador Valley High');
+        expect(document.querySelector('.overlapping-districts a')?.getAttribute('href')).toBe(`/base/districts/amador-${AMADOR_HIGH}/`);
+        document.body.innerHTML = renderDistrictInfoHtml(districts[CASTRO_VALLEY], []);
+        expect(document.querySelector('.overlapping-districts')).toBeNull();
+    });
+});
@@ -0,0 +1,108 @@
+import type { BoundaryLayerKey, DistrictDataMap } from '../../src/scripts/types.js';
+import { BOUNDARY_LAYERS, boundaryLayerOf } from '../../src/scripts/districtOverlaps.js';
+import { AreaGeometry, geometryBounds, isPointInGeometry } from './geometry.js';
+
+type BoundaryLoader = (districtCdsCode: string) => AreaGeometry | null;
+
+export interface LayeredBoundary {
+    layer: BoundaryLayerKey;
+    geometry: AreaGeometry;
+}
+
+// Each boundary is sampled on a grid of this many cells per side over its bounds
+const SAMPLE_GRID = 32;
+// Neighbours of different layers share borders; overlaps smaller than this share of either
+// district are digitizing slivers along such a border, not districts serving the same area
+export const MIN_OVERLAP_SHARE = 0.02;
+
+interface SampledBoundary extends LayeredBoundary {
+    cdsCode: string;
+    bounds: [number, number, number, number];
+    // Grid cell centres inside the boundary
+    samples: [number, number][];
+}
+
+function sampleBoundary(cdsCode: string, { layer, geometry }: LayeredBoundary): SampledBoundary {
+    const bounds = geometryBounds(geometry);
+    const [minLon, minLat, maxLon, maxLat] = bounds;
+    const samples: [number, number][] = [];
+    for (let i = 0; i < SAMPLE_GRID; i++) {
+        for (let j = 0; j < SAMPLE_GRID; j++) {
+            const lon = minLon + ((i + 0.5) * (maxLon - minLon)) / SAMPLE_GRID;
+            const lat = minLat + ((j + 0.5) * (maxLat - minLat)) / SAMPLE_GRID;
+            if (isPointInGeometry(lon, lat, geometry)) samples.push([lon, lat]);
+        }
+    }
+    return { cdsCode, layer, geometry, bounds, samples };
+}
+
+// Approximate share of A's area inside B
+function overlapShare(a: SampledBoundary, b: SampledBoundary): number {
+    if (a.samples.length === 0) return 0;
+    const [minLon, minLat, maxLon, maxLat] = b.bounds;
+    const inside = a.samples.filter(([lon, lat]) =>
+        lon >= minLon && lon <= maxLon && lat >= minLat && lat <= maxLat && isPointInGeometry(lon, lat, b.geometry));
+    return inside.length / a.samples.length;
+}
+
+const boundsIntersect = (a: SampledBoundary, b: SampledBoundary): boolean =>
+    a.bounds[0] <= b.bounds[2] && b.bounds[0] <= a.bounds[2] && a.bounds[1] <= b.bounds[3] && b.bounds[1] <= a.bounds[3];
+
+/**
+ * Pairs up districts of different layers whose areas overlap: an elementary district and the
+ * high school district its students go on to, or a unified district that only partly covers
+ * either. Areas are compared on a sample grid; a pair overlaps when at least `minShare` of
+ * either district lies in the other. Returns the sorted partners of every district given.
+ */
+export function findOverlappingDistricts(
+    boundaries: { [cdsCode: string]: LayeredBoundary },
+    minShare = MIN_OVERLAP_SHARE
+): { [cdsCode: string]: string[] } {
+    const sampled = Object.entries(boundaries).map(([cdsCode, boundary]) => sampleBoundary(cdsCode, boundary));
+    const overlapping: { [cdsCode: string]: string[] } = {};
+    for (const boundary of sampled) overlapping[boundary.cdsCode] = [];
+
+    for (let i = 0; i < sampled.length; i++) {
+        for (let j = i + 1; j < sampled.length; j++) {
+            const a = sampled[i];
+            const b = sampled[j];
+            if (a.layer === b.layer || !boundsIntersect(a, b)) continue;
+            if (overlapShare(a, b) >= minShare || overlapShare(b, a) >= minShare) {
+                overlapping[a.cdsCode].push(b.cdsCode);
+                overlapping[b.cdsCode].push(a.cdsCode);
+            }
+        }
+    }
+    for (const partners of Object.values(overlapping)) partners.sort();
+    return overlapping;
+}
+
+/**
+ * Sets `boundaryLayer` and `overlappingDistrictCdsCodes` on every district with a boundary, in
+ * place. The layer comes from `layerIndex` (written by splitBoundaries.ts) or else the district's
+ * entity type. Returns how many districts each layer has and how many overlap another district.
+ */
+export function applyDistrictOverlaps(
+    districts: DistrictDataMap,
+    layerIndex: { [cdsCode: string]: BoundaryLayerKey },
+    loadBoundary: BoundaryLoader
+): { layers: { [layer in BoundaryLayerKey]: number }; overlapping: number } {
+    const boundaries: { [cdsCode: string]: LayeredBoundary } = {};
+    for (const [cdsCode, district] of Object.entries(districts)) {
+        delete district.boundaryLayer;
+        delete district.overlappingDistrictCdsCodes;
+        const layer = layerIndex[cdsCode] || boundaryLayerOf(district['Entity Type']);
+        const geometry = layer ? loadBoundary(cdsCode) : null;
+        if (layer && geometry) boundaries[cdsCode] = { layer, geometry };
+    }
+
+    const layers = Object.fromEntries(BOUNDARY_LAYERS.map(({ key }) => [key, 0])) as { [layer in BoundaryLayerKey]: number };
+    let overlapping = 0;
+    for (const [cdsCode, partners] of Object.entries(findOverlappingDistricts(boundaries))) {
+        districts[cdsCode].boundaryLayer = boundaries[cdsCode].layer;
+        districts[cdsCode].overlappingDistrictCdsCodes = partners;
+        layers[boundaries[cdsCode].layer]++;
+        if (partners.length > 0) overlapping++;
+    }
+    return { layers, overlapping };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+import { roundGeometry, simplifyBoundaries } from './boundarySimplification';
+import { BOUNDARY_LEVELS, boundaryLevelForZoom, boundaryUrl } from '../../src/scripts/boundaryLevels';
+
+const HAYWARD = '01611920000000';
+const CASTRO_VALLEY = '01611760000000';
+
+// A border running north along x = 0 with small wiggles, from (0, 0) to (0, 1)
+const BORDER: Position[] = [[0, 0], [0.001, 0.2], [-0.001, 0.4], [0.3, 0.5], [0.001, 0.6], [0, 0.8], [0, 1]];
+
+// Hayward lies west of the border and Castro Valley east of it; both rings run counterclockwise
+const BOUNDARIES: { [cdsCode: string]: Polygon } = {
+    [HAYWARD]: { type: 'Polygon', coordinates: [[[-1, 0], ...BORDER, [-1, 1], [-1, 0]]] },
+    [CASTRO_VALLEY]: { type: 'Polygon', coordinates: [[[1, 1], ...[...BORDER].reverse(), [1, 0], [1, 1]]] },
+};
+
+const key = ([x, y]: Position) => `${x},${y}`;
+
+describe('boundarySimplification', () => {
+    it('should round coordinates and drop the positions and rings this collapses', () => {
+        const geometry: MultiPolygon = {
+            type: 'MultiPolygon',
+            coordinates: [
+                [[[0.123456, 0], [1, 0.000001], [1, 1], [0.1234561, 0.0000001], [0.123456, 0]]],
+                [[[5, 5], [5.00001, 5], [5.00001, 5.00001], [5, 5]]],
+            ],
+        };
+        expect(roundGeometry(geometry, 3)).toEqual({
+            type: 'Polygon',
+            coordinates: [[[0.123, 0], [1, 0], [1, 1], [0.123, 0]]],
+        });
+        expect(roundGeometry({ type: 'Polygon', coordinates: geometry.coordinates[1] }, 3)).toBeNull();
+    });
+
+    it('should simplify shared borders identically for both districts', () => {
+        const simplified = simplifyBoundaries(BOUNDARIES, 0.01);
+        const [hayward] = (simplified[HAYWARD] as Polygon).coordinates;
+        const [castroValley] = (simplified[CASTRO_VALLEY] as Polygon).coordinates;
+
+        // Rings start at a junction; positions within tolerance of the simplified border are dropped
+        expect(hayward).toEqual([[0, 0], [-0.001, 0.4], [0.3, 0.5], [0.001, 0.6], [0, 1], [-1, 1], [-1, 0], [0, 0]]);
+        expect(castroValley.slice(0, 5).reverse().map(key)).toEqual(hayward.slice(0, 5).map(key));
+    });
+
+    it('should keep every district and drop only the rings that collapse', () => {
+        const island: Position[] = [[3, 3], [3.001, 3], [3.001, 3.001], [3, 3]];
+        const lake: Position[] = [[-0.9, 0.1], [-0.9, 0.9], [-0.2, 0.9], [-0.2, 0.1], [-0.9, 0.1]];
+        const tiny: Polygon = { type: 'Polygon', coordinates: [[[8, 8], [8.001, 8], [8, 8.001], [8, 8]]] };
+        const simplified = simplifyBoundaries({
+            [HAYWARD]: { type: 'MultiPolygon', coordinates: [[BOUNDARIES[HAYWARD].coordinates[0], lake], [island]] },
+            [CASTRO_VALLEY]: tiny,
+        }, 0.01);
+
+        const hayward = simplified[HAYWARD] as Polygon;
+        expect(hayward.type).toBe('Polygon');
+        expect(hayward.coordinates).toHaveLength(2);
+        expect(hayward.coordinates[1]).toHaveLength(5); // The lake is larger than the tolerance
+        expect(simplified[CASTRO_VALLEY]).toBe(tiny);
+        expect(simplifyBoundaries(BOUNDARIES, 0)).toEqual(BOUNDARIES);
+    });
+
+    it('should pick the level of detail by zoom', () => {
+        expect(boundaryLevelForZoom(18)).toBe(BOUNDARY_LEVELS[0]);
+        expect(boundaryLevelForZoom(6).tolerance).toBeGreaterThan(boundaryLevelForZoom(11).tolerance);
+        expect(boundaryUrl('/base/', HAYWARD, 15)).toBe(`/base/assets/boundaries/${HAYWARD}.geojson`);
+        expect(boundaryUrl('/base/', HAYWARD, 11)).toBe(`/base/assets/boundaries/${HAYWARD}.lod1.geojson`);
+        expect(boundaryUrl('/base/', HAYWARD, 3)).toBe(`/base/assets/boundaries/${HAYWARD}.lod3.geojson`);
+    });
+});
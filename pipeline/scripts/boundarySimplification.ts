@@ -0,0 +1,178 @@
+import type { Position } from 'geojson';
+import { AreaGeometry, polygonsOf } from './geometry.js';
+
+export const keyOf = ([x, y]: Position): string => `${x},${y}`;
+
+function toGeometry(polygons: Position[][][]): AreaGeometry {
+    return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+// A closed ring needs at least three distinct positions plus the closing one
+const isValidRing = (ring: Position[]): boolean => ring.length >= 4;
+
+/**
+ * Rounds every coordinate to `precision` decimals and drops the repeated positions this creates.
+ * Rings left with fewer than three distinct positions are dropped, as are polygons without an
+ * outer ring; returns null when nothing is left.
+ */
+export function roundGeometry(geometry: AreaGeometry, precision: number): AreaGeometry | null {
+    const factor = 10 ** precision;
+    const round = (value: number) => Math.round(value * factor) / factor;
+    const polygons: Position[][][] = [];
+    for (const polygon of polygonsOf(geometry)) {
+        const rings: Position[][] = [];
+        for (const ring of polygon) {
+            const rounded: Position[] = [];
+            for (const [x, y] of ring) {
+                const point = [round(x), round(y)];
+                const last = rounded[rounded.length - 1];
+                if (!last || last[0] !== point[0] || last[1] !== point[1]) rounded.push(point);
+            }
+            if (isValidRing(rounded)) rings.push(rounded);
+            else if (rings.length === 0) break; // Outer ring collapsed: drop the polygon
+        }
+        if (rings.length > 0) polygons.push(rings);
+    }
+    return polygons.length > 0 ? toGeometry(polygons) : null;
+}
+
+/**
+ * Junctions are the positions where rings stop sharing a border: a position used more than once
+ * with different neighbours. Borders between junctions are shared whole or not at all.
+ */
+export function findJunctions(geometries: AreaGeometry[]): Set<string> {
+    const neighbours = new Map<string, string>();
+    const junctions = new Set<string>();
+    for (const geometry of geometries) {
+        for (const polygon of polygonsOf(geometry)) {
+            for (const ring of polygon) {
+                const size = ring.length - 1; // The closing position repeats the first
+                for (let i = 0; i < size; i++) {
+                    const key = keyOf(ring[i]);
+                    const previous = keyOf(ring[(i - 1 + size) % size]);
+                    const next = keyOf(ring[(i + 1) % size]);
+                    const pair = previous < next ? `${previous}|${next}` : `${next}|${previous}`;
+                    const seen = neighbours.get(key);
+                    if (seen === undefined) neighbours.set(key, pair);
+                    else if (seen !== pair) junctions.add(key);
+                }
+            }
+        }
+    }
+    return junctions;
+}
+
+// Distance from P to segment AB, in coordinate units
+function segmentDistance([px, py]: Position, [ax, ay]: Position, [bx, by]: Position): number {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+// Douglas-Peucker on an open line; both ends are always kept
+function simplifyLine(line: Position[], tolerance: number): Position[] {
+    const keep = new Uint8Array(line.length);
+    keep[0] = keep[line.length - 1] = 1;
+    const stack: [number, number][] = [[0, line.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        let farthest = -1;
+        let farthestDistance = tolerance;
+        for (let i = first + 1; i < last; i++) {
+            const distance = segmentDistance(line[i], line[first], line[last]);
+            if (distance > farthestDistance) {
+                farthest = i;
+                farthestDistance = distance;
+            }
+        }
+        if (farthest === -1) continue;
+        keep[farthest] = 1;
+        stack.push([first, farthest], [farthest, last]);
+    }
+    return line.filter((_, i) => keep[i]);
+}
+
+// Simplifies a border in a canonical direction so both rings sharing it get the same positions
+function simplifyBorder(border: Position[], tolerance: number): Position[] {
+    if (keyOf(border[0]) <= keyOf(border[border.length - 1])) return simplifyLine(border, tolerance);
+    return simplifyLine([...border].reverse(), tolerance).reverse();
+}
+
+/**
+ * Cuts a closed ring into borders between consecutive junctions; each border starts and ends on
+ * one. A ring needs two fixed positions: without junctions it starts from its smallest position
+ * (the same whichever ring owns it), and the position farthest from the first one is added.
+ * Rings sharing a border cut it at the same positions.
+ */
+export function splitRingAtJunctions(ring: Position[], junctions: Set<string>): Position[][] {
+    const open = ring.slice(0, -1);
+    const locked = open.map((point, i) => (junctions.has(keyOf(point)) ? i : -1)).filter(i => i !== -1);
+
+    if (locked.length === 0) {
+        let smallest = 0;
+        open.forEach((point, i) => { if (keyOf(point) < keyOf(open[smallest])) smallest = i; });
+        locked.push(smallest);
+    }
+    if (locked.length === 1) {
+        const anchor = open[locked[0]];
+        let farthest = -1;
+        let farthestDistance = -1;
+        open.forEach((point, i) => {
+            const distance = Math.hypot(point[0] - anchor[0], point[1] - anchor[1]);
+            if (distance > farthestDistance || (distance === farthestDistance && keyOf(point) < keyOf(open[farthest]))) {
+                farthest = i;
+                farthestDistance = distance;
+            }
+        });
+        locked.push(farthest);
+        locked.sort((a, b) => a - b);
+    }
+
+    return locked.map((start, k) => {
+        const end = locked[(k + 1) % locked.length];
+        return end > start
+            ? open.slice(start, end + 1)
+            : [...open.slice(start), ...open.slice(0, end + 1)];
+    });
+}
+
+function simplifyRing(ring: Position[], junctions: Set<string>, tolerance: number): Position[] | null {
+    const simplified: Position[] = [];
+    for (const border of splitRingAtJunctions(ring, junctions)) {
+        simplified.push(...simplifyBorder(border, tolerance).slice(0, -1));
+    }
+    simplified.push(simplified[0]);
+    return isValidRing(simplified) ? simplified : null;
+}
+
+/**
+ * Douglas-Peucker simplification of a set of neighbouring boundaries that keeps their shared
+ * borders identical: rings are cut at junctions and every border is simplified the same way for
+ * each district using it, so simplification opens no gaps or overlaps between districts.
+ * Rings that collapse are dropped; a district whose every polygon collapses keeps its input.
+ */
+export function simplifyBoundaries(
+    boundaries: { [cdsCode: string]: AreaGeometry },
+    tolerance: number
+): { [cdsCode: string]: AreaGeometry } {
+    if (tolerance <= 0) return { ...boundaries };
+    const junctions = findJunctions(Object.values(boundaries));
+    const simplified: { [cdsCode: string]: AreaGeometry } = {};
+    for (const [cdsCode, geometry] of Object.entries(boundaries)) {
+        const polygons: Position[][][] = [];
+        for (const [outer, ...holes] of polygonsOf(geometry)) {
+            const simplifiedOuter = simplifyRing(outer, junctions, tolerance);
+            if (!simplifiedOuter) continue;
+            const simplifiedHoles = holes
+                .map(hole => simplifyRing(hole, junctions, tolerance))
+                .filter((hole): hole is Position[] => hole !== null);
+            polygons.push([simplifiedOuter, ...simplifiedHoles]);
+        }
+        simplified[cdsCode] = polygons.length > 0 ? toGeometry(polygons) : geometry;
+    }
+    return simplified;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { Polygon } from 'geojson';
+import { applyBoundaryValidation, checkCoordinates } from './boundaryValidation';
+import { collectOutsideBoundaryRecords } from '../../src/scripts/boundaryReview';
+
+const BOUNDARY: Polygon = {
+    type: 'Polygon',
+    coordinates: [[[-122.2, 37.6], [-122.1, 37.6], [-122.1, 37.7], [-122.2, 37.7], [-122.2, 37.6]]],
+};
+
+const DISTRICT_CDS = '01611920000000';
+
+const buildData = () => ({
+    districts: {
+        [DISTRICT_CDS]: { 'CDS Code': DISTRICT_CDS, District: 'Hayward Unified', County: 'Alameda', Latitude: 37.65, Longitude: -122.15 },
+        '01612000000000': { 'CDS Code': '01612000000000', District: 'No Boundary', County: 'Alameda', Latitude: 37.8, Longitude: -122.2 },
+    } as any,
+    schools: {
+        [DISTRICT_CDS]: [
+            { 'CDS Code': '01611920100001', School: 'Inside', Latitude: '37.62', Longitude: '-122.18' },
+            { 'CDS Code': '01611920100002', School: 'City Centroid', Latitude: '37.65', Longitude: '-122.0' },
+            { 'CDS Code': '01611920100003', School: 'Not Geocoded', Latitude: 'No Data', Longitude: 'No Data' },
+        ],
+    } as any,
+});
+
+describe('boundaryValidation', () => {
+    describe('checkCoordinates', () => {
+        it('should flag points outside the boundary with their distance', () => {
+            expect(checkCoordinates('37.65', '-122.15', BOUNDARY)).toEqual({ outsideBoundary: false, boundaryDistanceMeters: 0 });
+            const outside = checkCoordinates(37.65, -122.0, BOUNDARY);
+            expect(outside.outsideBoundary).toBe(true);
+            expect(outside.boundaryDistanceMeters).toBeGreaterThan(8000);
+        });
+
+        it('should not check records without coordinates or boundary', () => {
+            expect(checkCoordinates('No Data', 'No Data', BOUNDARY)).toEqual({ outsideBoundary: null, boundaryDistanceMeters: null });
+            expect(checkCoordinates(37.65, -122.15, null)).toEqual({ outsideBoundary: null, boundaryDistanceMeters: null });
+        });
+    });
+
+    describe('applyBoundaryValidation', () => {
+        it('should annotate district offices and linked schools in place', () => {
+            const { districts, schools } = buildData();
+            const summary = applyBoundaryValidation(districts, schools, cds => (cds === DISTRICT_CDS ? BOUNDARY : null));
+
+            expect(summary).toEqual({ districtsWithBoundary: 1, districtsWithoutBoundary: ['01612000000000'], checked: 3, notChecked: 2, outside: 1 });
+            expect(districts[DISTRICT_CDS].outsideBoundary).toBe(false);
+            expect(Object.values(districts).map((d: any) => d.hasBoundary)).toEqual([true, false]);
+            expect(schools[DISTRICT_CDS].map((s: any) => s.outsideBoundary)).toEqual([false, true, null]);
+
+            const flagged = collectOutsideBoundaryRecords(districts, schools);
+            expect(flagged).toHaveLength(1);
+            expect(flagged[0]).toMatchObject({ kind: 'school', name: 'City Centroid', districtName: 'Hayward Unified', county: 'Alameda' });
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Feature } from 'geojson';
+import type { DistrictDataMap, DistrictDetails, SchoolDetails, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+import { BOUNDARY_LEVELS, BoundaryLevel, boundaryFileName } from '../../src/scripts/boundaryLevels.js';
+import { AreaGeometry, distanceToBoundaryMeters, isPointInGeometry, toWgs84 } from './geometry.js';
+
+export interface BoundaryCheckResult {
+    outsideBoundary: boolean | null;
+    boundaryDistanceMeters: number | null;
+}
+
+export interface BoundaryValidationSummary {
+    districtsWithBoundary: number;
+    districtsWithoutBoundary: string[];
+    checked: number;
+    notChecked: number;
+    outside: number;
+}
+
+type BoundaryLoader = (districtCdsCode: string) => AreaGeometry | null;
+
+const NOT_CHECKED: BoundaryCheckResult = { outsideBoundary: null, boundaryDistanceMeters: null };
+
+const parseCoordinate = (value: unknown): number => (typeof value === 'number' ? value : parseFloat(String(value)));
+
+/**
+ * Tests one coordinate pair against a WGS84 boundary. Points inside get distance 0;
+ * points outside get the distance to the nearest boundary edge, rounded to whole metres.
+ */
+export function checkCoordinates(latitude: unknown, longitude: unknown, boundary: AreaGeometry | null): BoundaryCheckResult {
+    const lat = parseCoordinate(latitude);
+    const lon = parseCoordinate(longitude);
+    if (!boundary || isNaN(lat) || isNaN(lon)) return NOT_CHECKED;
+    if (isPointInGeometry(lon, lat, boundary)) {
+        return { outsideBoundary: false, boundaryDistanceMeters: 0 };
+    }
+    return { outsideBoundary: true, boundaryDistanceMeters: Math.round(distanceToBoundaryMeters(lon, lat, boundary)) };
+}
+
+/**
+ * Reads the boundary files written by splitBoundaries.ts at the given level of detail (full detail by
+ * default), reprojecting files still in Web Mercator to WGS84. Returns null when the district has no
+ * boundary file or no polygon geometry.
+ */
+export function createBoundaryFileLoader(boundariesDir: string, level: BoundaryLevel = BOUNDARY_LEVELS[0]): BoundaryLoader {
+    return (districtCdsCode: string) => {
+        const filePath = path.join(boundariesDir, boundaryFileName(districtCdsCode, level));
+        if (!fs.existsSync(filePath)) return null;
+        const feature = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as Feature;
+        const geometry = feature.geometry;
+        if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return null;
+        return toWgs84(geometry);
+    };
+}
+
+/**
+ * Sets `outsideBoundary` and `boundaryDistanceMeters` on every district office and linked school,
+ * and `hasBoundary` on every district. Records are updated in place; records that could not be
+ * tested get null for both fields.
+ */
+export function applyBoundaryValidation(
+    districts: DistrictDataMap,
+    schoolsByDistrict: SchoolsByDistrictMap,
+    loadBoundary: BoundaryLoader
+): BoundaryValidationSummary {
+    const summary: BoundaryValidationSummary = { districtsWithBoundary: 0, districtsWithoutBoundary: [], checked: 0, notChecked: 0, outside: 0 };
+
+    const record = (target: DistrictDetails | SchoolDetails, result: BoundaryCheckResult) => {
+        target.outsideBoundary = result.outsideBoundary;
+        target.boundaryDistanceMeters = result.boundaryDistanceMeters;
+        if (result.outsideBoundary === null) {
+            summary.notChecked++;
+        } else {
+            summary.checked++;
+            if (result.outsideBoundary) summary.outside++;
+        }
+    };
+
+    for (const [cdsCode, district] of Object.entries(districts)) {
+        const boundary = loadBoundary(cdsCode);
+        district.hasBoundary = boundary !== null;
+        if (boundary) {
+            summary.districtsWithBoundary++;
+        } else {
+            summary.districtsWithoutBoundary.push(cdsCode);
+        }
+
+        record(district, checkCoordinates(district.Latitude, district.Longitude, boundary));
+        for (const school of schoolsByDistrict[cdsCode] || []) {
+            record(school, checkCoordinates(school.Latitude, school.Longitude, boundary));
+        }
+    }
+
+    return summary;
+}
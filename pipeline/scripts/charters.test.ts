@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { Polygon } from 'geojson';
+import type { SchoolDetails } from '../../src/scripts/types';
+import {
+    applyCharterLocations,
+    assignCharterAuthorizers,
+    authorizerTypeOf,
+    groupSchoolsByDistrict,
+    unlistedAuthorizer,
+    UNLISTED_AUTHORIZER_CDS_CODE,
+} from './charters';
+import { validateDistrictsData } from '../../src/scripts/dataSchema';
+import { indexChartersByLocation } from '../../src/scripts/charterRelationships';
+import { renderDistrictInfoHtml } from '../../src/scripts/districtUtils';
+
+const HAYWARD = '01611920000000';
+const ALAMEDA_COE = '01100170000000';
+const CASTRO_VALLEY = '01611760000000';
+
+// Two side-by-side districts: Hayward to the south, Castro Valley to the north
+const BOUNDARIES: { [cdsCode: string]: Polygon } = {
+    [HAYWARD]: { type: 'Polygon', coordinates: [[[-122.2, 37.6], [-122.0, 37.6], [-122.0, 37.7], [-122.2, 37.7], [-122.2, 37.6]]] },
+    [CASTRO_VALLEY]: { type: 'Polygon', coordinates: [[[-122.2, 37.7], [-122.0, 37.7], [-122.0, 37.8], [-122.2, 37.8], [-122.2, 37.7]]] },
+};
+
+const buildData = () => ({
+    districts: {
+        [HAYWARD]: { 'CDS Code': HAYWARD, District: 'Hayward Unified', 'Entity Type': 'Unified School District', slug: `hayward-unified-${HAYWARD}` },
+        [CASTRO_VALLEY]: { 'CDS Code': CASTRO_VALLEY, District: 'Castro Valley Unified', 'Entity Type': 'Unified School District', slug: `castro-valley-unified-${CASTRO_VALLEY}` },
+        [ALAMEDA_COE]: { 'CDS Code': ALAMEDA_COE, District: 'Alameda County Office of Education', 'Entity Type': 'County Office of Education (COE)', slug: `alameda-county-office-of-education-${ALAMEDA_COE}` },
+    } as any,
+    schools: {
+        [HAYWARD]: [
+            { 'CDS Code': '01611920100001', School: 'Hayward High', 'Charter Yes/No': 'N', Latitude: 37.65, Longitude: -122.1 },
+            { 'CDS Code': '01611920100002', School: 'Hayward Charter', 'Charter Yes/No': 'Y', Latitude: 37.66, Longitude: -122.1 },
+        ],
+        [ALAMEDA_COE]: [
+            { 'CDS Code': '01100170100003', School: 'County Charter', 'Charter Yes/No': 'Y', Latitude: 37.75, Longitude: -122.1 },
+            { 'CDS Code': '01100170100004', School: 'Online Charter', 'Charter Yes/No': 'Y', Latitude: 'No Data', Longitude: 'No Data' },
+        ],
+    } as any,
+});
+
+describe('charters', () => {
+    it('should classify authorizers by entity type', () => {
+        expect(authorizerTypeOf('Unified School District')).toBe('district');
+        expect(authorizerTypeOf('County Office of Education (COE)')).toBe('county');
+        expect(authorizerTypeOf('State Board of Education')).toBe('state');
+    });
+
+    it('should record the authorizer of every charter', () => {
+        const { districts, schools } = buildData();
+        expect(assignCharterAuthorizers(districts, schools)).toEqual({ district: 1, county: 2, state: 0, unlisted: 0 });
+        expect(schools[HAYWARD][0].authorizerCdsCode).toBeUndefined();
+        expect(schools[HAYWARD][1]).toMatchObject({ authorizerCdsCode: HAYWARD, authorizerType: 'district' });
+        expect(schools[ALAMEDA_COE][0]).toMatchObject({ authorizerCdsCode: ALAMEDA_COE, authorizerType: 'county' });
+    });
+
+    it('should list charters without an authorizer record under the unlisted authorizer', () => {
+        const { districts } = buildData();
+        const schools = [
+            { 'CDS Code': '01611920100001', School: 'Hayward High', 'Charter Yes/No': 'N' },
+            { 'CDS Code': '19101990100005', School: 'State Board Charter', 'Charter Yes/No': 'Y' },
+            { 'CDS Code': '19101990100006', School: 'Unknown District School', 'Charter Yes/No': 'N' },
+        ] as SchoolDetails[];
+        const { schoolsByDistrict, unlistedCharters, dropped } = groupSchoolsByDistrict(districts, schools);
+
+        expect(unlistedCharters).toBe(1);
+        expect(dropped.map(school => school.School)).toEqual(['Unknown District School']);
+        expect(Object.keys(schoolsByDistrict)).toEqual([HAYWARD, UNLISTED_AUTHORIZER_CDS_CODE]);
+
+        districts[UNLISTED_AUTHORIZER_CDS_CODE] = unlistedAuthorizer(`charters-without-a-listed-authorizer-${UNLISTED_AUTHORIZER_CDS_CODE}`);
+        expect(validateDistrictsData({ [UNLISTED_AUTHORIZER_CDS_CODE]: districts[UNLISTED_AUTHORIZER_CDS_CODE] })).toEqual([]);
+        expect(assignCharterAuthorizers(districts, schoolsByDistrict)).toEqual({ district: 0, county: 0, state: 0, unlisted: 1 });
+        expect(schoolsByDistrict[UNLISTED_AUTHORIZER_CDS_CODE][0]).toMatchObject({ authorizerCdsCode: UNLISTED_AUTHORIZER_CDS_CODE, authorizerType: 'unlisted' });
+    });
+
+    it('should locate charters within geographic district boundaries only', () => {
+        const { districts, schools } = buildData();
+        const loaded: string[] = [];
+        const summary = applyCharterLocations(districts, schools, cdsCode => {
+            loaded.push(cdsCode);
+            return BOUNDARIES[cdsCode] || null;
+        });
+
+        expect(summary).toEqual({ located: 2, notLocated: 1 });
+        expect(loaded).toEqual([HAYWARD, CASTRO_VALLEY]); // The county office is not a geographic district
+        expect(schools[HAYWARD][1].locatedInDistrictCdsCodes).toEqual([HAYWARD]);
+        expect(schools[ALAMEDA_COE][0].locatedInDistrictCdsCodes).toEqual([CASTRO_VALLEY]);
+        expect(schools[ALAMEDA_COE][1].locatedInDistrictCdsCodes).toEqual([]);
+        expect(schools[HAYWARD][0].locatedInDistrictCdsCodes).toBeUndefined();
+    });
+
+    it('should list authorized and located charters separately on district pages', () => {
+        const { districts, schools } = buildData();
+        assignCharterAuthorizers(districts, schools);
+        applyCharterLocations(districts, schools, cdsCode => BOUNDARIES[cdsCode] || null);
+        const byLocation = indexChartersByLocation(districts, schools, '/base/');
+
+        expect(byLocation[CASTRO_VALLEY].map(charter => [charter.school.School, charter.authorizerName])).toEqual([
+            ['County Charter', 'Alameda County Office of Education'],
+        ]);
+
+        document.body.innerHTML = renderDistrictInfoHtml(districts[CASTRO_VALLEY], [], byLocation[CASTRO_VALLEY]);
+        expect(Array.from(document.querySelectorAll('.school-group h3')).map(h => h.textContent)).toEqual([
+            "Charters Located Within This District's Boundary (1)",
+        ]);
+        expect(document.querySelector('.school-authorizer a')?.getAttribute('href')).toBe(`/base/districts/alameda-county-office-of-education-${ALAMEDA_COE}/`);
+
+        document.body.innerHTML = renderDistrictInfoHtml(districts[HAYWARD], schools[HAYWARD], byLocation[HAYWARD]);
+        expect(Array.from(document.querySelectorAll('.school-group h3')).map(h => h.textContent)).toEqual([
+            'Schools in District (1)',
+            'Charters Authorized by This District (1)',
+            "Charters Located Within This District's Boundary (1)",
+        ]);
+        expect(document.querySelector('.school-authorizer')?.textContent).toBe('Authorized by this district');
+    });
+});
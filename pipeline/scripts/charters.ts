@@ -0,0 +1,141 @@
+import type { CharterAuthorizerType, DistrictDataMap, DistrictDetails, SchoolDetails, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+import { isCharterSchool } from '../../src/scripts/charterRelationships.js';
+import { AreaGeometry, geometryBounds, isPointInGeometry } from './geometry.js';
+
+type BoundaryLoader = (districtCdsCode: string) => AreaGeometry | null;
+
+// Entity types that cover a geographic area; a charter is "located within" one of these
+export const GEOGRAPHIC_ENTITY_TYPES = [
+    'Elementary School District',
+    'High School District',
+    'Unified School District',
+    'Common Administration District',
+];
+
+// Entity that charters are listed under when no source record carries their CDS prefix, so they
+// are published rather than dropped. It has no address, coordinates or boundary.
+export const UNLISTED_AUTHORIZER_CDS_CODE = '00000000000000';
+export const UNLISTED_AUTHORIZER_NAME = 'Charters Without a Listed Authorizer';
+const UNLISTED_AUTHORIZER_ENTITY_TYPE = 'Unlisted Charter Authorizer';
+
+// Charters are listed under the entity whose 7-digit CDS prefix they carry: their authorizer
+export function authorizerTypeOf(entityType: unknown): CharterAuthorizerType {
+    if (entityType === 'County Office of Education (COE)') return 'county';
+    if (entityType === 'State Board of Education' || entityType === 'Statewide Benefit Charter') return 'state';
+    if (entityType === UNLISTED_AUTHORIZER_ENTITY_TYPE) return 'unlisted';
+    return 'district';
+}
+
+export function unlistedAuthorizer(slug: string): DistrictDetails {
+    return {
+        'CDS Code': UNLISTED_AUTHORIZER_CDS_CODE,
+        District: UNLISTED_AUTHORIZER_NAME,
+        County: 'Statewide',
+        Status: 'Active',
+        'Entity Type': UNLISTED_AUTHORIZER_ENTITY_TYPE,
+        'Street Address': 'No Data',
+        'Street City': 'No Data',
+        'Street State': 'No Data',
+        'Street Zip': 'No Data',
+        Phone: 'No Data',
+        Website: 'No Data',
+        'Low Grade': 'No Data',
+        'High Grade': 'No Data',
+        Latitude: 'No Data',
+        Longitude: 'No Data',
+        slug,
+    };
+}
+
+export interface SchoolGrouping {
+    schoolsByDistrict: SchoolsByDistrictMap;
+    // Charters grouped under UNLISTED_AUTHORIZER_CDS_CODE; the caller adds that entity when there are any
+    unlistedCharters: number;
+    // Other schools whose district is not in the data, or whose CDS code is malformed
+    dropped: SchoolDetails[];
+}
+
+/**
+ * Groups schools under the district, county office or state board whose 7-digit CDS prefix they
+ * carry. Charters whose authorizer is not in `districts` go under the unlisted authorizer instead.
+ */
+export function groupSchoolsByDistrict(districts: DistrictDataMap, schools: SchoolDetails[]): SchoolGrouping {
+    const grouping: SchoolGrouping = { schoolsByDistrict: {}, unlistedCharters: 0, dropped: [] };
+    for (const school of schools) {
+        const prefix = school['CDS Code'].substring(0, 7);
+        let districtCdsCode = `${prefix}0000000`;
+        if (!/^\d{7}$/.test(prefix)) {
+            grouping.dropped.push(school);
+            continue;
+        }
+        if (!districts[districtCdsCode]) {
+            if (!isCharterSchool(school)) {
+                grouping.dropped.push(school);
+                continue;
+            }
+            districtCdsCode = UNLISTED_AUTHORIZER_CDS_CODE;
+            grouping.unlistedCharters++;
+        }
+        (grouping.schoolsByDistrict[districtCdsCode] ||= []).push(school);
+    }
+    return grouping;
+}
+
+/**
+ * Records the authorizer of every charter school in place: the district, county office or
+ * state board it is grouped under. Returns how many charters each kind of authorizer has.
+ */
+export function assignCharterAuthorizers(
+    districts: DistrictDataMap,
+    schoolsByDistrict: SchoolsByDistrictMap
+): { [type in CharterAuthorizerType]: number } {
+    const counts = { district: 0, county: 0, state: 0, unlisted: 0 };
+    for (const [districtCdsCode, schools] of Object.entries(schoolsByDistrict)) {
+        const authorizerType = authorizerTypeOf(districts[districtCdsCode]?.['Entity Type']);
+        for (const school of schools) {
+            if (!isCharterSchool(school)) continue;
+            school.authorizerCdsCode = districtCdsCode;
+            school.authorizerType = authorizerType;
+            counts[authorizerType]++;
+        }
+    }
+    return counts;
+}
+
+/**
+ * Sets `locatedInDistrictCdsCodes` on every charter: the geographic districts whose boundary
+ * contains it (an elementary and a high school district may both). Charters without coordinates
+ * get an empty list. Each boundary is loaded once and tested only against charters in its bounds.
+ */
+export function applyCharterLocations(
+    districts: DistrictDataMap,
+    schoolsByDistrict: SchoolsByDistrictMap,
+    loadBoundary: BoundaryLoader
+): { located: number; notLocated: number } {
+    const charters: { school: SchoolDetails; lon: number; lat: number }[] = [];
+    let total = 0;
+    for (const schools of Object.values(schoolsByDistrict)) {
+        for (const school of schools) {
+            if (!isCharterSchool(school)) continue;
+            total++;
+            school.locatedInDistrictCdsCodes = [];
+            const lat = parseFloat(String(school.Latitude));
+            const lon = parseFloat(String(school.Longitude));
+            if (!isNaN(lat) && !isNaN(lon)) charters.push({ school, lon, lat });
+        }
+    }
+
+    for (const [cdsCode, district] of Object.entries(districts)) {
+        if (!GEOGRAPHIC_ENTITY_TYPES.includes(district['Entity Type'] ?? '')) continue;
+        const boundary = loadBoundary(cdsCode);
+        if (!boundary) continue;
+        const [minLon, minLat, maxLon, maxLat] = geometryBounds(boundary);
+        for (const { school, lon, lat } of charters) {
+            if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+            if (isPointInGeometry(lon, lat, boundary)) school.locatedInDistrictCdsCodes!.push(cdsCode);
+        }
+    }
+
+    const located = charters.filter(({ school }) => school.locatedInDistrictCdsCodes!.length > 0).length;
+    return { located, notLocated: total - located };
+}
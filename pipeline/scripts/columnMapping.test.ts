@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+    ColumnMapping,
+    ColumnMappingError,
+    REQUIRED_COLUMNS,
+    detectHeaderRow,
+    loadColumnMappings,
+    mapSourceRows,
+    resolveColumnPositions,
+} from './columnMapping';
+
+const identity = (headers: string[]) => Object.fromEntries(headers.map(h => [h, h]));
+
+const V1: ColumnMapping = { version: 'v1', columns: { ...identity(REQUIRED_COLUMNS), 'Fax Number': null } };
+// A later export that renamed "Street Zip" and dropped the fax column
+const V2: ColumnMapping = {
+    version: 'v2',
+    columns: { ...identity(REQUIRED_COLUMNS.filter(c => c !== 'Street Zip')), 'Street ZIP Code': 'Street Zip' },
+};
+
+const V1_HEADER = [...REQUIRED_COLUMNS, 'Fax Number'];
+
+const row = (header: string[], values: { [column: string]: string }) => header.map(h => values[h] ?? '');
+
+const problemsOf = (fn: () => unknown): string[] => {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof ColumnMappingError) return error.problems;
+        throw error;
+    }
+    return [];
+};
+
+describe('columnMapping', () => {
+    it('should detect the header row after a preamble and map records by name', () => {
+        const header = [...V1_HEADER].reverse();
+        const rows = [
+            ['California School Directory'],
+            ['Exported 2025-04-01'],
+            header,
+            row(header, { 'CDS Code': '01611920000000', District: 'Hayward Unified', 'Fax Number': '555' }),
+        ];
+        const table = mapSourceRows(rows, [V1, V2]);
+        expect(table).toMatchObject({ version: 'v1', headerRow: 3 });
+        expect(table.records).toHaveLength(1);
+        expect(table.records[0]['CDS Code']).toBe('01611920000000');
+        expect(table.records[0]['District']).toBe('Hayward Unified');
+        // Columns mapped to null are accepted but not carried over
+        expect(table.records[0]).not.toHaveProperty('Fax Number');
+    });
+
+    it('should pick the mapping version that matches the header', () => {
+        const header = [...REQUIRED_COLUMNS.filter(c => c !== 'Street Zip'), 'Street ZIP Code'];
+        const table = mapSourceRows([header, row(header, { 'Street ZIP Code': '94544' })], [V1, V2]);
+        expect(table.version).toBe('v2');
+        expect(table.records[0]['Street Zip']).toBe('94544');
+    });
+
+    it('should fail when no header row is found', () => {
+        expect(() => detectHeaderRow([['a', 'b'], ['1', '2']], [V1])).toThrow(/No header row found/);
+    });
+
+    it('should report unknown, missing, renamed and duplicate columns together', () => {
+        const header = [...V1_HEADER.filter(h => h !== 'Phone' && h !== 'Latitude'), 'PHONE', 'Charter Authorizer', 'County'];
+        const n = header.length;
+        expect(problemsOf(() => resolveColumnPositions(header, V1))).toEqual([
+            `Column "Phone" appears to be renamed to "PHONE" (position ${n - 2}).`,
+            `Unknown column "Charter Authorizer" (position ${n - 1}) is not in mapping v1.`,
+            `Duplicate column "County" (positions 3 and ${n}).`,
+            'Missing column "Latitude" expected by mapping v1.',
+        ]);
+    });
+
+    it('should reject mappings that do not provide a required column', () => {
+        const partial: ColumnMapping = { version: 'partial', columns: identity(REQUIRED_COLUMNS.slice(1)) };
+        expect(problemsOf(() => resolveColumnPositions(REQUIRED_COLUMNS.slice(1), partial)))
+            .toEqual(['Mapping partial does not provide required column "Record Type".']);
+    });
+
+    it('should ship a mapping table that covers every required column', () => {
+        const mappings = loadColumnMappings(path.resolve(process.cwd(), 'pipeline/config/cde-column-mappings.json'));
+        for (const mapping of mappings) {
+            const header = Object.keys(mapping.columns);
+            expect(() => resolveColumnPositions(header, mapping)).not.toThrow();
+        }
+    });
+});
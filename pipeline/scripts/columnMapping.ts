@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+
+/**
+ * One known layout of the CDE export. `columns` maps every header of that layout to the
+ * column name the pipeline uses, or to null for a header that is expected but not used.
+ */
+export interface ColumnMapping {
+    version: string;
+    description?: string;
+    columns: { [sourceHeader: string]: string | null };
+}
+
+export interface ColumnMappingTable {
+    mappings: ColumnMapping[];
+}
+
+export interface SourceTable {
+    version: string;
+    headerRow: number; // 1-based position of the detected header among non-empty rows
+    records: { [column: string]: string }[];
+}
+
+// Columns read by generateDistrictJson.ts; every mapping version of the directory export must provide them
+export const REQUIRED_COLUMNS: string[] = [
+    'Record Type', 'CDS Code', 'County', 'District', 'School', 'Status', 'Funding Type',
+    'Educational Program Type', 'Entity Type', 'Low Grade', 'High Grade', 'Public Yes/No', 'Website',
+    'Latitude', 'Longitude', 'Street Address', 'Street City', 'Street State', 'Street Zip', 'Phone',
+    'Open Date', 'Closed Date',
+];
+
+// How many leading rows may hold a title or export metadata before the header row
+const MAX_HEADER_SCAN_ROWS = 20;
+
+export class ColumnMappingError extends Error {
+    constructor(readonly problems: string[]) {
+        super([
+            `Source file does not match a known CDE export layout:`,
+            ...problems.map(problem => `  - ${problem}`),
+            `If CDE changed the export, add a new mapping version to the source's table in pipeline/config/.`,
+        ].join('\n'));
+        this.name = 'ColumnMappingError';
+    }
+}
+
+const normalizeHeader = (header: string) => header.trim().replace(/\s+/g, ' ');
+// Looser comparison used only to suggest renames ("Street Zip" vs "StreetZIP")
+const looseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function loadColumnMappings(filePath: string): ColumnMapping[] {
+    const table = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as ColumnMappingTable;
+    if (!Array.isArray(table.mappings) || table.mappings.length === 0) {
+        throw new Error(`No column mappings defined in ${filePath}`);
+    }
+    return table.mappings;
+}
+
+const countKnownHeaders = (row: string[], mapping: ColumnMapping) =>
+    row.filter(cell => Object.prototype.hasOwnProperty.call(mapping.columns, normalizeHeader(cell))).length;
+
+/**
+ * Finds the header row among the first rows of the file: the row that matches the most
+ * headers of any mapping version. Preamble rows (titles, export dates) match few or none.
+ */
+export function detectHeaderRow(rows: string[][], mappings: ColumnMapping[]): { rowIndex: number; mapping: ColumnMapping } {
+    let best: { rowIndex: number; mapping: ColumnMapping; matches: number } | null = null;
+    for (let rowIndex = 0; rowIndex < Math.min(rows.length, MAX_HEADER_SCAN_ROWS); rowIndex++) {
+        for (const mapping of mappings) {
+            const matches = countKnownHeaders(rows[rowIndex], mapping);
+            if (!best || matches > best.matches) best = { rowIndex, mapping, matches };
+        }
+    }
+
+    // A real header row carries at least half of its version's headers
+    if (!best || best.matches === 0 || best.matches < Object.keys(best.mapping.columns).length / 2) {
+        throw new ColumnMappingError([`No header row found in the first ${MAX_HEADER_SCAN_ROWS} rows (known versions: ${mappings.map(m => m.version).join(', ')}).`]);
+    }
+    return { rowIndex: best.rowIndex, mapping: best.mapping };
+}
+
+/**
+ * Checks a header row against a mapping version and returns the position of each pipeline
+ * column. Every mismatch is collected so one run reports all of them.
+ */
+export function resolveColumnPositions(
+    headerRow: string[],
+    mapping: ColumnMapping,
+    requiredColumns: string[] = REQUIRED_COLUMNS
+): { [column: string]: number } {
+    const problems: string[] = [];
+    const positions: { [column: string]: number } = {};
+    const headers = headerRow.map(normalizeHeader);
+    const expectedHeaders = Object.keys(mapping.columns);
+    const missingHeaders = expectedHeaders.filter(header => !headers.includes(header));
+
+    headers.forEach((header, index) => {
+        if (header === '') return;
+        if (headers.indexOf(header) !== index) {
+            problems.push(`Duplicate column "${header}" (positions ${headers.indexOf(header) + 1} and ${index + 1}).`);
+            return;
+        }
+        if (!Object.prototype.hasOwnProperty.call(mapping.columns, header)) {
+            const renamedFrom = missingHeaders.find(missing => looseHeader(missing) === looseHeader(header));
+            problems.push(renamedFrom
+                ? `Column "${renamedFrom}" appears to be renamed to "${header}" (position ${index + 1}).`
+                : `Unknown column "${header}" (position ${index + 1}) is not in mapping ${mapping.version}.`);
+            return;
+        }
+        const column = mapping.columns[header];
+        if (column) positions[column] = index;
+    });
+
+    for (const missing of missingHeaders) {
+        const renamed = headers.some(header => !Object.prototype.hasOwnProperty.call(mapping.columns, header) && looseHeader(header) === looseHeader(missing));
+        if (!renamed) problems.push(`Missing column "${missing}" expected by mapping ${mapping.version}.`);
+    }
+
+    const mappedColumns = new Set(Object.values(mapping.columns));
+    for (const required of requiredColumns) {
+        if (!mappedColumns.has(required)) problems.push(`Mapping ${mapping.version} does not provide required column "${required}".`);
+    }
+
+    if (problems.length > 0) throw new ColumnMappingError(problems);
+    return positions;
+}
+
+/**
+ * Turns raw CSV rows into records keyed by pipeline column names, detecting the header row
+ * and the export version along the way. Rows before the header are ignored.
+ */
+export function mapSourceRows(rows: string[][], mappings: ColumnMapping[], requiredColumns: string[] = REQUIRED_COLUMNS): SourceTable {
+    const { rowIndex, mapping } = detectHeaderRow(rows, mappings);
+    const positions = resolveColumnPositions(rows[rowIndex], mapping, requiredColumns);
+
+    const records = rows.slice(rowIndex + 1)
+        .filter(row => row.some(cell => cell !== ''))
+        .map(row => {
+            const record: { [column: string]: string } = {};
+            for (const [column, index] of Object.entries(positions)) {
+                record[column] = row[index] ?? '';
+            }
+            return record;
+        });
+
+    return { version: mapping.version, headerRow: rowIndex + 1, records };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DistrictDataMap, HistoryData, SchoolsByDistrictMap } from '../../src/scripts/types';
+import { buildDataSnapshot, countSnapshotRecords, describeSourceFile, latestRecordDate, parseSourceDate } from './dataSnapshot';
+
+const DIRECTORY = { kind: 'directory' as const, label: 'CDE School Directory export', url: 'https://www.cde.ca.gov/SchoolDirectory/ExportSelect' };
+
+describe('dataSnapshot', () => {
+    it('should read the date formats of the CDE sources', () => {
+        expect(parseSourceDate('2024-06-20')).toBe('2024-06-20');
+        expect(parseSourceDate('2024-06-20 00:00:00')).toBe('2024-06-20');
+        expect(parseSourceDate('6/20/24')).toBe('2024-06-20');
+        expect(parseSourceDate('06/20/2024')).toBe('2024-06-20');
+        expect(parseSourceDate('2/30/2024')).toBeNull();
+        expect(parseSourceDate('No Data')).toBeNull();
+        expect(parseSourceDate(undefined)).toBeNull();
+    });
+
+    it('should date an export by its latest record update', () => {
+        const records = [{ 'Last Update': '3/1/24' }, { 'Last Update': '2024-06-20' }, { 'Last Update': 'No Data' }, {}];
+        expect(latestRecordDate(records)).toBe('2024-06-20');
+        expect(latestRecordDate([{ 'Last Update': '' }])).toBeNull();
+    });
+
+    it('should hash a source file and fall back to its modification date', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-snapshot-'));
+        const filePath = path.join(dir, 'pubschls.txt');
+        fs.writeFileSync(filePath, 'abc');
+        fs.utimesSync(filePath, new Date('2024-05-01T12:00:00Z'), new Date('2024-05-01T12:00:00Z'));
+
+        expect(describeSourceFile(filePath, DIRECTORY, '2024-06-20')).toEqual({
+            ...DIRECTORY,
+            file: 'pubschls.txt',
+            sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+            bytes: 3,
+            exportDate: '2024-06-20',
+            exportDateFrom: 'records',
+        });
+        expect(describeSourceFile(filePath, DIRECTORY)).toMatchObject({ exportDate: '2024-05-01', exportDateFrom: 'file' });
+    });
+
+    it('should count active, bounded and archived records', () => {
+        const districts = {
+            '01611920000000': { hasBoundary: true },
+            '01100170000000': { hasBoundary: false },
+        } as unknown as DistrictDataMap;
+        const schoolsByDistrict = { '01611920000000': [{}, {}], '01100170000000': [{}] } as unknown as SchoolsByDistrictMap;
+        const history = { districts: { '19000000000000': {} }, schoolsByDistrict: { '19000000000000': [{}] } } as unknown as HistoryData;
+        expect(countSnapshotRecords(districts, schoolsByDistrict, history)).toEqual({
+            districts: 2,
+            schools: 3,
+            districtsWithBoundary: 1,
+            archivedDistricts: 1,
+            archivedSchools: 1,
+        });
+    });
+
+    it('should derive the snapshot id from the source hashes and pipeline version only', () => {
+        const source = { ...DIRECTORY, file: 'a.csv', sha256: 'a'.repeat(64), bytes: 1, exportDate: '2024-06-20', exportDateFrom: 'records' as const };
+        const counts = { districts: 0, schools: 0, districtsWithBoundary: 0, archivedDistricts: 0, archivedSchools: 0 };
+        const snapshot = buildDataSnapshot([source], counts, '1.0.0+1234abcd', new Date('2024-06-21T08:00:00Z'));
+
+        expect(snapshot).toMatchObject({ generatedAt: '2024-06-21T08:00:00.000Z', pipelineVersion: '1.0.0+1234abcd', sources: [source] });
+        expect(snapshot.id).toMatch(/^[0-9a-f]{12}$/);
+        expect(buildDataSnapshot([source], { ...counts, schools: 5 }, '1.0.0+1234abcd').id).toBe(snapshot.id);
+        expect(buildDataSnapshot([{ ...source, sha256: 'b'.repeat(64) }], counts, '1.0.0+1234abcd').id).not.toBe(snapshot.id);
+        expect(buildDataSnapshot([source], counts, '1.0.0+ffffffff').id).not.toBe(snapshot.id);
+    });
+});
@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DataSnapshot, DataSnapshotSource, DistrictDataMap, HistoryData, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+
+// Column the CDE sources stamp each record with when it last changed
+export const RECORD_UPDATE_COLUMN = 'Last Update';
+
+/**
+ * A CDE date as YYYY-MM-DD, or null when it is not one. The public schools file writes ISO dates;
+ * the directory export converted from XLSX writes M/D/YY (or M/D/YYYY).
+ */
+export function parseSourceDate(value: string | undefined): string | null {
+    const text = (value || '').trim();
+    const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(text);
+    let year: number, month: number, day: number;
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (us) {
+        [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+        if (us[3].length === 2) year += 2000;
+    } else {
+        return null;
+    }
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+}
+
+// The most recent record update: the best available "as of" date for an export
+export function latestRecordDate(records: { [column: string]: string }[], column = RECORD_UPDATE_COLUMN): string | null {
+    let latest: string | null = null;
+    for (const record of records) {
+        const date = parseSourceDate(record[column]);
+        if (date && (latest === null || date > latest)) latest = date;
+    }
+    return latest;
+}
+
+/**
+ * Describes a source file as read by the pipeline. Without a record date, the file's modification
+ * time stands in for the export date, i.e. when it was downloaded.
+ */
+export function describeSourceFile(
+    filePath: string,
+    source: { kind: DataSnapshotSource['kind']; label: string; url: string },
+    recordDate: string | null = null
+): DataSnapshotSource {
+    const content = fs.readFileSync(filePath);
+    return {
+        ...source,
+        file: path.basename(filePath),
+        sha256: createHash('sha256').update(content).digest('hex'),
+        bytes: content.length,
+        exportDate: recordDate ?? fs.statSync(filePath).mtime.toISOString().slice(0, 10),
+        exportDateFrom: recordDate ? 'records' : 'file',
+    };
+}
+
+export function countSnapshotRecords(districts: DistrictDataMap, schoolsByDistrict: SchoolsByDistrictMap, history: HistoryData): DataSnapshot['counts'] {
+    return {
+        districts: Object.keys(districts).length,
+        schools: Object.values(schoolsByDistrict).reduce((total, schools) => total + schools.length, 0),
+        districtsWithBoundary: Object.values(districts).filter(district => district.hasBoundary === true).length,
+        archivedDistricts: Object.keys(history.districts).length,
+        archivedSchools: Object.values(history.schoolsByDistrict).reduce((total, schools) => total + schools.length, 0),
+    };
+}
+
+/**
+ * The snapshot id changes exactly when a source file or the pipeline changes, so two builds from
+ * the same downloads with the same code publish the same id.
+ */
+export function buildDataSnapshot(
+    sources: DataSnapshotSource[],
+    counts: DataSnapshot['counts'],
+    pipelineVersion: string,
+    generatedAt = new Date()
+): DataSnapshot {
+    const id = createHash('sha256')
+        .update(JSON.stringify({ sources: sources.map(source => source.sha256), pipelineVersion }))
+        .digest('hex')
+        .slice(0, 12);
+    return { id, generatedAt: generatedAt.toISOString(), pipelineVersion, sources, counts };
+}
@@ -1,145 +1,58 @@
 import * as fsPromises from 'fs/promises';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from 'csv-parse';
+import { GeocodeCache } from './geocoding/geocodeCache.js';
+import { createGeocoderProvider } from './geocoding/providers.js';
+import { ProgressReporter, requestQueueOptionsFromEnv, runWithConcurrency, ThrottledProvider } from './geocoding/requestQueue.js';
+import { geocodeWithFallbacks, GeocodeOutcome } from './geocoding/fallbackChain.js';
+import { buildCityCentroids, cityKey, LatLon, loadMatchScoringConfig } from './geocoding/matchScoring.js';
+import { GeocodeReportBuilder } from './geocoding/geocodeReport.js';
+import { formatViolationReport, validateDataAssets } from '../../src/scripts/dataSchema.js';
+import { normalizeSchoolAttributes, SCHOOL_ATTRIBUTE_COLUMNS } from '../../src/scripts/schoolAttributes.js';
+import { ColumnMappingError, SourceTable } from './columnMapping.js';
+import { createSourceAdapter, SourceAdapter } from './sources/sourceAdapters.js';
+import { buildHistoryDataset, classifySourceRecord } from './history.js';
+import { loadSlugRegistry, updateSlugRegistry } from './slugRegistry.js';
+import { assignCharterAuthorizers, groupSchoolsByDistrict, unlistedAuthorizer, UNLISTED_AUTHORIZER_CDS_CODE, UNLISTED_AUTHORIZER_NAME } from './charters.js';
+import { formatPlanSummary, loadPreviousDistricts, loadPreviousSchools, planIncrementalUpdate } from './incremental.js';
+import { resolveStateProfile } from '../../src/scripts/stateProfile.js';
+import { precisionForLevel } from '../../src/scripts/geocodePrecision.js';
+import { buildSearchIndex } from '../../src/scripts/searchIndex.js';
+import type { DistrictDataMap, DistrictDetails, SchoolDetails, SchoolsByDistrictMap } from '../../src/scripts/types.js';
 
 // --- Configuration ---
-const SOURCE_CSV_FILENAME = 'School and District Data.csv'; // Adjust if your CSV name is different
-const INPUT_CSV_PATH = path.resolve(process.cwd(), 'dist', 'pipeline', 'data', SOURCE_CSV_FILENAME);
 const OUTPUT_DISTRICTS_JSON_PATH = path.resolve(process.cwd(), 'public', 'assets', 'districts.json');
 const OUTPUT_SCHOOLS_JSON_PATH = path.resolve(process.cwd(), 'public', 'assets', 'schools_by_district.json');
+// Closed and merged districts and schools (see history.ts)
+const OUTPUT_HISTORY_JSON_PATH = path.resolve(process.cwd(), 'public', 'assets', 'district_history.json');
+// Every slug each district page has had, committed so old URLs keep redirecting
+const SLUG_REGISTRY_PATH = path.resolve(process.cwd(), 'public', 'assets', 'slug-registry.json');
 const OUTPUT_DIR = path.dirname(OUTPUT_DISTRICTS_JSON_PATH);
-
-// const PHOTON_API_URL = 'http://localhost:2322/api'; // URL for local Photon instance
-const NOMINATIM_API_URL = 'http://localhost:8080/search'; // URL for local Nominatim instance
-
-// --- Helper function for delay ---
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// --- Helper function for Address Normalization ---
-function normalizeStreetName(street: string | null | undefined): string | null {
-    if (!street || typeof street !== 'string') return null;
-
-    let normalized = street.trim();
-
-    // Ordinal numbers (simple cases 1-10)
-    const ordinals: { [key: string]: string } = {
-        'First': '1st', 'Second': '2nd', 'Third': '3rd', 'Fourth': '4th', 'Fifth': '5th',
-        'Sixth': '6th', 'Seventh': '7th', 'Eighth': '8th', 'Ninth': '9th', 'Tenth': '10th'
-    };
-    // Match whole words to avoid partial matches
-    normalized = normalized.replace(/\b(First|Second|Third|Fourth|Fifth|Sixth|Seventh|Eighth|Ninth|Tenth)\b/gi, (match) => {
-        const capitalizedMatch = match.charAt(0).toUpperCase() + match.slice(1).toLowerCase(); // Ensure consistent case for lookup
-        return ordinals[capitalizedMatch] || match; // Replace if found, otherwise keep original
-    });
-
-    // Common Abbreviations (Add more as needed, be careful with case sensitivity if required)
-    // Example: Replace full word with abbreviation
-    // normalized = normalized.replace(/\bStreet\b/gi, 'St');
-    // normalized = normalized.replace(/\bAvenue\b/gi, 'Ave');
-    // normalized = normalized.replace(/\bRoad\b/gi, 'Rd');
-    // normalized = normalized.replace(/\bBoulevard\b/gi, 'Blvd');
-    // normalized = normalized.replace(/\bDrive\b/gi, 'Dr');
-    // normalized = normalized.replace(/\bLane\b/gi, 'Ln');
-    // normalized = normalized.replace(/\bPlace\b/gi, 'Pl');
-    // normalized = normalized.replace(/\bCourt\b/gi, 'Ct');
-
-    return normalized;
-}
-
-// --- Helper function to select best match from multiple results --- 
-interface NominatimResult {
-    lat: string;
-    lon: string;
-    display_name: string;
-    name?: string; // Might not always be present
-    class?: string;
-    type?: string;
-    // Add other potentially useful fields if needed
-}
-
-function selectBestMatch(
-    results: NominatimResult[],
-    targetStreetName: string | null,
-    targetCity: string | null
-): NominatimResult | null {
-    if (!results || results.length === 0) return null;
-    if (results.length === 1) return results[0]; // Only one result, return it
-
-    console.log(`[SelectBestMatch] Analyzing ${results.length} results...`);
-
-    const desiredClasses = ['highway'];
-    const desiredTypes = ['residential', 'primary', 'secondary', 'tertiary', 'unclassified', 'living_street', 'road'];
-
-    let bestMatch: NominatimResult | null = null;
-    let bestScore = -1; // Lower score is better (or use priority levels)
-
-    for (const result of results) {
-        let currentScore = 100; // Start with a high score (lower is better)
-
-        // Priority 1: Check Type/Class
-        if (result.class && desiredClasses.includes(result.class) && result.type && desiredTypes.includes(result.type)) {
-            currentScore -= 50; // Big bonus for being a road
-        } else if (result.class === 'place' && (result.type === 'house' || result.type === 'building')) {
-            currentScore -= 25; // Address point or building is also good
-        } else if (result.class === 'boundary' || result.class === 'place') {
-            currentScore += 50; // Penalize boundaries or broad places (like cities)
-        }
-
-        // Priority 2: Check Street Name Match (if targetStreetName provided)
-        if (targetStreetName && result.name) {
-            if (result.name.toLowerCase() === targetStreetName.toLowerCase()) {
-                currentScore -= 30; // Strong bonus for exact name match
-            } else if (result.name.toLowerCase().includes(targetStreetName.toLowerCase())) {
-                currentScore -= 10; // Small bonus for partial match
-            }
-        }
-
-        // Priority 3: Check City Name in Display Name (if targetCity provided)
-        if (targetCity && result.display_name) {
-            if (result.display_name.toLowerCase().includes(targetCity.toLowerCase())) {
-                currentScore -= 5; // Minor bonus if city is mentioned
-            }
-        }
-
-        console.log(`[SelectBestMatch] Result: ${result.display_name}, Score: ${currentScore}`);
-
-        if (bestMatch === null || currentScore < bestScore) {
-            bestScore = currentScore;
-            bestMatch = result;
-            console.log(`[SelectBestMatch] New best match found.`);
-        }
-    }
-
-    // Basic threshold - avoid really bad matches if score is still high
-    if (bestScore > 60 && results.length > 1) {
-        console.warn("[SelectBestMatch] No sufficiently good match found among results.");
-        return null;
-    }
-
-    console.log(`[SelectBestMatch] Final selected match: ${bestMatch?.display_name}`);
-    return bestMatch;
-}
-
-// Define types for intermediate storage
-interface DistrictRecord {
-    [key: string]: any; // Keep flexible for now
-    Latitude?: string | number | null;
-    Longitude?: string | number | null;
-    'Street Address'?: string;
-    'Street City'?: string;
-    'Street State'?: string;
-    District?: string;
-    'CDS Code'?: string;
-    slug?: string;
-}
-
-interface SchoolRecord {
-    [key: string]: any; // Keep flexible
-    'CDS Code'?: string;
-    School?: string;
-    Website?: string;
-}
+// Machine-readable geocoding quality report (read by the internal review page)
+const GEOCODE_REPORT_PATH = path.resolve(process.cwd(), 'pipeline', 'reports', 'geocode-report.json');
+
+// Persistent geocoding cache, committed alongside the generated data
+const GEOCODE_CACHE_PATH = path.resolve(process.cwd(), 'pipeline', 'cache', 'geocode-cache.json');
+// Weights and thresholds for choosing among geocoder candidates (see geocoding/matchScoring.ts)
+const GEOCODE_SCORING_PATH = path.resolve(process.cwd(), 'pipeline', 'config', 'geocode-scoring.json');
+// Offline replay: rebuild outputs purely from the cache, never contacting a geocoder
+const OFFLINE_REPLAY = process.argv.includes('--offline');
+// Incremental: re-geocode only records whose relevant columns changed since the previous output
+const INCREMENTAL = process.argv.includes('--incremental');
+// Verbose: log every geocoding attempt instead of periodic progress lines
+const VERBOSE = process.argv.includes('--verbose');
+
+// The state being built is selected via PUBLIC_STATE_PROFILE (see src/scripts/stateProfile.ts)
+const stateProfile = resolveStateProfile(process.env.PUBLIC_STATE_PROFILE);
+// Input format is selected via DATA_SOURCE (see sources/sourceAdapters.ts)
+const sourceAdapter: SourceAdapter = createSourceAdapter();
+
+const geocodeCache = GeocodeCache.load(GEOCODE_CACHE_PATH);
+// Geocoding engine is selected via GEOCODER_PROVIDER (see geocoding/providers.ts); concurrency,
+// rate limit, timeouts and retries via GEOCODER_CONCURRENCY and friends (see geocoding/requestQueue.ts)
+const requestQueueOptions = requestQueueOptionsFromEnv();
+const geocoderProvider: ThrottledProvider | null = OFFLINE_REPLAY ? null : new ThrottledProvider(createGeocoderProvider(), requestQueueOptions);
+const geocodeScoring = loadMatchScoringConfig(GEOCODE_SCORING_PATH);
 
 // Columns to extract for the final JSON output
 const DISTRICT_COLUMNS_TO_KEEP: string[] = [
@@ -176,13 +89,13 @@ const SCHOOL_COLUMNS_TO_KEEP: string[] = [
     'Public Yes/No',
     'Educational Program Type',
     'Latitude',
-    'Longitude'
+    'Longitude',
+    ...SCHOOL_ATTRIBUTE_COLUMNS
 ];
 
-// Define the expected CSV Headers based on the source structure
-const CSV_HEADERS: string[] = [
-    'Record Type', 'CDS Code', 'Federal District ID', 'Federal School ID', 'Federal Charter District ID', 'County', 'District', 'School', 'Status', 'Open Date', 'Closed Date', 'Charter Yes/No', 'Charter Number', 'Funding Type', 'Educational Program Type', 'Entity Type', 'Low Grade', 'High Grade', 'Virtual Instruction Type', 'Magnet Yes/No', 'Year Round Yes/No', 'Public Yes/No', 'Multilingual Yes/No', 'Website', 'Latitude', 'Longitude', 'Last Update', 'Street Address', 'Street City', 'Street State', 'Street Zip', 'Mailing Address', 'Mailing City', 'Mailing State', 'Mailing Zip', 'Phone', 'Phone Extension', 'Fax Number', 'Administrator Name', 'Administrator Phone', 'Administrator Phone Ext.'
-];
+// Sources richer than the directory export (e.g. pubschls.txt) contribute extra columns
+const DISTRICT_OUTPUT_COLUMNS = [...DISTRICT_COLUMNS_TO_KEEP, ...sourceAdapter.extraDistrictColumns];
+const SCHOOL_OUTPUT_COLUMNS = [...SCHOOL_COLUMNS_TO_KEEP, ...sourceAdapter.extraSchoolColumns];
 
 // --- Helper Function for Slug Generation ---
 function generateSlug(name: string, cdsCode: string): string {
@@ -201,6 +114,16 @@ function generateSlug(name: string, cdsCode: string): string {
     return safeName ? `${safeName}-${cdsCode}` : cdsCode;
 }
 
+// --- Helper: copy the output columns of a source record, marking missing values ---
+// `columns` are the fields of T; validateDataAssets checks the records before they are written
+function pickOutputColumns<T>(record: { [column: string]: string }, columns: string[]): T {
+    const picked: { [column: string]: unknown } = {};
+    for (const col of columns) {
+        picked[col] = record[col] !== undefined && record[col] !== null ? record[col] : 'No Data';
+    }
+    return picked as T;
+}
+
 // --- Helper function to check coordinates ---
 function hasValidCoordinates(lat: string | number | null | undefined, lon: string | number | null | undefined): boolean {
     if (lat == null || lon == null || lat === 'No Data' || lon === 'No Data') return false;
@@ -211,333 +134,237 @@ function hasValidCoordinates(lat: string | number | null | undefined, lon: strin
 }
 
 // --- Refactored Generic Geocoding Logic --- 
-// Takes a record (District or School), field names, and an ID for logging
+// Takes a record (District or School) and an ID for logging
 async function geocodeRecordWithFallbacks(
-    record: { [key: string]: any }, // Generic record
+    record: DistrictDetails | SchoolDetails,
     idForLog: string, // e.g., CDS Code or Name
     nameForLog: string, // e.g., District name or School name
-    streetField: string,
-    cityField: string,
-    stateField: string
-): Promise<{ success: boolean; isFallback: boolean; level: number }> {
-
-    const rawStreet = record[streetField];
-    const rawCity = record[cityField];
-    const rawState = record[stateField];
-
-    let geocodeSuccess = false;
-    let isFallbackResult = false;
-    let successLevel = 0;
-    let lat: number | null = null;
-    let lon: number | null = null;
-
-    const logPrefix = `[Geocode][${idForLog}]`; // Use provided ID
-
-    // --- Attempt 1: Raw Address --- 
-    const rawAddressParts = [rawStreet, rawCity, rawState].filter(p => p && p !== 'No Data');
-    if (rawAddressParts.length >= 2) {
-        let rawAddress = rawAddressParts.join(', ');
-        if (!rawAddress.trim().toUpperCase().endsWith(', CA') && rawState === 'CA') { rawAddress += ', CA'; }
-        console.log(`${logPrefix} Attempt 1 (Raw) for ${nameForLog}: "${rawAddress}"`);
-        try {
-            await delay(50);
-            const url = `${NOMINATIM_API_URL}?q=${encodeURIComponent(rawAddress)}&format=json&limit=1`;
-            const response = await fetch(url);
-            if (!response.ok) throw new Error(`Status ${response.status}`);
-            const results = await response.json();
-            if (results && Array.isArray(results) && results.length > 0 && results[0].lat && results[0].lon) {
-                lat = parseFloat(results[0].lat);
-                lon = parseFloat(results[0].lon);
-                if (!isNaN(lat) && !isNaN(lon)) {
-                    console.log(`${logPrefix} Success (Raw) for ${nameForLog}: [${lat}, ${lon}]`);
-                    geocodeSuccess = true;
-                    successLevel = 1;
-                }
-            }
-        } catch (e: any) { console.warn(`${logPrefix} Attempt 1 (Raw) for ${nameForLog} failed: ${e.message}`); }
-    }
-
-    // --- Attempt 2: Normalized Address --- 
-    const normalizedStreet = normalizeStreetName(rawStreet);
-    const normalizedCity = typeof rawCity === 'string' ? rawCity.trim() : null;
-    const normalizedState = typeof rawState === 'string' ? rawState.trim() : null;
-    let normalizedAddress = '';
-
-    if (!geocodeSuccess) {
-        const normalizedAddressParts = [normalizedStreet, normalizedCity, normalizedState].filter(p => p && p !== 'No Data');
-        if (normalizedAddressParts.length >= 2) {
-            normalizedAddress = normalizedAddressParts.join(', ');
-            if (!normalizedAddress.trim().toUpperCase().endsWith(', CA') && normalizedState === 'CA') { normalizedAddress += ', CA'; }
-
-            // Avoid re-querying if normalized is same as raw and raw failed
-            const rawAddressForCheck = rawAddressParts.join(', ') + (rawState === 'CA' && !rawAddressParts.join(', ').toUpperCase().endsWith(', CA') ? ', CA' : '');
-            if (normalizedAddress !== rawAddressForCheck) {
-                console.log(`${logPrefix} Attempt 2 (Normalized) for ${nameForLog}: "${normalizedAddress}"`);
-                try {
-                    await delay(50);
-                    const url = `${NOMINATIM_API_URL}?q=${encodeURIComponent(normalizedAddress)}&format=json&limit=1`;
-                    const response = await fetch(url);
-                    if (!response.ok) throw new Error(`Status ${response.status}`);
-                    const results = await response.json();
-                    if (results && Array.isArray(results) && results.length > 0 && results[0].lat && results[0].lon) {
-                        lat = parseFloat(results[0].lat);
-                        lon = parseFloat(results[0].lon);
-                        if (!isNaN(lat) && !isNaN(lon)) {
-                            console.log(`${logPrefix} Success (Normalized) for ${nameForLog}: [${lat}, ${lon}]`);
-                            geocodeSuccess = true;
-                            successLevel = 2;
-                            isFallbackResult = true; // Count normalization as a fallback
-                        }
-                    }
-                } catch (e: any) { console.warn(`${logPrefix} Attempt 2 (Normalized) for ${nameForLog} failed: ${e.message}`); }
-            } else {
-                console.log(`${logPrefix} Skipping Attempt 2 (Normalized) as it's same as failed raw query for ${nameForLog}.`);
-            }
-        }
-    }
-
-    // --- Attempt 3: Normalized Street Name + City + State --- 
-    const streetNameOnly = typeof normalizedStreet === 'string' ? normalizedStreet.replace(/^\d+\s+/, '').trim() : null;
-    let fallbackAddress1 = '';
-    if (!geocodeSuccess && streetNameOnly && normalizedCity && normalizedCity !== 'No Data') {
-        const parts = [streetNameOnly, normalizedCity, normalizedState].filter(p => p && p !== 'No Data');
-        fallbackAddress1 = parts.join(', ');
-        if (!fallbackAddress1.trim().toUpperCase().endsWith(', CA') && normalizedState === 'CA') { fallbackAddress1 += ', CA'; }
-
-        if (fallbackAddress1 !== normalizedAddress) { // Avoid re-query
-            console.log(`${logPrefix} Attempt 3 (Norm Street+City+State) for ${nameForLog}: "${fallbackAddress1}"`);
-            try {
-                await delay(50);
-                const url = `${NOMINATIM_API_URL}?q=${encodeURIComponent(fallbackAddress1)}&format=json&limit=5`;
-                const response = await fetch(url);
-                if (!response.ok) throw new Error(`Status ${response.status}`);
-                const results = await response.json();
-                const bestMatch = selectBestMatch(results, streetNameOnly, normalizedCity);
-                if (bestMatch && bestMatch.lat && bestMatch.lon) {
-                    lat = parseFloat(bestMatch.lat);
-                    lon = parseFloat(bestMatch.lon);
-                    if (!isNaN(lat) && !isNaN(lon)) {
-                        console.warn(`${logPrefix} Success (Fallback 1 - Street+City) for ${nameForLog}: [${lat}, ${lon}] (Selected: ${bestMatch.display_name})`);
-                        geocodeSuccess = true;
-                        successLevel = 3;
-                        isFallbackResult = true;
-                    }
-                }
-            } catch (e: any) { console.warn(`${logPrefix} Attempt 3 (Norm Street+City+State) for ${nameForLog} failed: ${e.message}`); }
-        }
-    }
-
-    // --- Attempt 4 (Formerly 5): City + State --- 
-    if (!geocodeSuccess && normalizedCity && normalizedCity !== 'No Data' && normalizedState === 'CA') {
-        const fallbackAddress3 = `${normalizedCity}, ${normalizedState}`;
-        // Avoid re-querying if this combination was already tried (unlikely here but good practice)
-        const prevAttempts = [
-            rawAddressParts.join(', ') + (rawState === 'CA' && !rawAddressParts.join(', ').toUpperCase().endsWith(', CA') ? ', CA' : ''),
-            normalizedAddress,
-            fallbackAddress1
-        ];
-        if (!prevAttempts.includes(fallbackAddress3)) {
-            console.log(`${logPrefix} Attempt 4 (City+State): "${fallbackAddress3}"`); // Update log to Attempt 4
-            try {
-                await delay(50);
-                const url = `${NOMINATIM_API_URL}?q=${encodeURIComponent(fallbackAddress3)}&format=json&limit=1`;
-                const response = await fetch(url);
-                if (!response.ok) throw new Error(`Status ${response.status}`);
-                const results = await response.json();
-                if (results && Array.isArray(results) && results.length > 0 && results[0].lat && results[0].lon) {
-                    lat = parseFloat(results[0].lat);
-                    lon = parseFloat(results[0].lon);
-                    if (!isNaN(lat) && !isNaN(lon)) {
-                        console.warn(`${logPrefix} Success (Fallback 3 - City+State): [${lat}, ${lon}]`); // Keep log detail (Fallback 3)
-                        geocodeSuccess = true;
-                        successLevel = 4; // Update success level
-                        isFallbackResult = true;
-                    }
-                }
-            } catch (e: any) { console.warn(`${logPrefix} Attempt 4 (City+State) failed: ${e.message}`); } // Update log
-        }
-    }
+    cityCentroids: Map<string, LatLon> // Expected locations, from records that came with coordinates
+): Promise<GeocodeOutcome> {
+    const city = record['Street City'];
+    const state = record['Street State'];
+    const expectedLocation = cityCentroids.get(cityKey(city, state)) ?? null;
+    const outcome = await geocodeWithFallbacks(
+        { street: record['Street Address'], city, state, zip: record['Street Zip'], expectedLocation },
+        { provider: geocoderProvider, cache: geocodeCache, logPrefix: `[Geocode][${idForLog}]`, nameForLog, stateCode: stateProfile.postalCode, scoring: geocodeScoring, verbose: VERBOSE }
+    );
 
     // Update record object if successful
-    if (geocodeSuccess && lat !== null && lon !== null) {
-        record.Latitude = lat;
-        record.Longitude = lon;
+    if (outcome.success && outcome.lat !== null && outcome.lon !== null) {
+        record.Latitude = outcome.lat;
+        record.Longitude = outcome.lon;
+        record.geocodePrecision = precisionForLevel(outcome.level);
+        record.geocodeConfidence = outcome.confidence;
     } else {
         // Log final failure only if the initial coordinates were invalid
-        if (!hasValidCoordinates(record.Latitude, record.Longitude)) {
-            console.error(`${logPrefix} All geocoding attempts failed for ${nameForLog}.`);
+        if (VERBOSE && !hasValidCoordinates(record.Latitude, record.Longitude)) {
+            console.error(`[Geocode][${idForLog}] All geocoding attempts failed for ${nameForLog}.`);
         }
         // Ensure coords are marked invalid if geocoding failed or was skipped
         record.Latitude = 'No Data';
         record.Longitude = 'No Data';
     }
 
-    return { success: geocodeSuccess, isFallback: isFallbackResult, level: successLevel };
+    return outcome;
+}
+
+// Geocodes records through the request queue, several at a time, reporting progress periodically
+async function geocodeRecords<T extends DistrictDetails | SchoolDetails>(
+    label: string,
+    records: T[],
+    idOf: (record: T) => string,
+    nameOf: (record: T) => string,
+    cityCentroids: Map<string, LatLon>
+): Promise<Map<T, GeocodeOutcome>> {
+    const progress = new ProgressReporter(label, records.length);
+    const outcomes = await runWithConcurrency(records, requestQueueOptions.concurrency, async record => {
+        const outcome = await geocodeRecordWithFallbacks(record, idOf(record), nameOf(record), cityCentroids);
+        progress.record(outcome.success);
+        return outcome;
+    });
+    return new Map(records.map((record, index) => [record, outcomes[index]]));
 }
 
 // --- Main Function ---
 async function generateJsonData() {
-    // --- Add File Existence Check --- 
-    if (fs.existsSync(OUTPUT_DISTRICTS_JSON_PATH) && fs.existsSync(OUTPUT_SCHOOLS_JSON_PATH)) {
-        console.log("Output JSON files already exist. Skipping data generation.");
-        console.log(` - ${OUTPUT_DISTRICTS_JSON_PATH}`);
-        console.log(` - ${OUTPUT_SCHOOLS_JSON_PATH}`);
-        // Exit successfully without running the rest of the script
-        // Note: In some build systems, you might return instead of exiting
-        process.exit(0);
+    console.log(`Starting data generation from: ${sourceAdapter.inputPath} (source: ${sourceAdapter.name})`);
+    console.log(`Geocoder: ${geocoderProvider ? geocoderProvider.name : 'offline cache replay'} (${requestQueueOptions.concurrency} at a time, ` +
+        `${requestQueueOptions.requestsPerSecond || 'unlimited'} requests/s, ${requestQueueOptions.timeoutMs} ms timeout, ${requestQueueOptions.maxRetries} retries)`);
+    if (OFFLINE_REPLAY) {
+        if (geocodeCache.size === 0) {
+            console.error(`Error: Offline replay requested but no geocode cache entries found at ${GEOCODE_CACHE_PATH}`);
+            process.exit(1);
+        }
+        console.log(`Offline replay mode: using ${geocodeCache.size} cached geocode results from ${GEOCODE_CACHE_PATH}`);
     }
-    // --- End File Existence Check --- 
 
-    console.log(`Starting data generation from: ${INPUT_CSV_PATH}`);
-
-    if (!fs.existsSync(INPUT_CSV_PATH)) {
-        console.error(`Error: Input CSV file not found at ${INPUT_CSV_PATH}`);
-        console.error('Please ensure you have run the XLSX to CSV conversion first.');
+    if (!fs.existsSync(sourceAdapter.inputPath)) {
+        console.error(`Error: Input file not found at ${sourceAdapter.inputPath}`);
+        console.error(sourceAdapter.missingInputHint);
         process.exit(1);
     }
 
-    const fileContent = fs.readFileSync(INPUT_CSV_PATH, { encoding: 'utf8' });
-
     // --- Temporary storage during parsing --- 
-    const tempDistricts: DistrictRecord[] = [];
-    const tempSchools: SchoolRecord[] = [];
+    const tempDistricts: DistrictDetails[] = [];
+    const tempSchools: SchoolDetails[] = [];
+    const schoolCounties = new Map<string, string>(); // School CDS Code -> County, for the geocode report
+    const archivedRecords: { [column: string]: string }[] = []; // Closed/merged records for the history dataset
+    const districtOpenDates = new Map<string, string>(); // Active district CDS Code -> Open Date, for successor inference
     // --- End temporary storage ---
 
-    let processedRecordCount = 0; // Count records after skipping metadata
-
-    // Wrap parser logic in a Promise
-    await new Promise<void>((resolve, reject) => {
-        const parser = parse(fileContent, {
-            columns: CSV_HEADERS, // Use defined headers
-            skip_empty_lines: true,
-            trim: true,
-            // from_line: 5 // REMOVED - read from start
-            skip_records_with_empty_values: true, // Helps ignore potentially empty trailing lines
-            // Use on_record to skip the first 4 data rows (assuming row 1 was headers)
-            on_record: (record, { lines }) => {
-                if (lines <= 4) { // Skip lines 1, 2, 3, 4 (header is line 1, metadata 2-4)
-                    return null; // Discard the record
-                }
-                return record; // Keep the record
+    let processedRecordCount = 0; // Count records after the header row
+
+    // Parse raw rows, then locate the header row and map columns by name
+    let sourceTable: SourceTable;
+    try {
+        sourceTable = sourceAdapter.read();
+    } catch (error: any) {
+        console.error(error instanceof ColumnMappingError ? error.message : `Error parsing ${sourceAdapter.inputPath}: ${error.message}`);
+        process.exit(1);
+    }
+    console.log(`Detected CDE layout ${sourceTable.version} (header on row ${sourceTable.headerRow}).`);
+
+    for (const record of sourceTable.records) {
+        processedRecordCount++;
+
+        const recordType = record['Record Type'];
+        const cdsCode = record['CDS Code'];
+        if (!cdsCode) {
+            console.warn(`Skipping processed record ${processedRecordCount} due to missing CDS Code.`);
+            continue;
+        }
+
+        // --- Add Skipping Conditions --- 
+        const disposition = classifySourceRecord(record);
+        if (disposition === 'archived') {
+            archivedRecords.push(record); // Kept in the history dataset instead of being dropped
+            continue;
+        }
+        if (disposition === 'redacted') {
+            console.warn(`[Skip] Skipping record ${processedRecordCount} (CDS: ${cdsCode}) due to redacted address.`);
+            continue; // Skip to next record
+        }
+        if (disposition === 'inactive') {
+            console.warn(`[Skip] Skipping record ${processedRecordCount} (CDS: ${cdsCode}) due to Status: ${record['Status']}`);
+            continue; // Skip to next record
+        }
+        // --- End Skipping Conditions --- 
+
+        // Process Districts (Store temporarily)
+        if ((recordType === 'District' || recordType === 'County Office')) {
+            // Check if district already added to avoid duplicates if CSV has multiple district rows
+            if (!tempDistricts.some(d => d['CDS Code'] === cdsCode)) {
+                const districtDetails = pickOutputColumns<DistrictDetails>(record, DISTRICT_OUTPUT_COLUMNS);
+                districtDetails.slug = generateSlug(record['District'] || '', cdsCode);
+                tempDistricts.push(districtDetails);
+                districtOpenDates.set(cdsCode, record['Open Date']);
+                // districtCount++; // Count later after geocoding
             }
-        });
-
-        parser.on('readable', () => {
-            let record;
-            while ((record = parser.read()) !== null) {
-                processedRecordCount++;
-
-                const recordType = record['Record Type'];
-                const cdsCode = record['CDS Code'];
-                if (!cdsCode) {
-                    console.warn(`Skipping processed record ${processedRecordCount} due to missing CDS Code.`);
-                    continue;
-                }
+        }
 
-                // --- Add Skipping Conditions --- 
-                const status = record['Status'];
-                if (status !== 'Active') {
-                    console.warn(`[Skip] Skipping record ${processedRecordCount} (CDS: ${cdsCode}) due to Status: ${status}`);
-                    continue; // Skip to next record
+        // Process Schools (Store temporarily)
+        if (recordType === 'School') {
+            const schoolDetails = normalizeSchoolAttributes(pickOutputColumns<SchoolDetails>(record, SCHOOL_OUTPUT_COLUMNS));
+
+            // --- Correct SRVUSD Website URLs Here --- 
+            let website = schoolDetails.Website;
+            if (website && website !== 'No Data') {
+                website = website.trim();
+                const lowerWebsite = website.toLowerCase();
+                if (lowerWebsite.includes('srvusd.net') && lowerWebsite.startsWith('www.')) {
+                    // Attempt to remove www. prefix carefully
+                    const noPrefix = website.substring(4);
+                    console.log(`[DataGen] Correcting SRVUSD URL: ${website} -> ${noPrefix}`);
+                    website = noPrefix; // Update the website variable
                 }
+                schoolDetails.Website = website; // Store potentially corrected URL
+            }
+            // --- End URL Correction --- 
 
-                const streetAddress = record['Street Address'];
-                if (typeof streetAddress === 'string' && streetAddress.toLowerCase().includes('information redacted')) {
-                    console.warn(`[Skip] Skipping record ${processedRecordCount} (CDS: ${cdsCode}) due to redacted address.`);
-                    continue; // Skip to next record
-                }
-                // --- End Skipping Conditions --- 
-
-                // Process Districts (Store temporarily)
-                if ((recordType === 'District' || recordType === 'County Office')) {
-                    // Check if district already added to avoid duplicates if CSV has multiple district rows
-                    if (!tempDistricts.some(d => d['CDS Code'] === cdsCode)) {
-                        const districtDetails: DistrictRecord = {};
-                        DISTRICT_COLUMNS_TO_KEEP.forEach(col => {
-                            districtDetails[col] = record[col] !== undefined && record[col] !== null ? record[col] : 'No Data';
-                        });
-                        // Ensure name passed to slug is a string
-                        const districtName = typeof districtDetails['District'] === 'string' ? districtDetails['District'] : '';
-                        districtDetails['slug'] = generateSlug(districtName, cdsCode);
-                        tempDistricts.push(districtDetails);
-                        // districtCount++; // Count later after geocoding
-                    }
+            tempSchools.push(schoolDetails);
+            schoolCounties.set(cdsCode, record['County'] || 'Unknown');
+            // schoolCount++; // Count later
+        }
+    }
+    console.log(`Finished parsing. Total records processed (excluding header/preamble): ${processedRecordCount}.`);
+
+    // --- Incremental mode: reuse unchanged records from the previous output --- 
+    const reusedRecords = new Set<DistrictDetails | SchoolDetails>();
+    if (INCREMENTAL) {
+        const districtPlan = planIncrementalUpdate(tempDistricts, loadPreviousDistricts(OUTPUT_DISTRICTS_JSON_PATH), DISTRICT_OUTPUT_COLUMNS);
+        const schoolPlan = planIncrementalUpdate(tempSchools, loadPreviousSchools(OUTPUT_SCHOOLS_JSON_PATH), SCHOOL_OUTPUT_COLUMNS);
+
+        // Swap unchanged records for their previous versions (keeps their coordinates and source order)
+        const reuse = <T extends DistrictDetails | SchoolDetails>(records: T[], unchanged: T[]) => {
+            const unchangedByCds = new Map(unchanged.map(r => [r['CDS Code'], r]));
+            records.forEach((record, index) => {
+                const previous = unchangedByCds.get(record['CDS Code']);
+                if (previous) {
+                    records[index] = previous;
+                    reusedRecords.add(previous);
                 }
+            });
+        };
+        reuse(tempDistricts, districtPlan.unchanged);
+        reuse(tempSchools, schoolPlan.unchanged);
+
+        console.log('[Incremental] Changes since previous output:');
+        formatPlanSummary('Districts', districtPlan).forEach(line => console.log(`[Incremental] ${line}`));
+        formatPlanSummary('Schools', schoolPlan).forEach(line => console.log(`[Incremental] ${line}`));
+    }
 
-                // Process Schools (Store temporarily)
-                if (recordType === 'School') {
-                    const schoolDetails: SchoolRecord = {};
-                    SCHOOL_COLUMNS_TO_KEEP.forEach(col => {
-                        schoolDetails[col] = record[col] !== undefined && record[col] !== null ? record[col] : 'No Data';
-                    });
-
-                    // --- Correct SRVUSD Website URLs Here --- 
-                    let website = schoolDetails.Website as string;
-                    if (website && website !== 'No Data') {
-                        website = website.trim();
-                        const lowerWebsite = website.toLowerCase();
-                        if (lowerWebsite.includes('srvusd.net') && lowerWebsite.startsWith('www.')) {
-                            // Attempt to remove www. prefix carefully
-                            const noPrefix = website.substring(4);
-                            console.log(`[DataGen] Correcting SRVUSD URL: ${website} -> ${noPrefix}`);
-                            website = noPrefix; // Update the website variable
-                        }
-                        schoolDetails.Website = website; // Store potentially corrected URL
-                    }
-                    // --- End URL Correction --- 
-
-                    tempSchools.push(schoolDetails);
-                    // schoolCount++; // Count later
-                }
-            }
-        });
+    const geocodeReport = new GeocodeReportBuilder(
+        geocoderProvider ? geocoderProvider.name : 'offline',
+        INCREMENTAL ? GeocodeReportBuilder.loadPreviousEntries(GEOCODE_REPORT_PATH) : undefined
+    );
 
-        parser.on('error', (err) => {
-            console.error("Error parsing CSV:", err.message);
-            reject(err);
-        });
+    const cityCentroids = buildCityCentroids([...tempDistricts, ...tempSchools].map(record => ({
+        city: record['Street City'], state: record['Street State'], lat: record.Latitude, lon: record.Longitude,
+    })));
 
-        parser.on('end', () => {
-            console.log(`Finished parsing. Total lines processed (excluding header/metadata): ${processedRecordCount}.`);
-            resolve();
-        });
-    }); // End of Promise
+    const needsGeocoding = (record: DistrictDetails | SchoolDetails) =>
+        !reusedRecords.has(record) && !hasValidCoordinates(record.Latitude, record.Longitude);
 
     // --- Geocode Districts AFTER parsing --- 
     console.log(`Parsing complete. Starting geocoding for ${tempDistricts.length} potential districts...`);
-    const geocodedDistricts: { [key: string]: DistrictRecord } = {};
+    const districtOutcomes = await geocodeRecords('Districts', tempDistricts.filter(needsGeocoding),
+        district => district['CDS Code'] || 'UNKNOWN_DISTRICT', district => district['District'] || 'Unknown District', cityCentroids);
+    const geocodedDistricts: DistrictDataMap = {};
     let districtGeocodeSuccessCount = 0;
     let districtGeocodeFallbackSuccessCount = 0;
 
     for (const district of tempDistricts) {
         const cdsCode = district['CDS Code'] || 'UNKNOWN_DISTRICT';
         const districtName = district['District'] || 'Unknown District';
+        const reportIdentity = { kind: 'district' as const, cdsCode, name: districtName, county: district['County'] || 'Unknown' };
 
-        if (!hasValidCoordinates(district.Latitude, district.Longitude)) {
-            // Call the refactored geocoding function for districts
-            const geocodeResult = await geocodeRecordWithFallbacks(
-                district,
-                cdsCode,
-                districtName,
-                'Street Address',
-                'Street City',
-                'Street State'
-            );
+        if (reusedRecords.has(district)) {
+            geocodeReport.addReused(reportIdentity);
+        } else if (districtOutcomes.has(district)) {
+            const geocodeResult = districtOutcomes.get(district)!;
+            geocodeReport.addOutcome(reportIdentity, geocodeResult);
             if (geocodeResult.success) {
                 districtGeocodeSuccessCount++;
                 if (geocodeResult.isFallback) {
                     districtGeocodeFallbackSuccessCount++;
                 }
             }
+        } else {
+            district.geocodePrecision = 'source';
+            district.geocodeConfidence = null;
+            geocodeReport.addSource(reportIdentity);
         }
 
         // Always add district (potentially geocoded or not) to the final map
         geocodedDistricts[cdsCode] = district;
     }
     console.log(`District geocoding finished. Successes: ${districtGeocodeSuccessCount} (incl. ${districtGeocodeFallbackSuccessCount} fallback).`);
+    geocodeCache.save();
 
     // --- Geocode Schools AFTER districts --- 
     console.log(`Starting geocoding for ${tempSchools.length} potential schools...`);
+    const schoolOutcomes = await geocodeRecords('Schools', tempSchools.filter(needsGeocoding),
+        school => school['CDS Code'] || school['School'] || 'Unknown School', school => school['School'] || 'Unknown School', cityCentroids);
     let schoolGeocodeSuccessCount = 0;
     let schoolGeocodeFallbackSuccessCount = 0;
 
@@ -545,72 +372,77 @@ async function generateJsonData() {
         const schoolName = school['School'] || 'Unknown School';
         // Use School Name for logging if CDS code is missing/not unique for schools
         const idForLog = school['CDS Code'] || schoolName;
+        const reportIdentity = { kind: 'school' as const, cdsCode: idForLog, name: schoolName, county: schoolCounties.get(idForLog) || 'Unknown' };
 
-        if (!hasValidCoordinates(school.Latitude, school.Longitude)) {
-            // Call the refactored geocoding function for schools
-            const geocodeResult = await geocodeRecordWithFallbacks(
-                school,
-                idForLog,
-                schoolName,
-                'Street Address', // Assuming same field names as districts
-                'Street City',
-                'Street State'
-            );
+        if (reusedRecords.has(school)) {
+            geocodeReport.addReused(reportIdentity);
+        } else if (schoolOutcomes.has(school)) {
+            const geocodeResult = schoolOutcomes.get(school)!;
+            geocodeReport.addOutcome(reportIdentity, geocodeResult);
             if (geocodeResult.success) {
                 schoolGeocodeSuccessCount++;
                 if (geocodeResult.isFallback) {
                     schoolGeocodeFallbackSuccessCount++;
                 }
             }
+        } else {
+            school.geocodePrecision = 'source';
+            school.geocodeConfidence = null;
+            geocodeReport.addSource(reportIdentity);
         }
     }
     console.log(`School geocoding finished. Successes: ${schoolGeocodeSuccessCount} (incl. ${schoolGeocodeFallbackSuccessCount} fallback).`);
+    if (geocoderProvider) {
+        const { requests, retries, timeouts } = geocoderProvider.stats;
+        console.log(`Geocoder requests: ${requests} (${retries} retries, ${timeouts} timeouts).`);
+    }
+    geocodeCache.save();
+
+    // --- Offline replay must not silently produce different data ---
+    if (OFFLINE_REPLAY && geocodeCache.misses.length > 0) {
+        console.error(`Offline replay failed: ${geocodeCache.misses.length} geocode queries are missing from ${GEOCODE_CACHE_PATH}:`);
+        geocodeCache.misses.forEach(key => console.error(` - ${key}`));
+        console.error('Run `pnpm run build:data` with a geocoder available to refresh the cache.');
+        process.exit(1);
+    }
 
     // --- Process Schools AFTER geocoding both districts and schools --- 
     const districtCount = Object.keys(geocodedDistricts).length;
-    const schoolsByDistrictData: { [key: string]: any[] } = {};
-    let schoolCount = 0;
+    const { schoolsByDistrict: schoolsByDistrictData, unlistedCharters, dropped } = groupSchoolsByDistrict(geocodedDistricts, tempSchools);
+    for (const school of dropped) {
+        console.warn(`[SchoolLink] District of school ${school.School} (CDS: ${school['CDS Code']}) not found in geocodedDistricts; school skipped.`);
+    }
+    // Charters whose authorizer has no record are published under an explicit entity instead
+    if (unlistedCharters > 0) {
+        geocodedDistricts[UNLISTED_AUTHORIZER_CDS_CODE] = unlistedAuthorizer(generateSlug(UNLISTED_AUTHORIZER_NAME, UNLISTED_AUTHORIZER_CDS_CODE));
+        console.warn(`[SchoolLink] ${unlistedCharters} charters have no authorizer record; listed under "${UNLISTED_AUTHORIZER_NAME}".`);
+    }
+    const schoolCount = Object.values(schoolsByDistrictData).reduce((sum, schools) => sum + schools.length, 0);
+    console.log(`Processed ${schoolCount} schools linked to valid districts.`);
 
-    // --- Add Debugging Logs --- 
-    console.log(`[SchoolLink Debug] Starting school linking. tempSchools size: ${tempSchools.length}`);
-    console.log(`[SchoolLink Debug] geocodedDistricts size: ${Object.keys(geocodedDistricts).length}`);
-    let schoolsChecked = 0;
-    // --- End Debugging Logs --- 
+    // Charters are grouped under their authorizer, which is not necessarily where they are located
+    const authorizerCounts = assignCharterAuthorizers(geocodedDistricts, schoolsByDistrictData);
+    console.log(`[Charters] Authorized by districts: ${authorizerCounts.district}, county offices: ${authorizerCounts.county}, state board: ${authorizerCounts.state}, unlisted: ${authorizerCounts.unlisted}.`);
 
-    for (const school of tempSchools) {
-        const cdsCode = school['CDS Code'];
-        if (!cdsCode) {
-            console.warn("[SchoolLink] Skipping school due to missing CDS Code:", school);
-            continue;
-        }
-        const districtCdsPrefix = cdsCode.substring(0, 7);
-        // Construct the full 14-digit district CDS code key used in geocodedDistricts
-        const districtCdsKey = `${districtCdsPrefix}0000000`;
-
-        // --- Add Debugging Logs --- 
-        if (schoolsChecked < 5) { // Log details for the first 5 schools checked
-            // Update log to show the key being used for lookup
-            console.log(`[SchoolLink Debug #${schoolsChecked + 1}] School CDS: ${cdsCode}, District Key: ${districtCdsKey}, District Exists: ${!!geocodedDistricts[districtCdsKey]}`);
-        }
-        schoolsChecked++;
-        // --- End Debugging Logs --- 
-
-        // Use the constructed districtCdsKey for lookup
-        if (districtCdsPrefix.length === 7 && geocodedDistricts[districtCdsKey]) { // Check if district exists using the full key
-            if (!schoolsByDistrictData[districtCdsKey]) { schoolsByDistrictData[districtCdsKey] = []; } // Use the full key for grouping too
-            schoolsByDistrictData[districtCdsKey].push(school);
-            schoolCount++;
-        } else {
-            // Don't warn if district just doesn't exist, but warn if format wrong
-            if (districtCdsPrefix.length !== 7) {
-                console.warn(`[SchoolLink] Skipping school ${school.School} (CDS: ${cdsCode}) due to invalid district CDS code prefix format.`);
-            } else if (!geocodedDistricts[districtCdsKey]) {
-                // Log only if the district was expected but not found
-                console.warn(`[SchoolLink] District key ${districtCdsKey} not found in geocodedDistricts for school ${school.School} (CDS: ${cdsCode}).`);
-            }
-        }
+    // --- History dataset: closed and merged districts and schools --- 
+    const { history, droppedSchools } = buildHistoryDataset(archivedRecords, Object.values(geocodedDistricts), districtOpenDates, {
+        districtColumns: DISTRICT_OUTPUT_COLUMNS,
+        schoolColumns: SCHOOL_OUTPUT_COLUMNS,
+        generateSlug,
+    });
+    const archivedDistricts = Object.values(history.districts);
+    const archivedSchoolCount = Object.values(history.schoolsByDistrict).reduce((sum, schools) => sum + schools.length, 0);
+    console.log(`[History] Archived ${archivedDistricts.length} districts (${archivedDistricts.filter(d => d.successorCdsCode).length} with an inferred successor) and ${archivedSchoolCount} schools.`);
+    if (droppedSchools > 0) {
+        console.warn(`[History] Dropped ${droppedSchools} closed schools whose district is not in the source data.`);
+    }
+
+    // --- Slug registry: keep the old slug of renamed districts --- 
+    const slugUpdate = updateSlugRegistry(loadSlugRegistry(SLUG_REGISTRY_PATH), [...Object.values(geocodedDistricts), ...archivedDistricts]);
+    console.log(`[SlugRegistry] ${slugUpdate.added} new districts, ${slugUpdate.changes.length} slug changes.`);
+    for (const change of slugUpdate.changes) {
+        console.log(`[SlugRegistry] ${change.cdsCode}: ${change.from} -> ${change.to} (old URL will redirect)`);
     }
-    console.log(`Processed ${schoolCount} schools linked to valid districts.`);
 
     // --- Writing files AFTER geocoding and school processing --- 
     console.log('Data processing complete. Preparing to write output files...');
@@ -643,9 +475,21 @@ async function generateJsonData() {
     // Generate the structured parameters for the new file
     const prerenderParams = slugs.map(slug => ({ districtSlug: slug }));
 
+    // Compact index of the active districts for the home page search (validated with the districts below)
+    const searchIndex = buildSearchIndex(geocodedDistricts);
+
+    // Refuse to write assets the site would reject at load time
+    const violations = validateDataAssets({ districts: geocodedDistricts, schoolsByDistrict: schoolsByDistrictData, prerenderParams, history, slugRegistry: slugUpdate.registry, searchIndex });
+    if (violations.length > 0) {
+        console.error(formatViolationReport('Generated data', violations));
+        process.exit(1);
+    }
+    console.log('[DataGen] Generated data passed schema validation.');
+
     const districtsOutputPath = path.join(OUTPUT_DIR, 'districts.json');
     const schoolsOutputPath = path.join(OUTPUT_DIR, 'schools_by_district.json');
     const paramsOutputPath = path.join(OUTPUT_DIR, 'prerender-params.json'); // Path for the new params file
+    const searchIndexOutputPath = path.join(OUTPUT_DIR, 'search-index.json');
 
     try {
         await fsPromises.writeFile(districtsOutputPath, JSON.stringify(geocodedDistricts, null, 2));
@@ -654,6 +498,14 @@ async function generateJsonData() {
         console.log(`Successfully wrote school data to: ${schoolsOutputPath}`);
         await fsPromises.writeFile(paramsOutputPath, JSON.stringify(prerenderParams, null, 2));
         console.log(`Successfully wrote prerender parameter list to: ${paramsOutputPath}`);
+        await fsPromises.writeFile(searchIndexOutputPath, JSON.stringify(searchIndex));
+        console.log(`Successfully wrote search index (${searchIndex.districts.length} districts) to: ${searchIndexOutputPath}`);
+        await fsPromises.writeFile(OUTPUT_HISTORY_JSON_PATH, JSON.stringify(history, null, 2));
+        console.log(`Successfully wrote history data to: ${OUTPUT_HISTORY_JSON_PATH}`);
+        await fsPromises.writeFile(SLUG_REGISTRY_PATH, JSON.stringify(slugUpdate.registry, null, 2));
+        console.log(`Successfully wrote slug registry to: ${SLUG_REGISTRY_PATH}`);
+        const report = geocodeReport.write(GEOCODE_REPORT_PATH);
+        console.log(`Successfully wrote geocoding report (${report.summary.total} records) to: ${GEOCODE_REPORT_PATH}`);
     } catch (error) {
         console.error("Error writing output files:", error);
         process.exit(1);
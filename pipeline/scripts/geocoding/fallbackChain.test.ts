@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildFallbackAttempts, geocodeWithFallbacks, selectBestMatch } from './fallbackChain';
+import { FixtureProvider, createGeocoderProvider, photonFeatureToResult } from './providers';
+import { GeocodeCache } from './geocodeCache';
+import { DEFAULT_MATCH_SCORING } from './matchScoring';
+
+const HAYWARD = { lat: '37.6688', lon: '-122.0808', display_name: 'Hayward, Alameda County, California' };
+const WINTON = { lat: '37.6532', lon: '-122.1190', display_name: '313 West Winton Avenue, Hayward, California' };
+
+describe('fallbackChain', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('selectBestMatch', () => {
+        const context = (street: string | null, city: string | null, zip: string | null = null) => ({ street, city, zip, expectedLocation: null });
+
+        it('should prefer a road with a matching name over a broad place', () => {
+            const results = [
+                { lat: '1', lon: '1', display_name: 'Hayward, California', class: 'place', type: 'city' },
+                { lat: '2', lon: '2', display_name: 'Main Street, Hayward', name: 'Main Street', class: 'highway', type: 'residential' },
+            ];
+            expect(selectBestMatch(results, context('Main Street', 'Hayward'))).toEqual({ result: results[1], confidence: 1 });
+        });
+
+        it('should match street names written with and without abbreviations', () => {
+            const results = [
+                { lat: '1', lon: '1', display_name: 'Winton Avenue, San Lorenzo', name: 'Winton Avenue', class: 'highway', type: 'residential' },
+                { lat: '2', lon: '2', display_name: 'West Winton Avenue, Hayward', name: 'West Winton Avenue', class: 'highway', type: 'primary' },
+            ];
+            expect(selectBestMatch(results, context('W Winton Ave', 'Hayward'))?.result).toBe(results[1]);
+        });
+
+        it('should use the ZIP Code and the distance from the city to tell same-named streets apart', () => {
+            const results = [
+                { lat: '38.5816', lon: '-121.4944', display_name: 'Main Street, Sacramento County, California, 95814', name: 'Main Street', class: 'highway', type: 'residential' },
+                { lat: '37.6700', lon: '-122.0800', display_name: 'Main Street, Alameda County, California, 94541', name: 'Main Street', class: 'highway', type: 'residential' },
+            ];
+            const selected = selectBestMatch(results, { street: 'Main St', city: null, zip: '94541-1234', expectedLocation: { lat: 37.6688, lon: -122.0808 } });
+            expect(selected?.result).toBe(results[1]);
+            expect(selected?.confidence).toBe(1);
+        });
+
+        it('should take a single candidate whatever its confidence', () => {
+            const results = [{ lat: '1', lon: '1', display_name: 'Hayward, California', class: 'place', type: 'city' }];
+            expect(selectBestMatch(results, context(null, null))).toEqual({ result: results[0], confidence: 0 });
+        });
+
+        it('should reject candidates that are all poor matches', () => {
+            const results = [
+                { lat: '1', lon: '1', display_name: 'Somewhere', class: 'boundary', type: 'administrative' },
+                { lat: '2', lon: '2', display_name: 'Elsewhere', class: 'place', type: 'city' },
+            ];
+            expect(selectBestMatch(results, context('Main Street', 'Hayward'))).toBeNull();
+            expect(selectBestMatch(results, context('Main Street', 'Hayward'), { ...DEFAULT_MATCH_SCORING, minConfidence: 0 })).not.toBeNull();
+        });
+    });
+
+    describe('buildFallbackAttempts', () => {
+        it('should build all four rungs in order', () => {
+            const attempts = buildFallbackAttempts({ street: '100 First Street', city: 'Hayward', state: 'CA' });
+            expect(attempts.map(a => [a.level, a.query, a.limit])).toEqual([
+                [1, '100 First Street, Hayward, CA', 1],
+                [2, '100 1st St, Hayward, CA', 1],
+                [3, '1st St, Hayward, CA', 5],
+                [4, 'Hayward, CA', 1],
+            ]);
+        });
+
+        it('should drop rungs that repeat an earlier query', () => {
+            const attempts = buildFallbackAttempts({ street: 'No Data', city: 'Hayward', state: 'CA' });
+            expect(attempts.map(a => a.level)).toEqual([1]);
+            expect(attempts[0].query).toBe('Hayward, CA');
+        });
+
+        it('should standardize the street and leave out unit numbers', () => {
+            const attempts = buildFallbackAttempts({ street: '313 west winton avenue, suite 200', city: 'Hayward', state: 'CA' });
+            expect(attempts.map(a => a.query)).toEqual([
+                '313 west winton avenue, suite 200, Hayward, CA',
+                '313 W winton Ave, Hayward, CA',
+                'W winton Ave, Hayward, CA',
+                'Hayward, CA',
+            ]);
+            expect(attempts[2].targetStreet).toBe('W winton Ave');
+        });
+
+        it('should only place a PO Box at its city', () => {
+            const attempts = buildFallbackAttempts({ street: 'P.O. Box 1200', city: 'Hayward', state: 'CA' });
+            expect(attempts.map(a => [a.level, a.query])).toEqual([[4, 'Hayward, CA']]);
+            expect(buildFallbackAttempts({ street: 'PO Box 1200', city: 'Reno', state: 'NV' })).toEqual([]);
+        });
+
+        it('should skip the city+state rung outside California', () => {
+            const attempts = buildFallbackAttempts({ street: '1 Main St', city: 'Reno', state: 'NV' });
+            expect(attempts.map(a => a.level)).toEqual([1, 3]);
+        });
+
+        it('should use the postal code of the state profile being built', () => {
+            const attempts = buildFallbackAttempts({ street: '1 Main St', city: 'Reno', state: 'NV' }, 'NV');
+            expect(attempts.map(a => a.query)).toEqual(['1 Main St, Reno, NV', 'Main St, Reno, NV', 'Reno, NV']);
+        });
+    });
+
+    describe('geocodeWithFallbacks', () => {
+        it('should succeed on the raw address without falling back', async () => {
+            const provider = new FixtureProvider({ '313 West Winton Ave., Hayward, CA': [WINTON] });
+            const outcome = await geocodeWithFallbacks({ street: '313 West Winton Ave.', city: 'Hayward', state: 'CA' }, { provider });
+            expect(outcome).toMatchObject({ success: true, isFallback: false, level: 1, lat: 37.6532, lon: -122.119 });
+            expect(provider.calls).toHaveLength(1);
+        });
+
+        it('should fall through failing and erroring rungs to city+state', async () => {
+            const provider = new FixtureProvider({
+                '100 First Street, Hayward, CA': new Error('Status 503'),
+                'Hayward, CA': [HAYWARD],
+            });
+            const outcome = await geocodeWithFallbacks({ street: '100 First Street', city: 'Hayward', state: 'CA' }, { provider });
+            // A city match is never reported as more than the city+state ceiling
+            expect(outcome).toMatchObject({ success: true, isFallback: true, level: 4, query: 'Hayward, CA', confidence: 0.3 });
+            expect(provider.calls.map(c => c.query)).toEqual([
+                '100 First Street, Hayward, CA',
+                '100 1st St, Hayward, CA',
+                '1st St, Hayward, CA',
+                'Hayward, CA',
+            ]);
+        });
+
+        it('should report failure when no rung produces coordinates', async () => {
+            const provider = new FixtureProvider();
+            const outcome = await geocodeWithFallbacks({ street: '1 Nowhere Rd', city: 'Nowhere', state: 'CA' }, { provider });
+            expect(outcome).toEqual({ success: false, isFallback: false, level: 0, lat: null, lon: null, query: null, match: null, confidence: null });
+        });
+
+        describe('with a cache', () => {
+            let tmpDir: string;
+
+            beforeEach(() => {
+                tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fallback-chain-'));
+            });
+
+            afterEach(() => {
+                fs.rmSync(tmpDir, { recursive: true, force: true });
+            });
+
+            it('should replay cached answers without a provider and record misses', async () => {
+                const cache = GeocodeCache.load(path.join(tmpDir, 'cache.json'));
+                const provider = new FixtureProvider({ 'Hayward, CA': [HAYWARD] });
+                const address = { street: '1 Nowhere Rd', city: 'Hayward', state: 'CA' };
+
+                const online = await geocodeWithFallbacks(address, { provider, cache });
+                const offline = await geocodeWithFallbacks(address, { provider: null, cache });
+                expect(offline).toEqual(online);
+                expect(cache.misses).toEqual([]);
+
+                const missing = await geocodeWithFallbacks({ street: '2 Other Rd', city: 'Fremont', state: 'CA' }, { provider: null, cache });
+                expect(missing.success).toBe(false);
+                expect(cache.misses).toContain('1|2 other rd, fremont, ca');
+            });
+        });
+    });
+});
+
+describe('providers', () => {
+    it('should map Photon features to the Nominatim result shape', () => {
+        expect(photonFeatureToResult({
+            geometry: { type: 'Point', coordinates: [-122.119, 37.6532] },
+            properties: { housenumber: '313', street: 'West Winton Avenue', city: 'Hayward', state: 'California', osm_key: 'building', osm_value: 'yes' },
+        })).toEqual({
+            lat: '37.6532',
+            lon: '-122.119',
+            display_name: '313 West Winton Avenue, Hayward, California',
+            name: 'West Winton Avenue',
+            class: 'building',
+            type: 'yes',
+        });
+        expect(photonFeatureToResult({ properties: {} })).toBeNull();
+    });
+
+    it('should select the provider from configuration', () => {
+        expect(createGeocoderProvider({}).name).toBe('nominatim');
+        expect(createGeocoderProvider({ GEOCODER_PROVIDER: 'photon' }).name).toBe('photon');
+        expect(createGeocoderProvider({ GEOCODER_PROVIDER: 'fixture' }).name).toBe('fixture');
+        expect(() => createGeocoderProvider({ GEOCODER_PROVIDER: 'bogus' })).toThrow(/Unknown GEOCODER_PROVIDER/);
+    });
+});
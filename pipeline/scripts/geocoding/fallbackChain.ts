@@ -0,0 +1,198 @@
+import { GeocodeCache, GeocodeCacheMissError, NominatimResult } from './geocodeCache.js';
+import type { GeocoderProvider } from './providers.js';
+import { CALIFORNIA } from '../../../src/scripts/stateProfile.js';
+import { parseStreetAddress, standardizeStreetAddress } from '../../../src/scripts/addressStandardizer.js';
+import { DEFAULT_MATCH_SCORING, LatLon, levelConfidence, MatchContext, MatchScoringConfig, scoreCandidate } from './matchScoring.js';
+
+// Selected result plus its match confidence (0-1, see matchScoring.ts)
+export interface ScoredMatch {
+    result: NominatimResult;
+    confidence: number;
+}
+
+/**
+ * Picks the candidate with the highest confidence. A lone candidate is always taken (the query
+ * asked for one); among several, the best must reach `minConfidence`.
+ */
+export function selectBestMatch(
+    results: NominatimResult[],
+    context: MatchContext,
+    config: MatchScoringConfig = DEFAULT_MATCH_SCORING
+): ScoredMatch | null {
+    if (!results || results.length === 0) return null;
+
+    let best: ScoredMatch | null = null;
+    for (const result of results) {
+        const { confidence } = scoreCandidate(result, context, config);
+        if (best === null || confidence > best.confidence) best = { result, confidence };
+    }
+    return results.length > 1 && best && best.confidence < config.minConfidence ? null : best;
+}
+
+export interface AddressInput {
+    street: unknown;
+    city: unknown;
+    state: unknown;
+    zip?: unknown;
+    // Centroid of the record's city, for the proximity signal
+    expectedLocation?: LatLon | null;
+}
+
+// One rung of the fallback ladder: raw → normalized → street+city → city+state
+export interface FallbackAttempt {
+    level: number;
+    label: string;
+    query: string;
+    limit: number;
+    targetStreet: string | null;
+    targetCity: string | null;
+}
+
+export interface GeocodeOutcome {
+    success: boolean;
+    isFallback: boolean;
+    level: number;
+    lat: number | null;
+    lon: number | null;
+    query: string | null;
+    match: NominatimResult | null;
+    // Match confidence capped by the level's ceiling; null when nothing was found
+    confidence: number | null;
+}
+
+export interface FallbackChainOptions {
+    // null means offline replay: answers come only from the cache
+    provider: GeocoderProvider | null;
+    cache?: GeocodeCache;
+    logPrefix?: string;
+    nameForLog?: string;
+    // Postal code of the state profile being built (default CA)
+    stateCode?: string;
+    scoring?: MatchScoringConfig;
+    // Log every attempt (default true); batch runs report progress instead
+    verbose?: boolean;
+}
+
+const isPresent = (part: unknown): part is string => typeof part === 'string' && part.trim() !== '' && part !== 'No Data';
+
+// Append the postal code (", CA") when the state column names the profile's state but the query does not end with it yet
+function withStateSuffix(address: string, state: unknown, stateCode: string): string {
+    if (state === stateCode && !address.trim().toUpperCase().endsWith(`, ${stateCode.toUpperCase()}`)) {
+        return `${address}, ${stateCode}`;
+    }
+    return address;
+}
+
+/**
+ * Builds the ordered list of queries to try for an address. Queries identical to an
+ * earlier rung are dropped so a failed query is never sent twice.
+ */
+export function buildFallbackAttempts(address: AddressInput, stateCode: string = CALIFORNIA.postalCode): FallbackAttempt[] {
+    const { street: rawStreet, city: rawCity, state: rawState } = address;
+    const attempts: FallbackAttempt[] = [];
+
+    const street = typeof rawStreet === 'string' ? rawStreet : null;
+    const normalizedCity = typeof rawCity === 'string' ? rawCity.trim() : null;
+    const normalizedState = typeof rawState === 'string' ? rawState.trim() : null;
+
+    // A PO Box has no location of its own: only the city can be placed
+    if (parseStreetAddress(street, stateCode)?.poBox) {
+        return isPresent(normalizedCity) && normalizedState === stateCode
+            ? [{ level: 4, label: 'City+State', query: `${normalizedCity}, ${normalizedState}`, limit: 1, targetStreet: null, targetCity: normalizedCity }]
+            : [];
+    }
+
+    // USPS standard form; unit numbers ("Suite 200") only confuse the geocoder
+    const normalizedStreet = standardizeStreetAddress(street, { stateCode, includeSecondary: false });
+    const streetNameOnly = standardizeStreetAddress(street, { stateCode, includeSecondary: false, includeNumber: false });
+    // Every rung's candidates are scored against the street and city it should land on
+    const targetCity = isPresent(normalizedCity) ? normalizedCity : null;
+
+    // Attempt 1: Raw Address
+    const rawParts = [rawStreet, rawCity, rawState].filter(isPresent);
+    if (rawParts.length >= 2) {
+        attempts.push({ level: 1, label: 'Raw', query: withStateSuffix(rawParts.join(', '), rawState, stateCode), limit: 1, targetStreet: streetNameOnly, targetCity });
+    }
+
+    // Attempt 2: Normalized Address
+    const normalizedParts = [normalizedStreet, normalizedCity, normalizedState].filter(isPresent);
+    if (normalizedStreet && normalizedParts.length >= 2) {
+        attempts.push({ level: 2, label: 'Normalized', query: withStateSuffix(normalizedParts.join(', '), normalizedState, stateCode), limit: 1, targetStreet: streetNameOnly, targetCity });
+    }
+
+    // Attempt 3: Normalized Street Name + City + State (several candidates, scored)
+    if (streetNameOnly && isPresent(normalizedCity)) {
+        const parts = [streetNameOnly, normalizedCity, normalizedState].filter(isPresent);
+        attempts.push({ level: 3, label: 'Street+City', query: withStateSuffix(parts.join(', '), normalizedState, stateCode), limit: 5, targetStreet: streetNameOnly, targetCity });
+    }
+
+    // Attempt 4: City + State, only within the profile's state
+    if (isPresent(normalizedCity) && normalizedState === stateCode) {
+        attempts.push({ level: 4, label: 'City+State', query: `${normalizedCity}, ${normalizedState}`, limit: 1, targetStreet: null, targetCity });
+    }
+
+    const seenQueries = new Set<string>();
+    return attempts.filter(attempt => {
+        if (seenQueries.has(attempt.query)) return false;
+        seenQueries.add(attempt.query);
+        return true;
+    });
+}
+
+// Looks up an attempt in the cache first, then asks the provider and records the answer
+async function runAttempt(attempt: FallbackAttempt, options: FallbackChainOptions): Promise<NominatimResult[]> {
+    const { provider, cache } = options;
+    const cached = cache?.get(attempt.level, attempt.query);
+    if (cached) return cached;
+
+    if (!provider) {
+        cache?.recordMiss(attempt.level, attempt.query);
+        throw new GeocodeCacheMissError(attempt.level, attempt.query);
+    }
+
+    const results = await provider.search(attempt.query, attempt.limit);
+    // Cache empty responses too, so offline replay takes the same fallback path
+    cache?.set(attempt.level, attempt.query, results);
+    return results;
+}
+
+/**
+ * Walks the fallback chain for one address and returns the first usable match.
+ * Errors from a single attempt are logged and the chain moves on to the next rung.
+ */
+export async function geocodeWithFallbacks(address: AddressInput, options: FallbackChainOptions): Promise<GeocodeOutcome> {
+    const logPrefix = options.logPrefix || '[Geocode]';
+    const nameForLog = options.nameForLog || 'record';
+    const verbose = options.verbose ?? true;
+
+    for (const attempt of buildFallbackAttempts(address, options.stateCode)) {
+        if (verbose) console.log(`${logPrefix} Attempt ${attempt.level} (${attempt.label}) for ${nameForLog}: "${attempt.query}"`);
+        try {
+            const results = await runAttempt(attempt, options);
+            const context: MatchContext = {
+                street: attempt.targetStreet,
+                city: attempt.targetCity,
+                zip: isPresent(address.zip) ? address.zip : null,
+                expectedLocation: address.expectedLocation ?? null,
+            };
+            const scored = selectBestMatch(results, context, options.scoring);
+            if (verbose && !scored && results.length > 1) console.warn(`${logPrefix} No sufficiently good match among ${results.length} results for ${nameForLog}.`);
+            const match = scored?.result;
+            if (match && match.lat && match.lon) {
+                const lat = parseFloat(match.lat);
+                const lon = parseFloat(match.lon);
+                if (!isNaN(lat) && !isNaN(lon)) {
+                    const isFallback = attempt.level > 1;
+                    const confidence = levelConfidence(scored.confidence, attempt.level, options.scoring);
+                    const logLine = `${logPrefix} Success (${attempt.label}) for ${nameForLog}: [${lat}, ${lon}] (Selected: ${match.display_name}, confidence ${confidence})`;
+                    if (verbose) { if (isFallback) { console.warn(logLine); } else { console.log(logLine); } }
+                    return { success: true, isFallback, level: attempt.level, lat, lon, query: attempt.query, match, confidence };
+                }
+            }
+        } catch (e: any) {
+            if (verbose) console.warn(`${logPrefix} Attempt ${attempt.level} (${attempt.label}) for ${nameForLog} failed: ${e.message}`);
+        }
+    }
+
+    return { success: false, isFallback: false, level: 0, lat: null, lon: null, query: null, match: null, confidence: null };
+}
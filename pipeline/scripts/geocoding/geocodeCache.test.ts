@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GeocodeCache, buildCacheKey, normalizeGeocodeQuery } from './geocodeCache';
+
+describe('geocodeCache', () => {
+    let tmpDir: string;
+    let cachePath: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geocode-cache-'));
+        cachePath = path.join(tmpDir, 'nested', 'geocode-cache.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    describe('normalizeGeocodeQuery', () => {
+        it('should lowercase and collapse whitespace and comma spacing', () => {
+            expect(normalizeGeocodeQuery('  313 West  Winton Ave. ,Hayward,  CA ')).toBe('313 west winton ave., hayward, ca');
+        });
+
+        it('should include the attempt level in the cache key', () => {
+            expect(buildCacheKey(3, 'Main St, Hayward, CA')).toBe('3|main st, hayward, ca');
+        });
+    });
+
+    describe('GeocodeCache', () => {
+        it('should start empty when no cache file exists', () => {
+            const cache = GeocodeCache.load(cachePath);
+            expect(cache.size).toBe(0);
+            expect(cache.get(1, 'anything')).toBeUndefined();
+        });
+
+        it('should persist results, including empty ones, across loads', () => {
+            const cache = GeocodeCache.load(cachePath);
+            cache.set(1, '313 West Winton Ave., Hayward, CA', [{ lat: '37.65', lon: '-122.11', display_name: 'Hayward' }]);
+            cache.set(2, 'Nowhere, CA', []);
+            cache.save();
+
+            const reloaded = GeocodeCache.load(cachePath);
+            expect(reloaded.size).toBe(2);
+            expect(reloaded.get(1, '313 west winton ave., hayward, ca')).toEqual([{ lat: '37.65', lon: '-122.11', display_name: 'Hayward' }]);
+            expect(reloaded.get(2, 'Nowhere, CA')).toEqual([]);
+            expect(reloaded.get(1, 'Nowhere, CA')).toBeUndefined();
+        });
+
+        it('should drop fields the pipeline does not use', () => {
+            const cache = GeocodeCache.load(cachePath);
+            cache.set(3, 'Main St, Hayward, CA', [
+                { lat: '1', lon: '2', display_name: 'Main St', class: 'highway', type: 'residential', importance: 0.5 } as any,
+            ]);
+            expect(cache.get(3, 'Main St, Hayward, CA')).toEqual([
+                { lat: '1', lon: '2', display_name: 'Main St', class: 'highway', type: 'residential' },
+            ]);
+        });
+
+        it('should track misses without duplicates', () => {
+            const cache = GeocodeCache.load(cachePath);
+            cache.recordMiss(1, 'Main St, Hayward, CA');
+            cache.recordMiss(1, 'main st,  hayward, ca');
+            expect(cache.misses).toEqual(['1|main st, hayward, ca']);
+        });
+
+        it('should reject cache files with an unknown version', () => {
+            fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+            fs.writeFileSync(cachePath, JSON.stringify({ version: 99, entries: {} }));
+            expect(() => GeocodeCache.load(cachePath)).toThrow(/Unsupported geocode cache version/);
+        });
+    });
+});
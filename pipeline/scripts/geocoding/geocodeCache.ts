@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- Shape of a single geocoder result (subset of the Nominatim search response) ---
+export interface NominatimResult {
+    lat: string;
+    lon: string;
+    display_name: string;
+    name?: string; // Might not always be present
+    class?: string;
+    type?: string;
+    // Add other potentially useful fields if needed
+}
+
+interface GeocodeCacheEntry {
+    results: NominatimResult[];
+    cachedAt: string;
+}
+
+interface GeocodeCacheFile {
+    version: number;
+    entries: { [key: string]: GeocodeCacheEntry };
+}
+
+const CACHE_FILE_VERSION = 1;
+
+// Thrown in offline replay mode when a query was never recorded in the cache
+export class GeocodeCacheMissError extends Error {
+    constructor(public readonly level: number, public readonly query: string) {
+        super(`No cached geocode result for attempt ${level}: "${query}"`);
+        this.name = 'GeocodeCacheMissError';
+    }
+}
+
+// --- Helper: normalize a query so trivial formatting differences share one entry ---
+export function normalizeGeocodeQuery(query: string): string {
+    return query
+        .toLowerCase()
+        .replace(/\s+/g, ' ')     // Collapse whitespace
+        .replace(/\s*,\s*/g, ', ') // Consistent comma spacing
+        .trim();
+}
+
+export function buildCacheKey(level: number, query: string): string {
+    return `${level}|${normalizeGeocodeQuery(query)}`;
+}
+
+// Keep only the fields the pipeline actually reads, so the committed file stays small
+function trimResult(result: NominatimResult): NominatimResult {
+    const trimmed: NominatimResult = {
+        lat: String(result.lat),
+        lon: String(result.lon),
+        display_name: result.display_name,
+    };
+    if (result.name) trimmed.name = result.name;
+    if (result.class) trimmed.class = result.class;
+    if (result.type) trimmed.type = result.type;
+    return trimmed;
+}
+
+/**
+ * Persistent on-disk cache of geocoder responses, keyed by attempt level and
+ * normalized query string. Empty result lists are cached too, so an offline
+ * replay follows exactly the same fallback path as the original online run.
+ */
+export class GeocodeCache {
+    private entries: Map<string, GeocodeCacheEntry>;
+    private dirty = false;
+    private readonly missedKeys = new Set<string>();
+
+    private constructor(private readonly filePath: string, entries: Map<string, GeocodeCacheEntry>) {
+        this.entries = entries;
+    }
+
+    static load(filePath: string): GeocodeCache {
+        const entries = new Map<string, GeocodeCacheEntry>();
+        if (fs.existsSync(filePath)) {
+            const parsed = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as GeocodeCacheFile;
+            if (parsed.version !== CACHE_FILE_VERSION) {
+                throw new Error(`Unsupported geocode cache version ${parsed.version} in ${filePath} (expected ${CACHE_FILE_VERSION}).`);
+            }
+            for (const [key, entry] of Object.entries(parsed.entries || {})) {
+                entries.set(key, entry);
+            }
+        }
+        return new GeocodeCache(filePath, entries);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get misses(): string[] {
+        return [...this.missedKeys];
+    }
+
+    get(level: number, query: string): NominatimResult[] | undefined {
+        return this.entries.get(buildCacheKey(level, query))?.results;
+    }
+
+    set(level: number, query: string, results: NominatimResult[]): void {
+        this.entries.set(buildCacheKey(level, query), {
+            results: results.map(trimResult),
+            cachedAt: new Date().toISOString(),
+        });
+        this.dirty = true;
+    }
+
+    recordMiss(level: number, query: string): void {
+        this.missedKeys.add(buildCacheKey(level, query));
+    }
+
+    // Writes the cache with sorted keys so committed diffs stay readable
+    save(): void {
+        if (!this.dirty) return;
+        const sortedEntries: { [key: string]: GeocodeCacheEntry } = {};
+        for (const key of [...this.entries.keys()].sort()) {
+            sortedEntries[key] = this.entries.get(key)!;
+        }
+        const output: GeocodeCacheFile = { version: CACHE_FILE_VERSION, entries: sortedEntries };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(output, null, 2) + '\n');
+        this.dirty = false;
+    }
+}
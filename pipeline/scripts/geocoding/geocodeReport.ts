@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GeocodeReport, GeocodeReportEntry } from '../../../src/scripts/types.js';
+import type { GeocodeOutcome } from './fallbackChain.js';
+
+type EntryIdentity = Pick<GeocodeReportEntry, 'kind' | 'cdsCode' | 'name' | 'county'>;
+
+const entryKey = (entry: Pick<GeocodeReportEntry, 'kind' | 'cdsCode'>) => `${entry.kind}|${entry.cdsCode}`;
+
+/**
+ * Collects one entry per district/school describing how its coordinates were obtained.
+ * Entries from the previous report are carried over for records an incremental run reuses.
+ */
+export class GeocodeReportBuilder {
+    private readonly entries: GeocodeReportEntry[] = [];
+
+    constructor(private readonly provider: string, private readonly previousEntries = new Map<string, GeocodeReportEntry>()) { }
+
+    static loadPreviousEntries(filePath: string): Map<string, GeocodeReportEntry> {
+        if (!fs.existsSync(filePath)) return new Map();
+        const report = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as GeocodeReport;
+        return new Map((report.records || []).map(entry => [entryKey(entry), entry]));
+    }
+
+    addSource(identity: EntryIdentity): void {
+        this.entries.push({ ...identity, status: 'source', level: null, query: null, displayName: null, confidence: null });
+    }
+
+    addOutcome(identity: EntryIdentity, outcome: GeocodeOutcome): void {
+        this.entries.push({
+            ...identity,
+            status: outcome.success ? 'geocoded' : 'failed',
+            level: outcome.success ? outcome.level : null,
+            query: outcome.query,
+            displayName: outcome.match?.display_name ?? null,
+            confidence: outcome.confidence,
+        });
+    }
+
+    addReused(identity: EntryIdentity): void {
+        const previous = this.previousEntries.get(entryKey(identity));
+        this.entries.push(previous
+            ? { ...previous, ...identity }
+            : { ...identity, status: 'reused', level: null, query: null, displayName: null, confidence: null });
+    }
+
+    build(): GeocodeReport {
+        const byStatus: GeocodeReport['summary']['byStatus'] = {};
+        const byLevel: GeocodeReport['summary']['byLevel'] = {};
+        for (const entry of this.entries) {
+            byStatus[entry.status] = (byStatus[entry.status] || 0) + 1;
+            if (entry.level !== null) byLevel[entry.level] = (byLevel[entry.level] || 0) + 1;
+        }
+        return {
+            generatedAt: new Date().toISOString(),
+            provider: this.provider,
+            summary: { total: this.entries.length, byStatus, byLevel },
+            records: this.entries,
+        };
+    }
+
+    write(filePath: string): GeocodeReport {
+        const report = this.build();
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
+        return report;
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildCityCentroids, candidatePostcode, cityKey, DEFAULT_MATCH_SCORING, levelConfidence, loadMatchScoringConfig, scoreCandidate } from './matchScoring';
+
+const WINTON = {
+    lat: '37.6532',
+    lon: '-122.1190',
+    display_name: '313, West Winton Avenue, Hayward, Alameda County, California, 94544, United States',
+    class: 'place',
+    type: 'house',
+};
+
+describe('matchScoring', () => {
+    describe('scoreCandidate', () => {
+        it('should score only the signals that apply', () => {
+            expect(scoreCandidate(WINTON, { street: 'W Winton Ave', city: 'Hayward', zip: null, expectedLocation: null }))
+                .toEqual({ confidence: 1, signals: { type: 1, streetName: 1, city: 1 } });
+        });
+
+        it('should lower the confidence for another ZIP Code and a distant location', () => {
+            const { confidence, signals } = scoreCandidate(WINTON, {
+                street: 'W Winton Ave',
+                city: 'Hayward',
+                zip: '95814',
+                expectedLocation: { lat: 38.5816, lon: -121.4944 }, // Sacramento, over 100 km away
+            });
+            expect(signals).toMatchObject({ zip: 0, proximity: 0 });
+            expect(confidence).toBe(0.64); // (3 + 3 + 1) / 11
+        });
+
+        it('should read the postcode from the end of the display name', () => {
+            expect(candidatePostcode(WINTON)).toBe('94544');
+            expect(candidatePostcode({ ...WINTON, display_name: '45100, Avenue 52, Coachella, California, 92236-1234' })).toBe('92236');
+            expect(candidatePostcode({ ...WINTON, display_name: 'Hayward, California' })).toBeNull();
+        });
+    });
+
+    it('should cap confidence at the ceiling of the fallback level', () => {
+        expect(levelConfidence(0.9, 1)).toBe(0.9);
+        expect(levelConfidence(0.9, 3)).toBe(0.7);
+        expect(levelConfidence(0.9, 4)).toBe(0.3);
+    });
+
+    it('should average source coordinates per city', () => {
+        const centroids = buildCityCentroids([
+            { city: 'Hayward', state: 'CA', lat: '37.6', lon: '-122.0' },
+            { city: 'hayward ', state: 'CA', lat: 37.8, lon: -122.2 },
+            { city: 'Hayward', state: 'CA', lat: 'No Data', lon: 'No Data' },
+        ]);
+        const hayward = centroids.get(cityKey('Hayward', 'CA'))!;
+        expect(hayward.lat).toBeCloseTo(37.7);
+        expect(hayward.lon).toBeCloseTo(-122.1);
+        expect(centroids.size).toBe(1);
+    });
+
+    describe('loadMatchScoringConfig', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'match-scoring-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should merge a partial config over the defaults', () => {
+            const file = path.join(dir, 'scoring.json');
+            fs.writeFileSync(file, JSON.stringify({ weights: { zip: 5 }, levelCeilings: { 4: 0.2 } }));
+            const config = loadMatchScoringConfig(file);
+            expect(config.weights).toEqual({ ...DEFAULT_MATCH_SCORING.weights, zip: 5 });
+            expect(config.levelCeilings).toEqual({ ...DEFAULT_MATCH_SCORING.levelCeilings, 4: 0.2 });
+            expect(loadMatchScoringConfig(path.join(dir, 'missing.json'))).toBe(DEFAULT_MATCH_SCORING);
+        });
+
+        it('should list every invalid setting', () => {
+            const file = path.join(dir, 'scoring.json');
+            fs.writeFileSync(file, JSON.stringify({ weights: { zip: -1, street: 2 }, roadTypes: 'road' }));
+            expect(() => loadMatchScoringConfig(file)).toThrow(/weights\.zip: expected a non-negative number\n - weights\.street: unknown setting\n - roadTypes: expected a list of strings/);
+        });
+
+        it('should keep scores and confidences between 0 and 1', () => {
+            const file = path.join(dir, 'scoring.json');
+            fs.writeFileSync(file, JSON.stringify({ weights: { zip: 5 }, proximityRadiusKm: 40, minConfidence: 5, levelCeilings: { 2: 3 }, typeScores: { road: 1.5 } }));
+            expect(() => loadMatchScoringConfig(file)).toThrow(/minConfidence: expected a number between 0 and 1\n - levelCeilings\.2: expected a number between 0 and 1\n - typeScores\.road: expected a number between 0 and 1$/);
+        });
+    });
+
+    it('should ship a config file that matches the defaults', () => {
+        expect(loadMatchScoringConfig(path.resolve(process.cwd(), 'pipeline/config/geocode-scoring.json'))).toEqual(DEFAULT_MATCH_SCORING);
+    });
+});
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import type { NominatimResult } from './geocodeCache.js';
+import { pointDistanceMeters } from '../geometry.js';
+import { streetNameKey } from '../../../src/scripts/addressStandardizer.js';
+
+/**
+ * Weights and thresholds for scoring geocoder candidates, read from pipeline/config/geocode-scoring.json.
+ * Every candidate gets signals between 0 and 1; its confidence is their weighted mean over the
+ * signals that apply (a ZIP Code signal needs a postcode in the candidate, proximity a city centroid).
+ */
+export interface MatchScoringConfig {
+    weights: {
+        type: number; // Road or address point rather than a boundary or city
+        streetName: number;
+        city: number; // City named in the candidate's display name
+        zip: number; // Candidate's postcode equals the record's ZIP Code
+        proximity: number; // Distance from the centroid of the record's city
+    };
+    // Type signal by kind of candidate
+    typeScores: { road: number; addressPoint: number; broadPlace: number; other: number };
+    roadTypes: string[]; // OSM `highway` types counted as roads
+    partialStreetNameScore: number; // Candidate name contains the street name without matching it
+    proximityRadiusKm: number; // Proximity falls linearly from 1 at the centroid to 0 at this distance
+    minConfidence: number; // When choosing among several candidates, the best must reach this
+    // Highest confidence each fallback level can report: a city+state match is never precise
+    levelCeilings: { [level: string]: number };
+}
+
+export const DEFAULT_MATCH_SCORING: MatchScoringConfig = {
+    weights: { type: 3, streetName: 3, city: 1, zip: 2, proximity: 2 },
+    typeScores: { road: 1, addressPoint: 1, broadPlace: 0, other: 0.5 },
+    roadTypes: ['residential', 'primary', 'secondary', 'tertiary', 'unclassified', 'living_street', 'road'],
+    partialStreetNameScore: 0.5,
+    proximityRadiusKm: 25,
+    minConfidence: 0.5,
+    levelCeilings: { 1: 1, 2: 0.95, 3: 0.7, 4: 0.3 },
+};
+
+export interface LatLon {
+    lat: number;
+    lon: number;
+}
+
+// What a candidate is compared with; null fields are not scored
+export interface MatchContext {
+    street: string | null;
+    city: string | null;
+    zip: string | null;
+    expectedLocation: LatLon | null;
+}
+
+export interface CandidateScore {
+    confidence: number;
+    signals: { [signal in keyof MatchScoringConfig['weights']]?: number };
+}
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Settings that are scores or confidences, like the confidence they produce, between 0 and 1
+const FRACTION_SETTINGS = ['typeScores', 'partialStreetNameScore', 'minConfidence', 'levelCeilings'];
+
+// Nested objects are merged key by key, so a config file only lists what it changes
+function mergeConfig<T>(defaults: T, overrides: unknown, path: string, problems: string[]): T {
+    if (overrides === undefined) return defaults;
+    if (Array.isArray(defaults)) {
+        if (Array.isArray(overrides) && overrides.every(item => typeof item === 'string')) return overrides as T;
+        problems.push(`${path}: expected a list of strings`);
+        return defaults;
+    }
+    if (isPlainObject(defaults)) {
+        if (!isPlainObject(overrides)) {
+            problems.push(`${path}: expected an object`);
+            return defaults;
+        }
+        const defaultValues: { [key: string]: unknown } = defaults;
+        const merged: { [key: string]: unknown } = { ...defaults };
+        for (const [key, value] of Object.entries(overrides)) {
+            const keyPath = path ? `${path}.${key}` : key;
+            if (key in defaultValues) {
+                merged[key] = mergeConfig(defaultValues[key], value, keyPath, problems);
+            } else if (path === 'levelCeilings') {
+                merged[key] = mergeConfig(1, value, keyPath, problems); // Any fallback level may be listed
+            } else {
+                problems.push(`${keyPath}: unknown setting`);
+            }
+        }
+        return merged as T;
+    }
+    if (typeof overrides !== 'number' || !Number.isFinite(overrides) || overrides < 0) {
+        problems.push(`${path}: expected a non-negative number`);
+        return defaults;
+    }
+    if (FRACTION_SETTINGS.includes(path.split('.')[0]) && overrides > 1) {
+        problems.push(`${path}: expected a number between 0 and 1`);
+        return defaults;
+    }
+    return overrides as T;
+}
+
+export function loadMatchScoringConfig(filePath: string): MatchScoringConfig {
+    if (!fs.existsSync(filePath)) return DEFAULT_MATCH_SCORING;
+    const problems: string[] = [];
+    const overrides = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' }));
+    const config = mergeConfig(DEFAULT_MATCH_SCORING, overrides, '', problems);
+    if (problems.length > 0) {
+        throw new Error(`Invalid geocode scoring config ${filePath}:\n - ${problems.join('\n - ')}`);
+    }
+    return config;
+}
+
+// The last "94544" or "94544-1234" part of a display name; house numbers come before the city
+export function candidatePostcode(result: NominatimResult): string | null {
+    const parts = (result.display_name || '').split(',').map(part => part.trim());
+    const postcode = parts.filter(part => /^\d{5}(?:-\d{4})?$/.test(part)).pop();
+    return postcode ? postcode.slice(0, 5) : null;
+}
+
+function typeSignal(result: NominatimResult, config: MatchScoringConfig): number {
+    if (result.class === 'highway' && result.type && config.roadTypes.includes(result.type)) return config.typeScores.road;
+    if (result.class === 'place' && (result.type === 'house' || result.type === 'building')) return config.typeScores.addressPoint;
+    if (result.class === 'building') return config.typeScores.addressPoint;
+    if (result.class === 'boundary' || result.class === 'place') return config.typeScores.broadPlace;
+    return config.typeScores.other;
+}
+
+// Address points often have no name; their street is one of the parts of the display name
+function streetNameSignal(result: NominatimResult, street: string, config: MatchScoringConfig): number {
+    const target = streetNameKey(street);
+    const names = [result.name, ...(result.display_name || '').split(',')].filter((name): name is string => !!name && name.trim() !== '');
+    if (target && names.some(name => streetNameKey(name) === target)) return 1;
+    if (result.name && result.name.toLowerCase().includes(street.toLowerCase())) return config.partialStreetNameScore;
+    return 0;
+}
+
+export function scoreCandidate(result: NominatimResult, context: MatchContext, config: MatchScoringConfig = DEFAULT_MATCH_SCORING): CandidateScore {
+    const signals: CandidateScore['signals'] = { type: typeSignal(result, config) };
+    if (context.street) signals.streetName = streetNameSignal(result, context.street, config);
+    if (context.city) signals.city = (result.display_name || '').toLowerCase().includes(context.city.toLowerCase()) ? 1 : 0;
+
+    const postcode = candidatePostcode(result);
+    const zip = context.zip?.match(/^\d{5}/)?.[0];
+    if (zip && postcode) signals.zip = postcode === zip ? 1 : 0;
+
+    const lat = parseFloat(result.lat);
+    const lon = parseFloat(result.lon);
+    if (context.expectedLocation && !isNaN(lat) && !isNaN(lon)) {
+        const distanceKm = pointDistanceMeters(lon, lat, context.expectedLocation.lon, context.expectedLocation.lat) / 1000;
+        signals.proximity = Math.max(0, 1 - distanceKm / config.proximityRadiusKm);
+    }
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [signal, value] of Object.entries(signals) as [keyof MatchScoringConfig['weights'], number][]) {
+        weighted += config.weights[signal] * value;
+        totalWeight += config.weights[signal];
+    }
+    const confidence = totalWeight === 0 ? 0 : weighted / totalWeight;
+    return { confidence: Math.round(confidence * 100) / 100, signals };
+}
+
+// Confidence reported for a match found at a fallback level
+export function levelConfidence(confidence: number, level: number, config: MatchScoringConfig = DEFAULT_MATCH_SCORING): number {
+    return Math.min(confidence, config.levelCeilings[level] ?? 1);
+}
+
+/**
+ * Mean of the source coordinates of the records in each city, keyed by `cityKey`. These are the
+ * expected locations proximity is measured from.
+ */
+export function buildCityCentroids(records: { city: unknown; state: unknown; lat: unknown; lon: unknown }[]): Map<string, LatLon> {
+    const sums = new Map<string, { lat: number; lon: number; count: number }>();
+    for (const record of records) {
+        if (typeof record.city !== 'string' || typeof record.state !== 'string') continue;
+        const lat = parseFloat(String(record.lat));
+        const lon = parseFloat(String(record.lon));
+        if (isNaN(lat) || isNaN(lon) || lat === 0 || lon === 0) continue;
+        const key = cityKey(record.city, record.state);
+        const sum = sums.get(key) || { lat: 0, lon: 0, count: 0 };
+        sums.set(key, { lat: sum.lat + lat, lon: sum.lon + lon, count: sum.count + 1 });
+    }
+    return new Map(Array.from(sums, ([key, sum]) => [key, { lat: sum.lat / sum.count, lon: sum.lon / sum.count }]));
+}
+
+export const cityKey = (city: string, state: string) => `${city.trim().toUpperCase()}|${state.trim().toUpperCase()}`;
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NominatimResult, normalizeGeocodeQuery } from './geocodeCache.js';
+
+/**
+ * A geocoding engine. Implementations translate their native response into the
+ * Nominatim-like result shape the fallback chain and match scoring work with.
+ */
+export interface GeocoderProvider {
+    readonly name: string;
+    // `signal` aborts the request when its attempt times out (see requestQueue.ts)
+    search(query: string, limit: number, signal?: AbortSignal): Promise<NominatimResult[]>;
+}
+
+export type GeocoderProviderType = 'nominatim' | 'photon' | 'static' | 'fixture';
+
+const DEFAULT_NOMINATIM_API_URL = 'http://localhost:8080/search'; // URL for local Nominatim instance
+const DEFAULT_PHOTON_API_URL = 'http://localhost:2322/api'; // URL for local Photon instance
+const DEFAULT_STATIC_GEOCODES_PATH = path.resolve(process.cwd(), 'pipeline', 'config', 'static-geocodes.json');
+
+// A response with an error status; 5xx and 429 are worth retrying
+export class GeocoderHttpError extends Error {
+    constructor(public readonly status: number) {
+        super(`Status ${status}`);
+        this.name = 'GeocoderHttpError';
+    }
+}
+
+// Requests are paced and retried by ThrottledProvider, not here
+async function fetchJson(url: string, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new GeocoderHttpError(response.status);
+    return response.json();
+}
+
+// --- Nominatim (default, self-hosted via `pnpm run docker:nominatim`) ---
+export class NominatimProvider implements GeocoderProvider {
+    readonly name = 'nominatim';
+
+    constructor(private readonly baseUrl: string = DEFAULT_NOMINATIM_API_URL) { }
+
+    async search(query: string, limit: number, signal?: AbortSignal): Promise<NominatimResult[]> {
+        const results = await fetchJson(`${this.baseUrl}?q=${encodeURIComponent(query)}&format=json&limit=${limit}`, signal);
+        return Array.isArray(results) ? results : [];
+    }
+}
+
+// --- Photon (GeoJSON response) ---
+interface PhotonFeature {
+    geometry?: { type: string; coordinates: [number, number] };
+    properties?: {
+        name?: string;
+        housenumber?: string;
+        street?: string;
+        city?: string;
+        county?: string;
+        state?: string;
+        postcode?: string;
+        country?: string;
+        osm_key?: string;
+        osm_value?: string;
+    };
+}
+
+export function photonFeatureToResult(feature: PhotonFeature): NominatimResult | null {
+    const coordinates = feature.geometry?.coordinates;
+    if (!coordinates || coordinates.length < 2) return null;
+    const props = feature.properties || {};
+    const streetLine = [props.housenumber, props.street].filter(Boolean).join(' ');
+    const displayName = [props.name, streetLine, props.city, props.county, props.state, props.postcode, props.country]
+        .filter(Boolean)
+        .join(', ');
+    return {
+        lat: String(coordinates[1]),
+        lon: String(coordinates[0]),
+        display_name: displayName,
+        name: props.name ?? props.street,
+        class: props.osm_key,
+        type: props.osm_value,
+    };
+}
+
+export class PhotonProvider implements GeocoderProvider {
+    readonly name = 'photon';
+
+    constructor(private readonly baseUrl: string = DEFAULT_PHOTON_API_URL) { }
+
+    async search(query: string, limit: number, signal?: AbortSignal): Promise<NominatimResult[]> {
+        const body = await fetchJson(`${this.baseUrl}?q=${encodeURIComponent(query)}&limit=${limit}`, signal);
+        const features: PhotonFeature[] = Array.isArray(body?.features) ? body.features : [];
+        return features
+            .map(photonFeatureToResult)
+            .filter((result): result is NominatimResult => result !== null);
+    }
+}
+
+// --- Static file: hand-curated coordinates keyed by normalized query ---
+// File format: { "<normalized query>": [{ "lat": "..", "lon": "..", "display_name": ".." }] }
+export class StaticFileProvider implements GeocoderProvider {
+    readonly name = 'static';
+    private readonly entries: Map<string, NominatimResult[]>;
+
+    constructor(filePath: string = DEFAULT_STATIC_GEOCODES_PATH) {
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Static geocode file not found at ${filePath}`);
+        }
+        const parsed = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as { [query: string]: NominatimResult[] };
+        this.entries = new Map(Object.entries(parsed).map(([query, results]) => [normalizeGeocodeQuery(query), results]));
+    }
+
+    async search(query: string, limit: number): Promise<NominatimResult[]> {
+        return (this.entries.get(normalizeGeocodeQuery(query)) || []).slice(0, limit);
+    }
+}
+
+// --- Fixture/stub: in-memory answers for tests and local dry runs ---
+export class FixtureProvider implements GeocoderProvider {
+    readonly name = 'fixture';
+    readonly calls: { query: string; limit: number }[] = [];
+    private readonly fixtures: Map<string, NominatimResult[] | Error>;
+
+    constructor(fixtures: { [query: string]: NominatimResult[] | Error } = {}) {
+        this.fixtures = new Map(Object.entries(fixtures).map(([query, results]) => [normalizeGeocodeQuery(query), results]));
+    }
+
+    async search(query: string, limit: number): Promise<NominatimResult[]> {
+        this.calls.push({ query, limit });
+        const fixture = this.fixtures.get(normalizeGeocodeQuery(query));
+        if (fixture instanceof Error) throw fixture;
+        return (fixture || []).slice(0, limit);
+    }
+}
+
+/**
+ * Builds the provider selected through the environment:
+ * - GEOCODER_PROVIDER: nominatim (default) | photon | static | fixture
+ * - GEOCODER_URL: base URL override for nominatim/photon
+ * - GEOCODER_FILE: JSON file for the static and fixture providers
+ */
+export function createGeocoderProvider(env: { [key: string]: string | undefined } = process.env): GeocoderProvider {
+    const type = (env.GEOCODER_PROVIDER || 'nominatim').toLowerCase() as GeocoderProviderType;
+    switch (type) {
+        case 'nominatim':
+            return new NominatimProvider(env.GEOCODER_URL || DEFAULT_NOMINATIM_API_URL);
+        case 'photon':
+            return new PhotonProvider(env.GEOCODER_URL || DEFAULT_PHOTON_API_URL);
+        case 'static':
+            return new StaticFileProvider(env.GEOCODER_FILE || DEFAULT_STATIC_GEOCODES_PATH);
+        case 'fixture': {
+            const fixtures = env.GEOCODER_FILE
+                ? JSON.parse(fs.readFileSync(env.GEOCODER_FILE, { encoding: 'utf8' }))
+                : {};
+            return new FixtureProvider(fixtures);
+        }
+        default:
+            throw new Error(`Unknown GEOCODER_PROVIDER "${env.GEOCODER_PROVIDER}". Expected one of: nominatim, photon, static, fixture.`);
+    }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { NominatimResult } from './geocodeCache';
+import { GeocoderHttpError, GeocoderProvider } from './providers';
+import {
+    DEFAULT_REQUEST_QUEUE_OPTIONS,
+    GeocoderTimeoutError,
+    ProgressReporter,
+    RateLimiter,
+    requestQueueOptionsFromEnv,
+    runWithConcurrency,
+    ThrottledProvider,
+    Timing,
+} from './requestQueue';
+
+const HAYWARD = { lat: '37.6688', lon: '-122.0808', display_name: 'Hayward, Alameda County, California' };
+
+// A clock that only moves when someone sleeps
+function fakeTiming() {
+    const timing = {
+        time: 0,
+        sleeps: [] as number[],
+        now: () => timing.time,
+        sleep: async (ms: number) => {
+            timing.sleeps.push(ms);
+            timing.time += ms;
+        },
+    };
+    return timing;
+}
+
+// Answers each call with the next scripted response
+class ScriptedProvider implements GeocoderProvider {
+    readonly name = 'scripted';
+    calls = 0;
+
+    constructor(private readonly responses: (NominatimResult[] | Error | 'hang')[]) { }
+
+    search(): Promise<NominatimResult[]> {
+        const response = this.responses[Math.min(this.calls++, this.responses.length - 1)];
+        if (response === 'hang') return new Promise(() => { });
+        return response instanceof Error ? Promise.reject(response) : Promise.resolve(response);
+    }
+}
+
+describe('requestQueue', () => {
+    const options = { ...DEFAULT_REQUEST_QUEUE_OPTIONS, requestsPerSecond: 0, retryBaseDelayMs: 100, retryMaxDelayMs: 300 };
+
+    it('should space requests to the rate limit', async () => {
+        const timing = fakeTiming();
+        const limiter = new RateLimiter(4, timing);
+        const startedAt: number[] = [];
+        for (let i = 0; i < 3; i++) {
+            await limiter.acquire();
+            startedAt.push(timing.now());
+        }
+        expect(startedAt).toEqual([0, 250, 500]);
+    });
+
+    it('should retry server errors with exponential backoff', async () => {
+        const timing = fakeTiming();
+        const provider = new ScriptedProvider([new GeocoderHttpError(503), new GeocoderHttpError(502), new GeocoderHttpError(500), [HAYWARD]]);
+        const throttled = new ThrottledProvider(provider, options, timing);
+        await expect(throttled.search('Hayward, CA', 1)).resolves.toEqual([HAYWARD]);
+        expect(timing.sleeps).toEqual([100, 200, 300]);
+        expect(throttled.stats).toEqual({ requests: 4, retries: 3, timeouts: 0 });
+    });
+
+    it('should give up after the last retry and not retry client errors', async () => {
+        const failing = new ThrottledProvider(new ScriptedProvider([new GeocoderHttpError(503)]), { ...options, maxRetries: 1 }, fakeTiming());
+        await expect(failing.search('Hayward, CA', 1)).rejects.toThrow('Status 503');
+        expect(failing.stats.requests).toBe(2);
+
+        const rejected = new ThrottledProvider(new ScriptedProvider([new GeocoderHttpError(400)]), options, fakeTiming());
+        await expect(rejected.search('Hayward, CA', 1)).rejects.toThrow('Status 400');
+        expect(rejected.stats.requests).toBe(1);
+    });
+
+    it('should time out hanging requests and retry them', async () => {
+        const throttled = new ThrottledProvider(new ScriptedProvider(['hang', [HAYWARD]]), { ...options, timeoutMs: 5 }, fakeTiming());
+        await expect(throttled.search('Hayward, CA', 1)).resolves.toEqual([HAYWARD]);
+        expect(throttled.stats).toEqual({ requests: 2, retries: 1, timeouts: 1 });
+
+        const hanging = new ThrottledProvider(new ScriptedProvider(['hang']), { ...options, timeoutMs: 5, maxRetries: 0 }, fakeTiming());
+        await expect(hanging.search('Hayward, CA', 1)).rejects.toBeInstanceOf(GeocoderTimeoutError);
+    });
+
+    it('should send identical requests in flight once', async () => {
+        const provider = new ScriptedProvider([[HAYWARD]]);
+        const throttled = new ThrottledProvider(provider, options, fakeTiming());
+        await Promise.all([throttled.search('Hayward, CA', 1), throttled.search(' hayward,  ca', 1), throttled.search('Hayward, CA', 5)]);
+        expect(provider.calls).toBe(2);
+    });
+
+    it('should run at most `concurrency` workers and keep the order of results', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const results = await runWithConcurrency([30, 10, 20, 0, 5], 2, async (ms, index) => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise(resolve => setTimeout(resolve, ms));
+            running--;
+            return index;
+        });
+        expect(results).toEqual([0, 1, 2, 3, 4]);
+        expect(maxRunning).toBe(2);
+        await expect(runWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+    });
+
+    it('should report progress periodically and when done', () => {
+        const timing: Timing & { time: number } = { time: 0, now: () => timing.time, sleep: async () => { } };
+        const lines: string[] = [];
+        const progress = new ProgressReporter('Schools', 4, 1000, line => lines.push(line), timing);
+        timing.time = 500;
+        progress.record(true);
+        timing.time = 1000;
+        progress.record(false);
+        timing.time = 1500;
+        progress.record(true);
+        timing.time = 2000;
+        progress.record(true);
+        expect(lines).toEqual([
+            '[Geocode] Schools: 2/4 (50%), 1 failed, 2.0/s, ETA 1s',
+            '[Geocode] Schools: 4/4 (100%), 1 failed, 2.0/s, done in 2s',
+        ]);
+    });
+
+    it('should read and validate the queue settings from the environment', () => {
+        expect(requestQueueOptionsFromEnv({})).toEqual(DEFAULT_REQUEST_QUEUE_OPTIONS);
+        expect(requestQueueOptionsFromEnv({ GEOCODER_CONCURRENCY: '16', GEOCODER_RPS: '0' })).toMatchObject({ concurrency: 16, requestsPerSecond: 0 });
+        expect(() => requestQueueOptionsFromEnv({ GEOCODER_CONCURRENCY: '0' })).toThrow('Invalid GEOCODER_CONCURRENCY "0"');
+        expect(() => requestQueueOptionsFromEnv({ GEOCODER_TIMEOUT_MS: 'soon' })).toThrow('Invalid GEOCODER_TIMEOUT_MS');
+    });
+});
@@ -0,0 +1,216 @@
+import { NominatimResult, normalizeGeocodeQuery } from './geocodeCache.js';
+import { GeocoderHttpError, GeocoderProvider } from './providers.js';
+
+/**
+ * How hard the geocoder is driven, set through the environment:
+ * - GEOCODER_CONCURRENCY: records geocoded at the same time (default 4)
+ * - GEOCODER_RPS: requests per second across all of them (default 20; 0 = unlimited)
+ * - GEOCODER_TIMEOUT_MS: time allowed for one request (default 10000)
+ * - GEOCODER_MAX_RETRIES: retries of a request failing with 5xx, 429 or a timeout (default 3)
+ */
+export interface RequestQueueOptions {
+    concurrency: number;
+    requestsPerSecond: number;
+    timeoutMs: number;
+    maxRetries: number;
+    retryBaseDelayMs: number; // Doubled on every retry
+    retryMaxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_QUEUE_OPTIONS: RequestQueueOptions = {
+    concurrency: 4,
+    requestsPerSecond: 20,
+    timeoutMs: 10000,
+    maxRetries: 3,
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 8000,
+};
+
+export function requestQueueOptionsFromEnv(env: { [key: string]: string | undefined } = process.env): RequestQueueOptions {
+    const read = (name: string, fallback: number, min: number): number => {
+        const raw = env[name];
+        if (raw === undefined || raw.trim() === '') return fallback;
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < min) {
+            throw new Error(`Invalid ${name} "${raw}". Expected a whole number of at least ${min}.`);
+        }
+        return value;
+    };
+    return {
+        ...DEFAULT_REQUEST_QUEUE_OPTIONS,
+        concurrency: read('GEOCODER_CONCURRENCY', DEFAULT_REQUEST_QUEUE_OPTIONS.concurrency, 1),
+        requestsPerSecond: read('GEOCODER_RPS', DEFAULT_REQUEST_QUEUE_OPTIONS.requestsPerSecond, 0),
+        timeoutMs: read('GEOCODER_TIMEOUT_MS', DEFAULT_REQUEST_QUEUE_OPTIONS.timeoutMs, 1),
+        maxRetries: read('GEOCODER_MAX_RETRIES', DEFAULT_REQUEST_QUEUE_OPTIONS.maxRetries, 0),
+    };
+}
+
+// Clock and sleep, replaced in tests
+export interface Timing {
+    now(): number;
+    sleep(ms: number): Promise<void>;
+}
+
+const REAL_TIMING: Timing = {
+    now: () => Date.now(),
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+export class GeocoderTimeoutError extends Error {
+    constructor(public readonly timeoutMs: number) {
+        super(`Timed out after ${timeoutMs} ms`);
+        this.name = 'GeocoderTimeoutError';
+    }
+}
+
+// Server errors, rate limiting, timeouts and network failures (fetch throws a TypeError) are transient
+export function isRetryableError(error: unknown): boolean {
+    if (error instanceof GeocoderHttpError) return error.status >= 500 || error.status === 429;
+    return error instanceof GeocoderTimeoutError || error instanceof TypeError;
+}
+
+export const retryDelayMs = (retry: number, options: RequestQueueOptions): number =>
+    Math.min(options.retryMaxDelayMs, options.retryBaseDelayMs * 2 ** retry);
+
+/**
+ * Spaces requests evenly: each caller gets the next free slot, 1/rps seconds after the previous
+ * one, and waits for it.
+ */
+export class RateLimiter {
+    private nextSlot = 0;
+
+    constructor(private readonly requestsPerSecond: number, private readonly timing: Timing = REAL_TIMING) { }
+
+    async acquire(): Promise<void> {
+        if (this.requestsPerSecond <= 0) return;
+        const now = this.timing.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + 1000 / this.requestsPerSecond;
+        if (slot > now) await this.timing.sleep(slot - now);
+    }
+}
+
+// Runs one request, aborting it when it takes longer than `timeoutMs`
+async function withTimeout<T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new GeocoderTimeoutError(timeoutMs));
+        }, timeoutMs);
+    });
+    try {
+        return await Promise.race([request(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Wraps a provider with the request queue: a shared rate limit, a timeout per request and
+ * exponential backoff on transient errors. Identical requests in flight at the same time are sent
+ * once. The fallback chain sees a failure only when every retry failed.
+ */
+export class ThrottledProvider implements GeocoderProvider {
+    readonly name: string;
+    readonly stats = { requests: 0, retries: 0, timeouts: 0 };
+    private readonly limiter: RateLimiter;
+    private readonly inFlight = new Map<string, Promise<NominatimResult[]>>();
+
+    constructor(
+        private readonly provider: GeocoderProvider,
+        private readonly options: RequestQueueOptions = DEFAULT_REQUEST_QUEUE_OPTIONS,
+        private readonly timing: Timing = REAL_TIMING
+    ) {
+        this.name = provider.name;
+        this.limiter = new RateLimiter(options.requestsPerSecond, timing);
+    }
+
+    search(query: string, limit: number): Promise<NominatimResult[]> {
+        const key = `${limit}|${normalizeGeocodeQuery(query)}`;
+        const pending = this.inFlight.get(key);
+        if (pending) return pending;
+        const request = this.searchWithRetries(query, limit).finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, request);
+        return request;
+    }
+
+    private async searchWithRetries(query: string, limit: number): Promise<NominatimResult[]> {
+        for (let retry = 0; ; retry++) {
+            await this.limiter.acquire();
+            this.stats.requests++;
+            try {
+                return await withTimeout(signal => this.provider.search(query, limit, signal), this.options.timeoutMs);
+            } catch (error) {
+                if (error instanceof GeocoderTimeoutError) this.stats.timeouts++;
+                if (retry >= this.options.maxRetries || !isRetryableError(error)) throw error;
+                this.stats.retries++;
+                await this.timing.sleep(retryDelayMs(retry, this.options));
+            }
+        }
+    }
+}
+
+/**
+ * Calls `worker` for every item with at most `concurrency` calls running at once. Results keep
+ * the order of the items.
+ */
+export async function runWithConcurrency<T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const runners = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+    return results;
+}
+
+const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+/**
+ * One progress line every `intervalMs` (and when done) instead of a line per record:
+ * "[Geocode] Schools: 1200/9800 (12%), 3 failed, 38.2/s, ETA 3m 45s".
+ */
+export class ProgressReporter {
+    private done = 0;
+    private failed = 0;
+    private readonly startedAt: number;
+    private lastReportAt: number;
+
+    constructor(
+        private readonly label: string,
+        private readonly total: number,
+        private readonly intervalMs = 5000,
+        private readonly log: (line: string) => void = console.log,
+        private readonly timing: Timing = REAL_TIMING
+    ) {
+        this.startedAt = timing.now();
+        this.lastReportAt = this.startedAt;
+    }
+
+    record(success: boolean): void {
+        this.done++;
+        if (!success) this.failed++;
+        const now = this.timing.now();
+        if (this.done === this.total || now - this.lastReportAt >= this.intervalMs) {
+            this.lastReportAt = now;
+            this.log(this.format(now));
+        }
+    }
+
+    format(now = this.timing.now()): string {
+        const elapsed = now - this.startedAt;
+        const percent = this.total === 0 ? 100 : Math.floor((this.done / this.total) * 100);
+        const rate = elapsed > 0 ? this.done / (elapsed / 1000) : 0;
+        const remaining = this.total - this.done;
+        const eta = remaining === 0 ? `done in ${formatDuration(elapsed)}` : rate > 0 ? `ETA ${formatDuration((remaining / rate) * 1000)}` : 'ETA unknown';
+        return `[Geocode] ${this.label}: ${this.done}/${this.total} (${percent}%), ${this.failed} failed, ${rate.toFixed(1)}/s, ${eta}`;
+    }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { MultiPolygon, Polygon } from 'geojson';
+import { distanceToBoundaryMeters, isPointInGeometry, isProjected, toWgs84 } from './geometry';
+
+// 0.1° square around Hayward with a small hole in the middle
+const SQUARE_WITH_HOLE: Polygon = {
+    type: 'Polygon',
+    coordinates: [
+        [[-122.2, 37.6], [-122.1, 37.6], [-122.1, 37.7], [-122.2, 37.7], [-122.2, 37.6]],
+        [[-122.16, 37.64], [-122.14, 37.64], [-122.14, 37.66], [-122.16, 37.66], [-122.16, 37.64]],
+    ],
+};
+
+describe('geometry', () => {
+    describe('toWgs84', () => {
+        it('should reproject Web Mercator metres to degrees', () => {
+            const mercator: MultiPolygon = {
+                type: 'MultiPolygon',
+                coordinates: [[[[-13580977.88, 4439106.79], [-13569845.97, 4439106.79], [-13569845.97, 4453131.31], [-13580977.88, 4439106.79]]]],
+            };
+            expect(isProjected(mercator)).toBe(true);
+            const [lon, lat] = (toWgs84(mercator) as MultiPolygon).coordinates[0][0][0];
+            expect(lon).toBeCloseTo(-122.0, 3);
+            expect(lat).toBeCloseTo(37.0, 3);
+        });
+
+        it('should leave geometries already in degrees untouched', () => {
+            expect(isProjected(SQUARE_WITH_HOLE)).toBe(false);
+            expect(toWgs84(SQUARE_WITH_HOLE)).toBe(SQUARE_WITH_HOLE);
+        });
+    });
+
+    describe('isPointInGeometry', () => {
+        it('should respect outer rings and holes', () => {
+            expect(isPointInGeometry(-122.18, 37.62, SQUARE_WITH_HOLE)).toBe(true);
+            expect(isPointInGeometry(-122.15, 37.65, SQUARE_WITH_HOLE)).toBe(false);
+            expect(isPointInGeometry(-122.0, 37.65, SQUARE_WITH_HOLE)).toBe(false);
+        });
+
+        it('should test every polygon of a MultiPolygon', () => {
+            const multi: MultiPolygon = { type: 'MultiPolygon', coordinates: [[[[0, 0], [1, 0], [1, 1], [0, 0]]], SQUARE_WITH_HOLE.coordinates] };
+            expect(isPointInGeometry(-122.18, 37.62, multi)).toBe(true);
+        });
+    });
+
+    describe('distanceToBoundaryMeters', () => {
+        it('should measure the distance to the nearest edge', () => {
+            // 0.01° of latitude is about 1112 m
+            expect(distanceToBoundaryMeters(-122.15, 37.71, SQUARE_WITH_HOLE)).toBeCloseTo(1112, -1);
+            // 0.01° of longitude at 37.65°N is about 880 m
+            expect(distanceToBoundaryMeters(-122.09, 37.65, SQUARE_WITH_HOLE)).toBeCloseTo(880, -1);
+        });
+    });
+});
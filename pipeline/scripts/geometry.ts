@@ -0,0 +1,112 @@
+import proj4 from 'proj4';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+
+// District boundary files are published in Web Mercator; coordinates checked against them are WGS84
+const SOURCE_PROJECTION = 'EPSG:3857';
+const TARGET_PROJECTION = 'EPSG:4326';
+proj4.defs(SOURCE_PROJECTION, '+proj=merc +a=6378137 +b=6378137 +lat_ts=0.0 +lon_0=0.0 +x_0=0.0 +y_0=0 +k=1.0 +units=m +nadgrids=@null +wktext +no_defs');
+proj4.defs(TARGET_PROJECTION, '+proj=longlat +datum=WGS84 +no_defs');
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+export type AreaGeometry = Polygon | MultiPolygon;
+
+// Polygon rings grouped per polygon: [outer, ...holes]
+export const polygonsOf = (geometry: AreaGeometry): Position[][][] =>
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+// Longitude/latitude never exceed 180; anything larger is projected metres
+export function isProjected(geometry: AreaGeometry): boolean {
+    for (const polygon of polygonsOf(geometry)) {
+        for (const ring of polygon) {
+            for (const [x, y] of ring) {
+                if (Math.abs(x) > 180 || Math.abs(y) > 90) return true;
+            }
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns a copy of the geometry in EPSG:4326. Geometries already in degrees are returned as is.
+ */
+export function toWgs84(geometry: AreaGeometry): AreaGeometry {
+    if (!isProjected(geometry)) return geometry;
+    const converter = proj4(SOURCE_PROJECTION, TARGET_PROJECTION);
+    const reprojectRing = (ring: Position[]) => ring.map(point => converter.forward([point[0], point[1]]));
+    if (geometry.type === 'Polygon') {
+        return { type: 'Polygon', coordinates: geometry.coordinates.map(reprojectRing) };
+    }
+    return { type: 'MultiPolygon', coordinates: geometry.coordinates.map(polygon => polygon.map(reprojectRing)) };
+}
+
+// Even-odd ray casting test against a single ring
+function isInRing(lon: number, lat: number, ring: Position[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+export function isPointInGeometry(lon: number, lat: number, geometry: AreaGeometry): boolean {
+    return polygonsOf(geometry).some(([outer, ...holes]) =>
+        !!outer && isInRing(lon, lat, outer) && !holes.some(hole => isInRing(lon, lat, hole)));
+}
+
+/**
+ * Distance in metres from a point to the nearest edge of the geometry. Edges are measured on a
+ * local equirectangular plane around the point, which is accurate enough at district scale.
+ */
+export function distanceToBoundaryMeters(lon: number, lat: number, geometry: AreaGeometry): number {
+    const toRadians = Math.PI / 180;
+    const cosLat = Math.cos(lat * toRadians);
+    const project = ([x, y]: Position): [number, number] => [
+        (x - lon) * toRadians * cosLat * EARTH_RADIUS_METERS,
+        (y - lat) * toRadians * EARTH_RADIUS_METERS,
+    ];
+
+    let best = Infinity;
+    for (const polygon of polygonsOf(geometry)) {
+        for (const ring of polygon) {
+            for (let i = 1; i < ring.length; i++) {
+                const [ax, ay] = project(ring[i - 1]);
+                const [bx, by] = project(ring[i]);
+                const dx = bx - ax;
+                const dy = by - ay;
+                const lengthSquared = dx * dx + dy * dy;
+                // Closest point on segment AB to the origin (the tested point)
+                const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+                best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+            }
+        }
+    }
+    return best;
+}
+
+// Great-circle (haversine) distance in metres between two WGS84 points
+export function pointDistanceMeters(lon1: number, lat1: number, lon2: number, lat2: number): number {
+    const toRadians = Math.PI / 180;
+    const dLat = (lat2 - lat1) * toRadians;
+    const dLon = (lon2 - lon1) * toRadians;
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRadians) * Math.cos(lat2 * toRadians) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// [minLon, minLat, maxLon, maxLat] of the outer rings, for cheap containment pre-checks
+export function geometryBounds(geometry: AreaGeometry): [number, number, number, number] {
+    const bounds: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const [outer] of polygonsOf(geometry)) {
+        for (const [x, y] of outer || []) {
+            bounds[0] = Math.min(bounds[0], x);
+            bounds[1] = Math.min(bounds[1], y);
+            bounds[2] = Math.max(bounds[2], x);
+            bounds[3] = Math.max(bounds[3], y);
+        }
+    }
+    return bounds;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildHistoryDataset, classifySourceRecord, inferSuccessor, isArchivedStatus, parseCdeDate } from './history';
+
+const active = (cds: string, name: string, county: string, address = '1 Main St', city = 'Town') => ({
+    'CDS Code': cds,
+    District: name,
+    County: county,
+    'Street Address': address,
+    'Street City': city,
+    slug: `${name.toLowerCase().replace(/ /g, '-')}-${cds}`,
+});
+
+const UNIFIED = active('04615310000000', 'Chico Unified', 'Butte', '1163 East Seventh St.', 'Chico');
+const OTHER = active('04614240000000', 'Paradise Unified', 'Butte', '6696 Clark Rd.', 'Paradise');
+const ELSEWHERE = active('01611920000000', 'Hayward Unified', 'Alameda');
+
+describe('history', () => {
+    it('should recognise archived statuses and CDE dates', () => {
+        expect(isArchivedStatus('Closed')).toBe(true);
+        expect(isArchivedStatus('Merged')).toBe(true);
+        expect(isArchivedStatus('Pending')).toBe(false);
+        expect(parseCdeDate('7/1/2019')).toBe(parseCdeDate('2019-07-01T00:00:00'));
+        expect(parseCdeDate('No Data')).toBeNull();
+    });
+
+    it('should archive closed records before skipping redacted addresses', () => {
+        const record = (status: string, address = '1 Main St') => ({ 'CDS Code': '04614080000000', Status: status, 'Street Address': address });
+        expect(classifySourceRecord(record('Active'))).toBe('active');
+        expect(classifySourceRecord(record('Pending'))).toBe('inactive');
+        expect(classifySourceRecord(record('Active', 'Information Redacted'))).toBe('redacted');
+        expect(classifySourceRecord(record('Closed', 'Information Redacted'))).toBe('archived');
+        expect(classifySourceRecord(record('Merged', 'Information Redacted'))).toBe('archived');
+    });
+
+    describe('inferSuccessor', () => {
+        const openDates = new Map([[UNIFIED['CDS Code'], '2019-07-01'], [OTHER['CDS Code'], '1980-07-01'], [ELSEWHERE['CDS Code'], '2019-07-01']]);
+
+        it('should pick the single same-county district that opened at the closure', () => {
+            const closed = { 'CDS Code': '04614080000000', County: 'Butte', 'Closed Date': '2019-06-30', 'Street Address': 'PO Box 1' };
+            expect(inferSuccessor(closed, [UNIFIED, OTHER, ELSEWHERE], openDates)).toEqual({
+                cdsCode: UNIFIED['CDS Code'], slug: UNIFIED.slug, name: 'Chico Unified', reason: 'opened-at-closure',
+            });
+        });
+
+        it('should fall back to a district at the same address', () => {
+            const closed = { 'CDS Code': '04614080000000', County: 'Butte', 'Closed Date': '2001-06-30', 'Street Address': '6696 Clark Rd.', 'Street City': 'Paradise' };
+            expect(inferSuccessor(closed, [UNIFIED, OTHER], openDates)?.reason).toBe('same-address');
+        });
+
+        it('should not guess when nothing or several districts match', () => {
+            const closed = { 'CDS Code': '04614080000000', County: 'Butte', 'Closed Date': '2001-06-30' };
+            expect(inferSuccessor(closed, [UNIFIED, OTHER], openDates)).toBeNull();
+            const twoOpened = new Map([[UNIFIED['CDS Code'], '2019-07-01'], [OTHER['CDS Code'], '2019-07-01']]);
+            expect(inferSuccessor({ ...closed, 'Closed Date': '2019-06-30' }, [UNIFIED, OTHER], twoOpened)).toBeNull();
+        });
+    });
+
+    describe('buildHistoryDataset', () => {
+        it('should archive districts with slugs and successors and group closed schools', () => {
+            const records = [
+                { 'Record Type': 'District', 'CDS Code': '04614080000000', District: 'Chico Elementary', County: 'Butte', Status: 'Merged', 'Open Date': '1950-07-01', 'Closed Date': '2019-06-30', Latitude: '39.7', Longitude: '-121.8' },
+                { 'Record Type': 'School', 'CDS Code': '04614086000001', School: 'Old School', Status: 'Closed', 'Closed Date': '2019-06-30', Latitude: '', Longitude: '' },
+                { 'Record Type': 'School', 'CDS Code': '04615316000002', School: 'Closed Annex', Status: 'Closed', Latitude: '39.7', Longitude: '-121.8' },
+                { 'Record Type': 'School', 'CDS Code': '99999996000003', School: 'Orphan', Status: 'Closed' },
+            ];
+            const { history, droppedSchools } = buildHistoryDataset(records, [UNIFIED], new Map([[UNIFIED['CDS Code'], '2019-07-01']]), {
+                districtColumns: ['CDS Code', 'District', 'County', 'Status', 'Latitude', 'Longitude'],
+                schoolColumns: ['CDS Code', 'School', 'Status', 'Latitude', 'Longitude'],
+                generateSlug: (name, cds) => `${name.toLowerCase().replace(/ /g, '-')}-${cds}`,
+            });
+
+            expect(history.districts['04614080000000']).toMatchObject({
+                slug: 'chico-elementary-04614080000000',
+                'Closed Date': '2019-06-30',
+                Latitude: 39.7,
+                successorCdsCode: UNIFIED['CDS Code'],
+                successorName: 'Chico Unified',
+            });
+            expect(history.schoolsByDistrict['04614080000000'][0]).toMatchObject({ School: 'Old School', 'Open Date': 'No Data', Latitude: 'No Data' });
+            expect(history.schoolsByDistrict['04615310000000'][0].School).toBe('Closed Annex');
+            expect(droppedSchools).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+import type { ArchivedDistrictDetails, ArchivedSchoolDetails, DistrictDetails, HistoryData, SchoolDetails } from '../../src/scripts/types.js';
+import { normalizeSchoolAttributes } from '../../src/scripts/schoolAttributes.js';
+
+// Closed and merged entities are kept in a history dataset so their pages keep resolving
+export const ARCHIVED_STATUSES = ['Closed', 'Merged'];
+
+// A district counts as the successor if it opened within this window around the closure
+const SUCCESSOR_OPEN_WINDOW_DAYS = { before: 31, after: 366 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SuccessorCandidate {
+    'CDS Code'?: string;
+    District?: string;
+    County?: string;
+    'Street Address'?: string;
+    'Street City'?: string;
+    slug?: string;
+}
+
+export interface InferredSuccessor {
+    cdsCode: string;
+    slug: string;
+    name: string;
+    reason: 'opened-at-closure' | 'same-address';
+}
+
+export const isArchivedStatus = (status: unknown): boolean =>
+    typeof status === 'string' && ARCHIVED_STATUSES.includes(status);
+
+export type SourceRecordDisposition = 'active' | 'archived' | 'redacted' | 'inactive';
+
+/**
+ * What the parser does with a source record: keep it, archive it, or skip it for a redacted
+ * address or another status. Archived records are kept whatever their address, so the page of a
+ * closed district with a redacted address still resolves.
+ */
+export function classifySourceRecord(record: SourceRecord): SourceRecordDisposition {
+    if (isArchivedStatus(record['Status'])) return 'archived';
+    const streetAddress = record['Street Address'];
+    if (typeof streetAddress === 'string' && streetAddress.toLowerCase().includes('information redacted')) return 'redacted';
+    return record['Status'] === 'Active' ? 'active' : 'inactive';
+}
+
+// CDE dates come as ISO ("2019-07-01") or US ("7/1/2019") strings; anything else is unknown
+export function parseCdeDate(value: unknown): number | null {
+    if (typeof value !== 'string' || value.trim() === '' || value === 'No Data') return null;
+    const time = Date.parse(value.trim());
+    return isNaN(time) ? null : time;
+}
+
+const sameText = (a: unknown, b: unknown) =>
+    typeof a === 'string' && typeof b === 'string' && a !== 'No Data' && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Guesses which active district took over from a closed one, looking only within the same county:
+ * first a single district that opened around the closing date (unifications and mergers), then a
+ * single district at the same street address. Returns null rather than guess between several.
+ */
+export function inferSuccessor(
+    closed: SuccessorCandidate & { 'Closed Date'?: string },
+    activeDistricts: SuccessorCandidate[],
+    openDates: Map<string, string>
+): InferredSuccessor | null {
+    const sameCounty = activeDistricts.filter(d => d['CDS Code'] !== closed['CDS Code'] && sameText(d.County, closed.County));
+    const toSuccessor = (district: SuccessorCandidate, reason: InferredSuccessor['reason']): InferredSuccessor => ({
+        cdsCode: district['CDS Code'] || '',
+        slug: district.slug || '',
+        name: district.District || '',
+        reason,
+    });
+
+    const closedAt = parseCdeDate(closed['Closed Date']);
+    if (closedAt !== null) {
+        const openedAtClosure = sameCounty.filter(d => {
+            const openedAt = parseCdeDate(openDates.get(d['CDS Code'] || ''));
+            return openedAt !== null
+                && openedAt >= closedAt - SUCCESSOR_OPEN_WINDOW_DAYS.before * DAY_MS
+                && openedAt <= closedAt + SUCCESSOR_OPEN_WINDOW_DAYS.after * DAY_MS;
+        });
+        if (openedAtClosure.length === 1) return toSuccessor(openedAtClosure[0], 'opened-at-closure');
+    }
+
+    const sameAddress = sameCounty.filter(d =>
+        sameText(d['Street Address'], closed['Street Address']) && sameText(d['Street City'], closed['Street City']));
+    if (sameAddress.length === 1) return toSuccessor(sameAddress[0], 'same-address');
+
+    return null;
+}
+
+type SourceRecord = { [column: string]: string };
+
+export interface HistoryBuildOptions {
+    districtColumns: string[];
+    schoolColumns: string[];
+    generateSlug: (name: string, cdsCode: string) => string;
+}
+
+const DATE_COLUMNS = ['Open Date', 'Closed Date'];
+
+// Archived records are never geocoded; unusable source coordinates become "No Data"
+function withSourceCoordinates<T extends DistrictDetails | SchoolDetails>(record: T): T {
+    const lat = parseFloat(String(record.Latitude));
+    const lon = parseFloat(String(record.Longitude));
+    const valid = !isNaN(lat) && !isNaN(lon) && lat !== 0 && lon !== 0 && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+    return { ...record, Latitude: valid ? lat : 'No Data', Longitude: valid ? lon : 'No Data' };
+}
+
+// `columns` are the fields of T; the history dataset is validated before it is written
+const pickColumns = <T>(record: SourceRecord, columns: string[]): T => {
+    const picked: { [column: string]: unknown } = {};
+    for (const column of [...columns, ...DATE_COLUMNS]) {
+        picked[column] = record[column] !== undefined && record[column] !== '' ? record[column] : 'No Data';
+    }
+    return picked as T;
+};
+
+/**
+ * Builds the history dataset from closed and merged source records. Districts get a slug (so
+ * their old page keeps working) and an inferred successor; schools are grouped by the district
+ * they belonged to, active or archived. Schools of unknown districts are dropped.
+ */
+export function buildHistoryDataset(
+    archivedRecords: SourceRecord[],
+    activeDistricts: SuccessorCandidate[],
+    activeOpenDates: Map<string, string>,
+    options: HistoryBuildOptions
+): { history: HistoryData; droppedSchools: number } {
+    const history: HistoryData = { districts: {}, schoolsByDistrict: {} };
+
+    for (const record of archivedRecords) {
+        const recordType = record['Record Type'];
+        if (recordType !== 'District' && recordType !== 'County Office') continue;
+        const cdsCode = record['CDS Code'];
+        const district = withSourceCoordinates(pickColumns<ArchivedDistrictDetails>(record, options.districtColumns));
+        const successor = inferSuccessor(record, activeDistricts, activeOpenDates);
+        history.districts[cdsCode] = {
+            ...district,
+            slug: options.generateSlug(record['District'] || '', cdsCode),
+            successorCdsCode: successor ? successor.cdsCode : null,
+            successorSlug: successor ? successor.slug : null,
+            successorName: successor ? successor.name : null,
+        };
+    }
+
+    const knownDistricts = new Set([...activeDistricts.map(d => d['CDS Code']), ...Object.keys(history.districts)]);
+    let droppedSchools = 0;
+    for (const record of archivedRecords) {
+        if (record['Record Type'] !== 'School') continue;
+        const districtCdsKey = `${(record['CDS Code'] || '').substring(0, 7)}0000000`;
+        if (!knownDistricts.has(districtCdsKey)) {
+            droppedSchools++;
+            continue;
+        }
+        const school = withSourceCoordinates(normalizeSchoolAttributes(pickColumns<ArchivedSchoolDetails>(record, options.schoolColumns)));
+        (history.schoolsByDistrict[districtCdsKey] ||= []).push(school);
+    }
+
+    return { history, droppedSchools };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { SchoolDetails } from '../../src/scripts/types';
+import { formatPlanSummary, hashRecord, planIncrementalUpdate } from './incremental';
+
+const COLUMNS = ['CDS Code', 'School', 'Street Address', 'Latitude', 'Longitude'];
+
+const school = (cds: string, name: string, address: string, lat: string | number = 'No Data', lon: string | number = 'No Data') => ({
+    'CDS Code': cds,
+    School: name,
+    'Street Address': address,
+    Latitude: lat,
+    Longitude: lon,
+}) as SchoolDetails;
+
+describe('incremental', () => {
+    describe('hashRecord', () => {
+        it('should ignore coordinates and columns outside the list', () => {
+            const a = { ...school('1', 'A', '1 Main St', 37, -122), Extra: 'x' };
+            const b = school('1', 'A', '1 Main St');
+            expect(hashRecord(a, COLUMNS)).toBe(hashRecord(b, COLUMNS));
+        });
+
+        it('should change when a relevant column changes', () => {
+            expect(hashRecord(school('1', 'A', '1 Main St'), COLUMNS)).not.toBe(hashRecord(school('1', 'A', '2 Main St'), COLUMNS));
+        });
+    });
+
+    describe('planIncrementalUpdate', () => {
+        it('should classify added, changed, unchanged and removed records', () => {
+            const previous = new Map([
+                ['1', school('1', 'Same', '1 Main St', 37.1, -122.1)],
+                ['2', school('2', 'Moved', '2 Main St', 37.2, -122.2)],
+                ['3', school('3', 'Closed', '3 Main St', 37.3, -122.3)],
+            ]);
+            const current = [
+                school('1', 'Same', '1 Main St'),
+                school('2', 'Moved', '20 Main St'),
+                school('4', 'New', '4 Main St'),
+            ];
+
+            const plan = planIncrementalUpdate(current, previous, COLUMNS);
+            expect(plan.added.map(r => r['CDS Code'])).toEqual(['4']);
+            expect(plan.changed.map(r => r['CDS Code'])).toEqual(['2']);
+            expect(plan.removed.map(r => r['CDS Code'])).toEqual(['3']);
+            // Unchanged records come from the previous output, keeping geocoded coordinates
+            expect(plan.unchanged).toEqual([school('1', 'Same', '1 Main St', 37.1, -122.1)]);
+        });
+
+        it('should treat new source coordinates as a change', () => {
+            const previous = new Map([['1', school('1', 'A', '1 Main St', 37.1, -122.1)]]);
+            const plan = planIncrementalUpdate([school('1', 'A', '1 Main St', '37.5', '-122.1')], previous, COLUMNS);
+            expect(plan.changed).toHaveLength(1);
+
+            const samePlan = planIncrementalUpdate([school('1', 'A', '1 Main St', '37.1', '-122.1')], previous, COLUMNS);
+            expect(samePlan.unchanged).toHaveLength(1);
+        });
+    });
+
+    describe('formatPlanSummary', () => {
+        it('should summarize counts and list affected records', () => {
+            const plan = planIncrementalUpdate([school('4', 'New', '4 Main St')], new Map([['3', school('3', 'Closed', '3 Main St')]]), COLUMNS);
+            expect(formatPlanSummary('Schools', plan)).toEqual([
+                'Schools: 1 added, 0 changed, 1 removed, 0 unchanged.',
+                '  + 4 New',
+                '  - 3 Closed',
+            ]);
+        });
+    });
+});
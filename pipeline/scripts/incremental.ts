@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import type { DistrictDataMap, DistrictDetails, SchoolDetails, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+
+type DataRecord = DistrictDetails | SchoolDetails;
+
+// Coordinates are excluded from content hashes: in the previous output they may come
+// from geocoding rather than from the source file, so they are compared separately.
+const COORDINATE_COLUMNS = ['Latitude', 'Longitude'];
+
+export interface IncrementalPlan<T extends DataRecord> {
+    added: T[];
+    changed: T[];
+    unchanged: T[]; // Previous output records, reused as-is
+    removed: DataRecord[];
+}
+
+// --- Helper: stable hash over the relevant (non-coordinate) columns of a record ---
+export function hashRecord(record: DataRecord, columns: string[]): string {
+    const values: { [column: string]: unknown } = { ...record };
+    const relevant = columns
+        .filter(col => !COORDINATE_COLUMNS.includes(col))
+        .map(col => [col, values[col] ?? null]);
+    return createHash('sha256').update(JSON.stringify(relevant)).digest('hex');
+}
+
+function parseCoordinate(value: unknown): number | null {
+    if (value == null || value === 'No Data') return null;
+    const num = parseFloat(String(value));
+    return isNaN(num) || num === 0 ? null : num;
+}
+
+// A source record with its own valid coordinates that differ from the previous output has moved
+function sourceCoordinatesMoved(current: DataRecord, previous: DataRecord): boolean {
+    const lat = parseCoordinate(current.Latitude);
+    const lon = parseCoordinate(current.Longitude);
+    if (lat === null || lon === null) return false;
+    return lat !== parseCoordinate(previous.Latitude) || lon !== parseCoordinate(previous.Longitude);
+}
+
+/**
+ * Splits freshly parsed records into added, changed and unchanged ones by comparing
+ * content hashes against the previous output (both keyed by CDS Code).
+ */
+export function planIncrementalUpdate<T extends DataRecord>(
+    currentRecords: T[],
+    previousByCds: Map<string, DataRecord>,
+    columns: string[]
+): IncrementalPlan<T> {
+    const plan: IncrementalPlan<T> = { added: [], changed: [], unchanged: [], removed: [] };
+    const seen = new Set<string>();
+
+    for (const record of currentRecords) {
+        const cdsCode = record['CDS Code'];
+        seen.add(cdsCode);
+        const previous = previousByCds.get(cdsCode);
+        if (!previous) {
+            plan.added.push(record);
+        } else if (hashRecord(record, columns) !== hashRecord(previous, columns) || sourceCoordinatesMoved(record, previous)) {
+            plan.changed.push(record);
+        } else {
+            plan.unchanged.push(previous as T);
+        }
+    }
+
+    for (const [cdsCode, previous] of previousByCds) {
+        if (!seen.has(cdsCode)) plan.removed.push(previous);
+    }
+    return plan;
+}
+
+// --- Helpers to read the previous output files (missing files mean a first run) ---
+export function loadPreviousDistricts(filePath: string): Map<string, DataRecord> {
+    if (!fs.existsSync(filePath)) return new Map();
+    const data = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as DistrictDataMap;
+    return new Map(Object.entries(data));
+}
+
+export function loadPreviousSchools(filePath: string): Map<string, DataRecord> {
+    const schools = new Map<string, DataRecord>();
+    if (!fs.existsSync(filePath)) return schools;
+    const data = JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as SchoolsByDistrictMap;
+    Object.values(data).flat().forEach(school => {
+        if (school['CDS Code']) schools.set(school['CDS Code'], school);
+    });
+    return schools;
+}
+
+export function formatPlanSummary(label: string, plan: IncrementalPlan<DataRecord>, maxListed = 20): string[] {
+    const lines = [`${label}: ${plan.added.length} added, ${plan.changed.length} changed, ${plan.removed.length} removed, ${plan.unchanged.length} unchanged.`];
+    const describe = (prefix: string, records: DataRecord[]) => {
+        records.slice(0, maxListed).forEach(r => lines.push(`  ${prefix} ${r['CDS Code']} ${('District' in r ? r.District : r.School) ?? ''}`.trimEnd()));
+        if (records.length > maxListed) lines.push(`  ${prefix} ... and ${records.length - maxListed} more`);
+    };
+    describe('+', plan.added);
+    describe('~', plan.changed);
+    describe('-', plan.removed);
+    return lines;
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Relative ES module imports; package imports are pinned by the lockfile instead
+const RELATIVE_IMPORT = /(?:from|import)\s*\(?\s*['"](\.{1,2}\/[^'"]+)['"]/g;
+
+function hashPath(filePath: string, hash: ReturnType<typeof createHash>): void {
+    if (!fs.existsSync(filePath)) {
+        hash.update(`missing:${filePath}\n`);
+        return;
+    }
+    if (fs.statSync(filePath).isDirectory()) {
+        for (const entry of fs.readdirSync(filePath).sort()) hashPath(path.join(filePath, entry), hash);
+        return;
+    }
+    hash.update(`file:${filePath}\n`);
+    hash.update(fs.readFileSync(filePath));
+}
+
+/**
+ * Hashes the content of files and directories (recursively, in name order). Missing paths
+ * hash differently from empty ones, so creating or deleting an input changes the hash.
+ */
+export function hashPaths(paths: string[]): string {
+    const hash = createHash('sha256');
+    for (const filePath of [...paths].sort()) hashPath(filePath, hash);
+    return hash.digest('hex');
+}
+
+/**
+ * The TypeScript sources a script runs: the script and every module it reaches through relative
+ * imports. Imports are written with the `.js` extension of the compiled output.
+ */
+export function sourceClosure(entry: string): string[] {
+    const seen = new Set<string>();
+    const visit = (filePath: string) => {
+        if (seen.has(filePath) || !fs.existsSync(filePath)) return;
+        seen.add(filePath);
+        const source = fs.readFileSync(filePath, { encoding: 'utf8' });
+        for (const [, specifier] of source.matchAll(RELATIVE_IMPORT)) {
+            visit(path.resolve(path.dirname(filePath), specifier.replace(/\.js$/, '.ts')));
+        }
+    };
+    visit(entry);
+    return [...seen].sort();
+}
+
+// Everything a stage's outputs are derived from: its code, arguments and declared inputs
+export function fingerprintStage(stage: { script: string; args?: string[]; inputs: string[] }): string {
+    return createHash('sha256')
+        .update(JSON.stringify({
+            code: hashPaths(sourceClosure(stage.script)),
+            args: stage.args || [],
+            inputs: hashPaths(stage.inputs),
+        }))
+        .digest('hex');
+}
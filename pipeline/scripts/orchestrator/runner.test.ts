@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatRunSummary, orderStages, PipelineStage, PipelineState, runPipeline } from './runner';
+import { hashPaths, sourceClosure } from './fingerprint';
+
+describe('pipeline runner', () => {
+    let dir: string;
+    let stages: PipelineStage[];
+    let inputs: { [file: string]: string };
+    let executed: string[];
+
+    // Stages "write" their outputs; fingerprints are the hash of their inputs
+    const hooks = (failing: string[] = []) => ({
+        execute: async (stage: PipelineStage) => {
+            executed.push(stage.name);
+            if (failing.includes(stage.name)) throw new Error('exited with code 1');
+            stage.outputs.forEach(output => fs.writeFileSync(output, `${stage.name}:${hashPaths(stage.inputs)}`));
+        },
+        fingerprint: (stage: PipelineStage) => hashPaths(stage.inputs),
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-'));
+        const file = (name: string) => path.join(dir, name);
+        inputs = { source: file('source.csv'), geojson: file('areas.geojson') };
+        fs.writeFileSync(inputs.source, 'v1');
+        fs.writeFileSync(inputs.geojson, 'v1');
+        executed = [];
+        // Declared out of order: validation reads what the other two write
+        stages = [
+            { name: 'validate', description: '', script: '', inputs: [file('districts.json'), file('boundaries.json')], outputs: [file('report.json')] },
+            { name: 'data', description: '', script: '', inputs: [inputs.source], outputs: [file('districts.json')] },
+            { name: 'boundaries', description: '', script: '', inputs: [inputs.geojson], outputs: [file('boundaries.json')] },
+        ];
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should order stages after the stages writing their inputs', () => {
+        const { ordered, dependencies } = orderStages(stages);
+        expect(ordered.map(stage => stage.name)).toEqual(['data', 'boundaries', 'validate']);
+        expect(dependencies.get('validate')).toEqual(['data', 'boundaries']);
+        expect(() => orderStages([...stages, { name: 'loop', description: '', script: '', inputs: [path.join(dir, 'report.json')], outputs: [inputs.source] }]))
+            .toThrow('cycle');
+    });
+
+    it('should skip stages whose inputs did not change', async () => {
+        const state: PipelineState = {};
+        let results = await runPipeline(stages, state, hooks());
+        expect(results.map(result => [result.name, result.status, result.reason])).toEqual([
+            ['data', 'ran', 'no previous run'],
+            ['boundaries', 'ran', 'no previous run'],
+            ['validate', 'ran', 'no previous run'],
+        ]);
+
+        executed = [];
+        fs.writeFileSync(inputs.geojson, 'v2');
+        results = await runPipeline(stages, state, hooks());
+        expect(executed).toEqual(['boundaries', 'validate']);
+        expect(results[0].status).toBe('up to date');
+        expect(results[2].reason).toBe('inputs or code changed');
+
+        executed = [];
+        fs.rmSync(path.join(dir, 'report.json'));
+        await runPipeline(stages, state, hooks());
+        expect(executed).toEqual(['validate']);
+
+        executed = [];
+        results = await runPipeline(stages, state, hooks(), { force: true, only: ['data'] });
+        expect(executed).toEqual(['data']);
+        expect(results.map(result => result.status)).toEqual(['ran', 'not selected', 'not selected']);
+        await expect(runPipeline(stages, state, hooks(), { only: ['convert'] })).rejects.toThrow('Unknown pipeline stage "convert"');
+    });
+
+    it('should block the stages depending on a failed stage and summarize the run', async () => {
+        const state: PipelineState = {};
+        const results = await runPipeline(stages, state, hooks(['data']));
+        expect(executed).toEqual(['data', 'boundaries']);
+        expect(results.map(result => [result.status, result.reason])).toEqual([
+            ['failed', 'exited with code 1'],
+            ['ran', 'no previous run'],
+            ['blocked', 'data did not complete'],
+        ]);
+        expect(Object.keys(state)).toEqual(['boundaries']);
+        expect(formatRunSummary(results).pop()).toBe('1 ran, 0 up to date, 1 failed, 1 blocked, 0 not selected.');
+    });
+
+    it('should fingerprint a script together with the modules it imports', () => {
+        fs.mkdirSync(path.join(dir, 'lib'));
+        fs.writeFileSync(path.join(dir, 'stage.ts'), `import { a } from './lib/a.js';\nimport * as fs from 'fs';\nrun(a);`);
+        fs.writeFileSync(path.join(dir, 'lib', 'a.ts'), `import type { B } from '../b.js';\nexport const a = 1;`);
+        fs.writeFileSync(path.join(dir, 'b.ts'), `export type B = string;`);
+        expect(sourceClosure(path.join(dir, 'stage.ts'))).toEqual([
+            path.join(dir, 'b.ts'),
+            path.join(dir, 'lib', 'a.ts'),
+            path.join(dir, 'stage.ts'),
+        ]);
+
+        const before = hashPaths([path.join(dir, 'lib'), path.join(dir, 'missing.json')]);
+        fs.writeFileSync(path.join(dir, 'missing.json'), '');
+        expect(hashPaths([path.join(dir, 'lib'), path.join(dir, 'missing.json')])).not.toBe(before);
+    });
+});
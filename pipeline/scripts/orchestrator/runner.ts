@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface PipelineStage {
+    name: string; // Also the `--only` name, e.g. "build:data"
+    description: string;
+    script: string; // TypeScript entry point, run in its own Node process
+    args?: string[];
+    // Files or directories; a stage runs after every stage whose outputs it reads
+    inputs: string[];
+    outputs: string[];
+}
+
+export type StageStatus = 'ran' | 'up to date' | 'failed' | 'blocked' | 'not selected';
+
+export interface StageResult {
+    name: string;
+    status: StageStatus;
+    reason: string;
+    durationMs: number;
+}
+
+// Fingerprint of each stage's last successful run
+export interface PipelineState {
+    [stageName: string]: { fingerprint: string; completedAt: string };
+}
+
+export interface PipelineHooks {
+    execute: (stage: PipelineStage) => Promise<void>;
+    fingerprint: (stage: PipelineStage) => string;
+    saveState?: (state: PipelineState) => void;
+}
+
+export interface PipelineRunOptions {
+    force?: boolean; // Run the selected stages even when up to date
+    only?: string[]; // Stage names; other stages are neither checked nor run
+}
+
+// A missing state file means no stage has run yet
+export function loadPipelineState(filePath: string): PipelineState {
+    if (!fs.existsSync(filePath)) return {};
+    return JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as PipelineState;
+}
+
+export function savePipelineState(filePath: string, state: PipelineState): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(state, null, 2));
+}
+
+const contains = (dir: string, filePath: string) => filePath === dir || filePath.startsWith(dir + path.sep);
+
+/**
+ * Orders stages so each runs after the stages producing its inputs. Dependencies come from the
+ * declared paths: an input equal to, inside or containing another stage's output. A stage may
+ * rewrite its own inputs (boundary validation annotates districts.json), which is not a cycle.
+ * Stages keep their declaration order where the dependencies allow.
+ */
+export function orderStages(stages: PipelineStage[]): { ordered: PipelineStage[]; dependencies: Map<string, string[]> } {
+    const dependencies = new Map<string, string[]>();
+    for (const stage of stages) {
+        dependencies.set(stage.name, stages
+            .filter(other => other !== stage && other.outputs.some(output =>
+                stage.inputs.some(input => contains(output, input) || contains(input, output))))
+            .map(other => other.name));
+    }
+
+    const ordered: PipelineStage[] = [];
+    const visiting = new Set<string>();
+    const visit = (stage: PipelineStage) => {
+        if (ordered.includes(stage)) return;
+        if (visiting.has(stage.name)) throw new Error(`Pipeline stages depend on each other in a cycle through "${stage.name}".`);
+        visiting.add(stage.name);
+        for (const name of dependencies.get(stage.name) || []) visit(stages.find(other => other.name === name)!);
+        visiting.delete(stage.name);
+        ordered.push(stage);
+    };
+    stages.forEach(visit);
+    return { ordered, dependencies };
+}
+
+/**
+ * Runs the stages in dependency order. A stage is up to date when its outputs exist and its
+ * fingerprint matches the one recorded after its last successful run; fingerprints are taken
+ * after running so a stage that rewrites its own inputs is not rerun on the next invocation.
+ * When a stage fails, the stages depending on it are blocked and the others still run.
+ */
+export async function runPipeline(
+    stages: PipelineStage[],
+    state: PipelineState,
+    hooks: PipelineHooks,
+    options: PipelineRunOptions = {}
+): Promise<StageResult[]> {
+    const unknown = (options.only || []).filter(name => !stages.some(stage => stage.name === name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown pipeline stage "${unknown.join('", "')}". Expected one of: ${stages.map(stage => stage.name).join(', ')}.`);
+    }
+
+    const { ordered, dependencies } = orderStages(stages);
+    const results: StageResult[] = [];
+    const unsuccessful = new Set<string>();
+    for (const stage of ordered) {
+        if (options.only && options.only.length > 0 && !options.only.includes(stage.name)) {
+            results.push({ name: stage.name, status: 'not selected', reason: '--only', durationMs: 0 });
+            continue;
+        }
+        const blockedBy = (dependencies.get(stage.name) || []).filter(name => unsuccessful.has(name));
+        if (blockedBy.length > 0) {
+            unsuccessful.add(stage.name);
+            results.push({ name: stage.name, status: 'blocked', reason: `${blockedBy.join(', ')} did not complete`, durationMs: 0 });
+            continue;
+        }
+
+        const startedAt = Date.now();
+        const previous = state[stage.name];
+        const missingOutput = stage.outputs.find(output => !fs.existsSync(output));
+        let reason: string;
+        if (options.force) reason = '--force';
+        else if (!previous) reason = 'no previous run';
+        else if (missingOutput) reason = `missing ${path.basename(missingOutput)}`;
+        else if (hooks.fingerprint(stage) !== previous.fingerprint) reason = 'inputs or code changed';
+        else {
+            results.push({ name: stage.name, status: 'up to date', reason: 'unchanged', durationMs: Date.now() - startedAt });
+            continue;
+        }
+
+        try {
+            await hooks.execute(stage);
+            state[stage.name] = { fingerprint: hooks.fingerprint(stage), completedAt: new Date().toISOString() };
+            hooks.saveState?.(state);
+            results.push({ name: stage.name, status: 'ran', reason, durationMs: Date.now() - startedAt });
+        } catch (error: any) {
+            unsuccessful.add(stage.name);
+            results.push({ name: stage.name, status: 'failed', reason: error.message, durationMs: Date.now() - startedAt });
+        }
+    }
+    return results;
+}
+
+export function formatRunSummary(results: StageResult[]): string[] {
+    const width = Math.max(...results.map(result => result.name.length));
+    const lines = results.map(result =>
+        `  ${result.name.padEnd(width)}  ${result.status.padEnd(12)}  ${(result.durationMs / 1000).toFixed(1).padStart(6)}s  ${result.reason}`);
+    const count = (status: StageStatus) => results.filter(result => result.status === status).length;
+    lines.push(`${count('ran')} ran, ${count('up to date')} up to date, ${count('failed')} failed, ${count('blocked')} blocked, ${count('not selected')} not selected.`);
+    return lines;
+}
@@ -0,0 +1,136 @@
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { resolveStateProfile } from '../../src/scripts/stateProfile.js';
+import { CdeDirectoryExportAdapter, createSourceAdapter } from './sources/sourceAdapters.js';
+import { fingerprintStage } from './orchestrator/fingerprint.js';
+import { formatRunSummary, loadPipelineState, PipelineStage, runPipeline, savePipelineState } from './orchestrator/runner.js';
+
+// --- Configuration ---
+const ROOT_DIR = process.cwd();
+const DIST_DIR = path.resolve(ROOT_DIR, 'dist');
+const SCRIPTS_DIR = path.resolve(ROOT_DIR, 'pipeline', 'scripts');
+const ASSETS_DIR = path.resolve(ROOT_DIR, 'public', 'assets');
+// Fingerprint of each stage's last successful run (not committed: outputs are local too)
+const STATE_PATH = path.resolve(ROOT_DIR, 'pipeline', 'cache', 'pipeline-state.json');
+const TSC_PATH = createRequire(import.meta.url).resolve('typescript/bin/tsc');
+
+const FORCE = process.argv.includes('--force');
+// `--only build:boundaries,validate:boundaries` (or `--only=...`)
+const onlyIndex = process.argv.findIndex(arg => arg === '--only' || arg.startsWith('--only='));
+const ONLY = onlyIndex === -1 ? undefined : (process.argv[onlyIndex].split('=')[1] ?? process.argv[onlyIndex + 1] ?? '')
+    .split(',').map(name => name.trim()).filter(Boolean);
+// Passed through to build:data (see generateDistrictJson.ts)
+const DATA_ARGS = ['--offline', '--incremental', '--verbose'].filter(arg => process.argv.includes(arg));
+
+const sourceAdapter = createSourceAdapter();
+const DISTRICTS_JSON_PATH = path.join(ASSETS_DIR, 'districts.json');
+const SCHOOLS_JSON_PATH = path.join(ASSETS_DIR, 'schools_by_district.json');
+const BOUNDARIES_DIR = path.join(ASSETS_DIR, 'boundaries');
+const SCHOOL_SHARDS_DIR = path.join(ASSETS_DIR, 'schools');
+const BOUNDARIES_GEOJSON_PATH = path.resolve(ROOT_DIR, resolveStateProfile(process.env.PUBLIC_STATE_PROFILE).boundarySource.file);
+
+// Stages run in dependency order, derived from their inputs and outputs. To add a stage, write
+// its script and declare what it reads and writes here.
+const STAGES: PipelineStage[] = [
+    ...(sourceAdapter instanceof CdeDirectoryExportAdapter ? [{
+        name: 'convert:xlsx',
+        description: 'Convert the CDE School Directory export to CSV',
+        script: path.join(SCRIPTS_DIR, 'convertXlsxToCsv.ts'),
+        inputs: [path.resolve(ROOT_DIR, 'CDESchoolDirectoryExport.xlsx')],
+        outputs: [path.join(DIST_DIR, 'pipeline', 'data')],
+    }] : []),
+    {
+        name: 'build:data',
+        description: `Build districts.json and schools_by_district.json from ${sourceAdapter.name}`,
+        script: path.join(SCRIPTS_DIR, 'generateDistrictJson.ts'),
+        args: DATA_ARGS,
+        inputs: [sourceAdapter.inputPath, path.resolve(ROOT_DIR, 'pipeline', 'config')],
+        // Every file generateDistrictJson writes, so a deleted one brings the stage back. The geocode
+        // cache is left out: it is only saved when something was geocoded.
+        outputs: [
+            DISTRICTS_JSON_PATH,
+            SCHOOLS_JSON_PATH,
+            path.join(ASSETS_DIR, 'prerender-params.json'),
+            path.join(ASSETS_DIR, 'search-index.json'),
+            path.join(ASSETS_DIR, 'district_history.json'),
+            path.join(ASSETS_DIR, 'slug-registry.json'),
+            path.resolve(ROOT_DIR, 'pipeline', 'reports', 'geocode-report.json'),
+        ],
+    },
+    {
+        name: 'build:boundaries',
+        description: 'Split, reproject and simplify the district boundaries',
+        script: path.join(SCRIPTS_DIR, 'splitBoundaries.ts'),
+        inputs: [BOUNDARIES_GEOJSON_PATH],
+        outputs: [BOUNDARIES_DIR],
+    },
+    {
+        name: 'validate:boundaries',
+        description: 'Check districts and schools against their boundaries',
+        script: path.join(SCRIPTS_DIR, 'validateBoundaries.ts'),
+        inputs: [DISTRICTS_JSON_PATH, SCHOOLS_JSON_PATH, BOUNDARIES_DIR],
+        outputs: [DISTRICTS_JSON_PATH, SCHOOLS_JSON_PATH, path.resolve(ROOT_DIR, 'pipeline', 'reports', 'boundary-coverage.json')],
+    },
+    {
+        name: 'build:school-shards',
+        description: 'Split schools_by_district.json into one file per district for the index map',
+        script: path.join(SCRIPTS_DIR, 'splitSchoolShards.ts'),
+        inputs: [SCHOOLS_JSON_PATH],
+        outputs: [SCHOOL_SHARDS_DIR],
+    },
+    {
+        name: 'build:snapshot',
+        description: 'Record the source files, export dates and record counts in data-snapshot.json',
+        script: path.join(SCRIPTS_DIR, 'writeDataSnapshot.ts'),
+        inputs: [sourceAdapter.inputPath, BOUNDARIES_GEOJSON_PATH, DISTRICTS_JSON_PATH, SCHOOLS_JSON_PATH, path.join(ASSETS_DIR, 'district_history.json'), path.resolve(ROOT_DIR, 'pipeline', 'config')],
+        outputs: [path.join(ASSETS_DIR, 'data-snapshot.json')],
+    },
+    {
+        name: 'build:changelog',
+        description: 'Compare districts.json and schools_by_district.json with the previous build',
+        script: path.join(SCRIPTS_DIR, 'writeChangeLog.ts'),
+        inputs: [DISTRICTS_JSON_PATH, SCHOOLS_JSON_PATH, path.join(ASSETS_DIR, 'data-snapshot.json')],
+        outputs: [path.join(ASSETS_DIR, 'changelog.json'), path.resolve(ROOT_DIR, 'pipeline', 'cache', 'snapshots')],
+    },
+];
+// ---
+
+function runNode(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(process.execPath, args, { stdio: 'inherit' });
+        child.on('error', reject);
+        child.on('exit', code => (code === 0 ? resolve() : reject(new Error(`exited with code ${code}`))));
+    });
+}
+
+// Each stage is compiled and run in its own process, exactly as its `pnpm run` script does
+async function executeStage(stage: PipelineStage): Promise<void> {
+    console.log(`\n=== ${stage.name}: ${stage.description} ===`);
+    try {
+        await runNode([TSC_PATH, path.relative(ROOT_DIR, stage.script), '--module', 'nodenext', '--rootDir', '.', '--outDir', 'dist']);
+    } catch (error: any) {
+        throw new Error(`compilation failed (tsc ${error.message})`);
+    }
+    const compiledScript = path.join(DIST_DIR, path.relative(ROOT_DIR, stage.script)).replace(/\.ts$/, '.js');
+    await runNode([compiledScript, ...(stage.args || [])]);
+}
+
+async function runPipelineCli(): Promise<void> {
+    const state = loadPipelineState(STATE_PATH);
+    const results = await runPipeline(STAGES, state, {
+        execute: executeStage,
+        fingerprint: fingerprintStage,
+        saveState: updated => savePipelineState(STATE_PATH, updated),
+    }, { force: FORCE, only: ONLY });
+
+    console.log(`\n--- Pipeline Summary ---`);
+    formatRunSummary(results).forEach(line => console.log(line));
+    console.log(`------------------------\n`);
+    if (results.some(result => result.status === 'failed' || result.status === 'blocked')) process.exit(1);
+}
+
+runPipelineCli().catch(error => {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+});
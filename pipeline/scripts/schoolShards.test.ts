@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import type { SchoolDetails } from '../../src/scripts/types';
+import { buildSchoolShards, staleShardFiles } from './schoolShards';
+
+const HAYWARD = '01611920000000';
+const CHICO = '04615310000000';
+
+const school = (cdsCode: string, name: string) => ({ 'CDS Code': cdsCode, School: name }) as SchoolDetails;
+
+describe('schoolShards', () => {
+    it('should write one shard per district with schools and list it in the manifest', () => {
+        const { manifest, shards } = buildSchoolShards({
+            [HAYWARD]: [school('01611920100001', 'Hayward High'), school('01611920100002', 'Tennyson High')],
+            [CHICO]: [school('04615310100001', 'Chico High')],
+            '01100170000000': [],
+        });
+
+        expect(Object.keys(manifest)).toEqual([HAYWARD, CHICO]);
+        expect(manifest[HAYWARD]).toEqual({ file: expect.stringMatching(new RegExp(`^${HAYWARD}\\.[0-9a-f]{8}\\.json$`)), count: 2 });
+        expect(shards.map(shard => shard.file)).toEqual([manifest[HAYWARD].file, manifest[CHICO].file]);
+        expect(JSON.parse(shards[1].content)).toEqual([school('04615310100001', 'Chico High')]);
+    });
+
+    it('should rename a shard only when its schools change', () => {
+        const before = buildSchoolShards({ [HAYWARD]: [school('01611920100001', 'Hayward High')], [CHICO]: [school('04615310100001', 'Chico High')] });
+        const after = buildSchoolShards({ [HAYWARD]: [school('01611920100001', 'Hayward High School')], [CHICO]: [school('04615310100001', 'Chico High')] });
+        expect(after.manifest[HAYWARD].file).not.toBe(before.manifest[HAYWARD].file);
+        expect(after.manifest[CHICO].file).toBe(before.manifest[CHICO].file);
+    });
+
+    it('should find shard files the manifest no longer lists', () => {
+        const { manifest } = buildSchoolShards({ [HAYWARD]: [school('01611920100001', 'Hayward High')] });
+        const existing = ['manifest.json', manifest[HAYWARD].file, `${HAYWARD}.00000000.json`, `${CHICO}.12345678.json`, '.gitkeep'];
+        expect(staleShardFiles(existing, manifest, 'manifest.json')).toEqual([`${HAYWARD}.00000000.json`, `${CHICO}.12345678.json`]);
+    });
+});
@@ -0,0 +1,32 @@
+import { createHash } from 'crypto';
+import type { SchoolsByDistrictMap, SchoolShardManifest } from '../../src/scripts/types.js';
+import { schoolShardFileName } from '../../src/scripts/schoolShards.js';
+
+export interface SchoolShard {
+    file: string;
+    content: string;
+}
+
+/**
+ * One shard per district with schools, named after the district and a hash of its content, and
+ * the manifest listing them. Districts without schools get neither.
+ */
+export function buildSchoolShards(schoolsByDistrict: SchoolsByDistrictMap): { manifest: SchoolShardManifest; shards: SchoolShard[] } {
+    const manifest: SchoolShardManifest = {};
+    const shards: SchoolShard[] = [];
+    for (const cdsCode of Object.keys(schoolsByDistrict).sort()) {
+        const schools = schoolsByDistrict[cdsCode];
+        if (schools.length === 0) continue;
+        const content = JSON.stringify(schools);
+        const file = schoolShardFileName(cdsCode, createHash('sha256').update(content).digest('hex').slice(0, 8));
+        manifest[cdsCode] = { file, count: schools.length };
+        shards.push({ file, content });
+    }
+    return { manifest, shards };
+}
+
+// Files in the shard directory that the manifest no longer lists, left behind by earlier runs
+export function staleShardFiles(existingFiles: string[], manifest: SchoolShardManifest, manifestFile: string): string[] {
+    const current = new Set(Object.values(manifest).map(entry => entry.file));
+    return existingFiles.filter(file => file.endsWith('.json') && file !== manifestFile && !current.has(file));
+}
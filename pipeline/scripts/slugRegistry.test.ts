@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadSlugRegistry, updateSlugRegistry } from './slugRegistry';
+
+const HAYWARD = '01611920000000';
+const CHICO = '04615310000000';
+
+describe('slugRegistry', () => {
+    it('should treat a missing registry file as empty', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slug-registry-'));
+        expect(loadSlugRegistry(path.join(dir, 'slug-registry.json'))).toEqual({});
+    });
+
+    it('should record new districts and keep the previous slug of renamed ones', () => {
+        const registry = {
+            [HAYWARD]: { current: `hayward-unified-${HAYWARD}`, previous: [] },
+            [CHICO]: { current: `chico-unified-${CHICO}`, previous: [] },
+        };
+        const { registry: updated, added, changes } = updateSlugRegistry(registry, [
+            { 'CDS Code': HAYWARD, slug: `hayward-unified-school-district-${HAYWARD}` },
+            { 'CDS Code': CHICO, slug: `chico-unified-${CHICO}` },
+            { 'CDS Code': '01100170000000', slug: 'alameda-county-office-of-education-01100170000000' },
+        ]);
+
+        expect(added).toBe(1);
+        expect(changes).toEqual([{ cdsCode: HAYWARD, from: `hayward-unified-${HAYWARD}`, to: `hayward-unified-school-district-${HAYWARD}` }]);
+        expect(updated[HAYWARD]).toEqual({ current: `hayward-unified-school-district-${HAYWARD}`, previous: [`hayward-unified-${HAYWARD}`] });
+        expect(Object.keys(updated)).toEqual(['01100170000000', HAYWARD, CHICO]);
+        // The input registry is left untouched
+        expect(registry[HAYWARD].previous).toEqual([]);
+    });
+
+    it('should make an earlier slug current again when a rename is reverted', () => {
+        const registry = { [HAYWARD]: { current: `hayward-usd-${HAYWARD}`, previous: [`hayward-unified-${HAYWARD}`] } };
+        const { registry: updated } = updateSlugRegistry(registry, [{ 'CDS Code': HAYWARD, slug: `hayward-unified-${HAYWARD}` }]);
+        expect(updated[HAYWARD]).toEqual({ current: `hayward-unified-${HAYWARD}`, previous: [`hayward-usd-${HAYWARD}`] });
+    });
+
+    it('should keep entries of districts missing from the run', () => {
+        const registry = { [CHICO]: { current: `chico-unified-${CHICO}`, previous: [] } };
+        const { registry: updated, added, changes } = updateSlugRegistry(registry, []);
+        expect(updated).toEqual(registry);
+        expect(added).toBe(0);
+        expect(changes).toEqual([]);
+    });
+});
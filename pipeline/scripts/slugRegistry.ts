@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import type { SlugRegistry } from '../../src/scripts/types.js';
+
+// A district whose slug changed between the committed registry and this run
+export interface SlugChange {
+    cdsCode: string;
+    from: string;
+    to: string;
+}
+
+export interface SlugRegistryUpdate {
+    registry: SlugRegistry;
+    added: number;
+    changes: SlugChange[];
+}
+
+// A missing registry is an empty one: the first run records every current slug
+export function loadSlugRegistry(filePath: string): SlugRegistry {
+    if (!fs.existsSync(filePath)) return {};
+    return JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as SlugRegistry;
+}
+
+/**
+ * Records the slug of every district page built in this run. When a district's slug changed
+ * (usually a rename in the CDE data) the old one moves to `previous` so its URL keeps working.
+ * Entries of districts missing from this run are kept: their slugs stay reserved. Keys are
+ * sorted so the committed file diffs cleanly.
+ */
+export function updateSlugRegistry(
+    registry: SlugRegistry,
+    districts: { 'CDS Code'?: string; slug?: string }[]
+): SlugRegistryUpdate {
+    const updated: SlugRegistry = {};
+    for (const [cdsCode, entry] of Object.entries(registry)) {
+        updated[cdsCode] = { current: entry.current, previous: [...entry.previous] };
+    }
+
+    let added = 0;
+    const changes: SlugChange[] = [];
+    for (const district of districts) {
+        const cdsCode = district['CDS Code'];
+        const slug = district.slug;
+        if (!cdsCode || !slug) continue;
+
+        const entry = updated[cdsCode];
+        if (!entry) {
+            updated[cdsCode] = { current: slug, previous: [] };
+            added++;
+        } else if (entry.current !== slug) {
+            changes.push({ cdsCode, from: entry.current, to: slug });
+            // Renamed back to an earlier name: that slug becomes current again
+            entry.previous = [...entry.previous.filter(previous => previous !== slug), entry.current];
+            entry.current = slug;
+        }
+    }
+
+    const sorted: SlugRegistry = {};
+    for (const cdsCode of Object.keys(updated).sort()) sorted[cdsCode] = updated[cdsCode];
+    return { registry: sorted, added, changes };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { DistrictDetails, SchoolDetails } from '../../src/scripts/types';
+import { buildChangeLog, diffDataAssets } from './snapshotDiff';
+
+const HAYWARD = '01611920000000';
+const CHICO = '04615310000000';
+
+const district = (cdsCode: string, name: string, overrides: Partial<DistrictDetails> = {}) => ({
+    'CDS Code': cdsCode,
+    District: name,
+    'Street Address': '24411 Amador St.',
+    'Street City': 'Hayward',
+    'Street State': 'CA',
+    'Street Zip': '94544',
+    Phone: '(510) 784-2600',
+    Website: 'www.husd.us',
+    'Low Grade': 'K',
+    'High Grade': '12',
+    Latitude: '37.6532',
+    Longitude: '-122.0778',
+    slug: `${name.toLowerCase().replace(/ /g, '-')}-${cdsCode}`,
+    ...overrides,
+}) as DistrictDetails;
+
+const school = (cdsCode: string, name: string, overrides: Partial<SchoolDetails> = {}) => ({
+    'CDS Code': cdsCode,
+    School: name,
+    'Street Address': '1633 East Ave.',
+    'Street City': 'Hayward',
+    'Street State': 'CA',
+    'Street Zip': '94541',
+    Phone: 'No Data',
+    Website: 'No Data',
+    'Low Grade': '9',
+    'High Grade': '12',
+    Latitude: 37.67,
+    Longitude: -122.07,
+    ...overrides,
+}) as SchoolDetails;
+
+const before = {
+    districts: { [HAYWARD]: district(HAYWARD, 'Hayward Unified'), [CHICO]: district(CHICO, 'Chico Unified') },
+    schoolsByDistrict: {
+        [HAYWARD]: [school('01611920100001', 'Hayward High'), school('01611920100002', 'Tennyson High')],
+        [CHICO]: [school('04615310100001', 'Chico High')],
+    },
+};
+
+describe('snapshotDiff', () => {
+    it('should report nothing when the builds are the same', () => {
+        expect(diffDataAssets(before, structuredClone(before))).toEqual({ summary: {}, districts: {} });
+    });
+
+    it('should report new, removed and changed records grouped by district', () => {
+        const after = {
+            districts: {
+                [HAYWARD]: district(HAYWARD, 'Hayward Unified', { Website: 'https://www.husd.us', 'Street Address': '24411 Amador Street' }),
+                [CHICO]: district(CHICO, 'Chico Unified'),
+            },
+            schoolsByDistrict: {
+                [HAYWARD]: [
+                    school('01611920100001', 'Hayward High School', { Latitude: 37.68 }),
+                    school('01611920100003', 'Golden Oak Montessori'),
+                ],
+                [CHICO]: [school('04615310100001', 'Chico High', { Latitude: 37.6702 })],
+            },
+        };
+        const { summary, districts } = diffDataAssets(before, after);
+
+        expect(summary).toEqual({ website: 1, renamed: 1, moved: 1, added: 1, removed: 1 });
+        // Chico High moved by about 20 m, below the reporting threshold
+        expect(Object.keys(districts)).toEqual([HAYWARD]);
+        expect(districts[HAYWARD].slug).toBe(`hayward-unified-${HAYWARD}`);
+        expect(districts[HAYWARD].changes).toEqual([
+            // "Amador St." and "Amador Street" are the same standardized address
+            { kind: 'website', entity: 'district', cdsCode: HAYWARD, name: 'Hayward Unified', from: 'www.husd.us', to: 'https://www.husd.us' },
+            { kind: 'added', entity: 'school', cdsCode: '01611920100003', name: 'Golden Oak Montessori' },
+            { kind: 'removed', entity: 'school', cdsCode: '01611920100002', name: 'Tennyson High' },
+            { kind: 'renamed', entity: 'school', cdsCode: '01611920100001', name: 'Hayward High School', from: 'Hayward High', to: 'Hayward High School' },
+            { kind: 'moved', entity: 'school', cdsCode: '01611920100001', name: 'Hayward High School', distanceMeters: 1112 },
+        ]);
+    });
+
+    it('should file a removed district and its schools under the district, without a page link', () => {
+        const after = { districts: { [HAYWARD]: before.districts[HAYWARD] }, schoolsByDistrict: { [HAYWARD]: before.schoolsByDistrict[HAYWARD] } };
+        const { districts } = diffDataAssets(before, after);
+        expect(districts[CHICO]).toEqual({
+            name: 'Chico Unified',
+            slug: null,
+            changes: [
+                { kind: 'removed', entity: 'district', cdsCode: CHICO, name: 'Chico Unified' },
+                { kind: 'removed', entity: 'school', cdsCode: '04615310100001', name: 'Chico High' },
+            ],
+        });
+    });
+
+    it('should not list every record as new on the first build', () => {
+        const builds = { from: null, to: { snapshotId: '3f2a9c1d0b4e', dataDate: '2024-06-20' } };
+        expect(buildChangeLog(null, before, builds, new Date('2024-06-21T08:00:00Z'))).toEqual({
+            generatedAt: '2024-06-21T08:00:00.000Z',
+            from: null,
+            to: builds.to,
+            summary: {},
+            districts: {},
+        });
+    });
+});
@@ -0,0 +1,145 @@
+import { formatAddress } from '../../src/scripts/addressStandardizer.js';
+import type { ChangeLogBuild, DataChange, DataChangeKind, DataChangeLog, DistrictChangeSection, DistrictDataMap, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+import { pointDistanceMeters } from './geometry.js';
+
+// districts.json and schools_by_district.json as written by one build
+export interface DataAssetSnapshot {
+    districts: DistrictDataMap;
+    schoolsByDistrict: SchoolsByDistrictMap;
+}
+
+// Re-geocoding the same address moves a point by a few metres; smaller moves are not reported
+export const MOVE_THRESHOLD_METERS = 100;
+
+// Order of changes within a district section
+const KIND_ORDER: DataChangeKind[] = ['added', 'removed', 'renamed', 'address', 'moved', 'website', 'phone', 'grades'];
+
+type DirectoryRecord = DistrictDataMap[string] | SchoolsByDistrictMap[string][number];
+
+// Compared as displayed, so reformatting the same address is not a change
+const TRACKED_FIELDS: { kind: DataChangeKind; value: (record: DirectoryRecord) => string }[] = [
+    { kind: 'address', value: record => formatAddress(record['Street Address'], record['Street City'], record['Street State'], record['Street Zip']) },
+    { kind: 'website', value: record => String(record.Website ?? '').trim() },
+    { kind: 'phone', value: record => String(record.Phone ?? '').trim() },
+    { kind: 'grades', value: record => `${record['Low Grade'] ?? ''}-${record['High Grade'] ?? ''}` },
+];
+
+const recordName = (record: DirectoryRecord): string =>
+    ('District' in record ? record.District : record.School) || record['CDS Code'];
+
+function coordinates(record: DirectoryRecord): [number, number] | null {
+    const lat = Number(record.Latitude);
+    const lon = Number(record.Longitude);
+    if (record.Latitude === '' || record.Longitude === '' || !Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+    return [lon, lat];
+}
+
+function compareRecords(before: DirectoryRecord, after: DirectoryRecord, entity: DataChange['entity'], moveThresholdMeters: number): DataChange[] {
+    const cdsCode = after['CDS Code'];
+    const name = recordName(after);
+    const changes: DataChange[] = [];
+    const previousName = recordName(before);
+    if (previousName !== name) changes.push({ kind: 'renamed', entity, cdsCode, name, from: previousName, to: name });
+    for (const field of TRACKED_FIELDS) {
+        const from = field.value(before);
+        const to = field.value(after);
+        if (from !== to) changes.push({ kind: field.kind, entity, cdsCode, name, from, to });
+    }
+    const [fromPoint, toPoint] = [coordinates(before), coordinates(after)];
+    if (fromPoint && toPoint) {
+        const distanceMeters = Math.round(pointDistanceMeters(fromPoint[0], fromPoint[1], toPoint[0], toPoint[1]));
+        if (distanceMeters >= moveThresholdMeters) changes.push({ kind: 'moved', entity, cdsCode, name, distanceMeters });
+    }
+    return changes;
+}
+
+function diffRecords(
+    before: { [cdsCode: string]: DirectoryRecord },
+    after: { [cdsCode: string]: DirectoryRecord },
+    entity: DataChange['entity'],
+    moveThresholdMeters: number
+): DataChange[] {
+    const changes: DataChange[] = [];
+    for (const [cdsCode, record] of Object.entries(after)) {
+        const previous = before[cdsCode];
+        if (!previous) changes.push({ kind: 'added', entity, cdsCode, name: recordName(record) });
+        else changes.push(...compareRecords(previous, record, entity, moveThresholdMeters));
+    }
+    for (const [cdsCode, record] of Object.entries(before)) {
+        if (!after[cdsCode]) changes.push({ kind: 'removed', entity, cdsCode, name: recordName(record) });
+    }
+    return changes;
+}
+
+// Schools keyed by CDS code, remembering the district group each one is listed under
+function indexSchools(schoolsByDistrict: SchoolsByDistrictMap): { schools: { [cdsCode: string]: DirectoryRecord }; districtOf: Map<string, string> } {
+    const schools: { [cdsCode: string]: DirectoryRecord } = {};
+    const districtOf = new Map<string, string>();
+    for (const [districtCdsCode, list] of Object.entries(schoolsByDistrict)) {
+        for (const school of list) {
+            schools[school['CDS Code']] = school;
+            districtOf.set(school['CDS Code'], districtCdsCode);
+        }
+    }
+    return { schools, districtOf };
+}
+
+/**
+ * Everything that changed between two builds, grouped by district. A school is filed under the
+ * district it is listed under in the newer build (the older one for removed schools), so a
+ * district's section covers its own record and its schools.
+ */
+export function diffDataAssets(
+    before: DataAssetSnapshot,
+    after: DataAssetSnapshot,
+    moveThresholdMeters = MOVE_THRESHOLD_METERS
+): Pick<DataChangeLog, 'summary' | 'districts'> {
+    const beforeSchools = indexSchools(before.schoolsByDistrict);
+    const afterSchools = indexSchools(after.schoolsByDistrict);
+    const changes = [
+        ...diffRecords(before.districts, after.districts, 'district', moveThresholdMeters),
+        ...diffRecords(beforeSchools.schools, afterSchools.schools, 'school', moveThresholdMeters),
+    ];
+
+    const sections = new Map<string, DistrictChangeSection>();
+    const summary: DataChangeLog['summary'] = {};
+    for (const change of changes) {
+        const districtCdsCode = change.entity === 'district'
+            ? change.cdsCode
+            : (afterSchools.districtOf.get(change.cdsCode) ?? beforeSchools.districtOf.get(change.cdsCode))!;
+        let section = sections.get(districtCdsCode);
+        if (!section) {
+            const district = after.districts[districtCdsCode] ?? before.districts[districtCdsCode];
+            section = {
+                name: district ? recordName(district) : districtCdsCode,
+                slug: after.districts[districtCdsCode]?.slug || null,
+                changes: [],
+            };
+            sections.set(districtCdsCode, section);
+        }
+        section.changes.push(change);
+        summary[change.kind] = (summary[change.kind] ?? 0) + 1;
+    }
+
+    const districts: DataChangeLog['districts'] = {};
+    const sorted = [...sections.entries()].sort(([, a], [, b]) => a.name.localeCompare(b.name, 'en'));
+    for (const [cdsCode, section] of sorted) {
+        section.changes.sort((a, b) =>
+            (a.entity === b.entity ? 0 : a.entity === 'district' ? -1 : 1)
+            || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+            || a.name.localeCompare(b.name, 'en'));
+        districts[cdsCode] = section;
+    }
+    return { summary, districts };
+}
+
+// Without an earlier build the change log is empty rather than listing every record as added
+export function buildChangeLog(
+    before: DataAssetSnapshot | null,
+    after: DataAssetSnapshot,
+    builds: { from: ChangeLogBuild | null; to: ChangeLogBuild },
+    generatedAt = new Date()
+): DataChangeLog {
+    const { summary, districts } = before ? diffDataAssets(before, after) : { summary: {}, districts: {} };
+    return { generatedAt: generatedAt.toISOString(), from: before ? builds.from : null, to: builds.to, summary, districts };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CdeDirectoryExportAdapter, CdePublicSchoolsAdapter, createSourceAdapter, splitGradeSpan, toDirectoryRecord } from './sourceAdapters';
+
+const PUBSCHLS_HEADER = Object.keys(JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'pipeline/config/cde-public-schools-mappings.json'), 'utf8')).mappings[0].columns);
+
+const pubschlsRow = (values: { [header: string]: string }) => PUBSCHLS_HEADER.map(h => values[h] ?? 'No Data').join('\t');
+
+describe('sourceAdapters', () => {
+    describe('splitGradeSpan', () => {
+        it('should split grade spans into low and high grades', () => {
+            expect(splitGradeSpan('K-12')).toEqual(['K', '12']);
+            expect(splitGradeSpan('9')).toEqual(['9', '9']);
+            expect(splitGradeSpan('No Data')).toEqual(['No Data', 'No Data']);
+        });
+    });
+
+    describe('toDirectoryRecord', () => {
+        it('should derive the record type from the CDS code and ownership code', () => {
+            expect(toDirectoryRecord({ 'CDS Code': '01611920000000', 'DOC Code': '54' })['Record Type']).toBe('District');
+            expect(toDirectoryRecord({ 'CDS Code': '01100170000000', 'DOC Code': '00' })['Record Type']).toBe('County Office');
+            expect(toDirectoryRecord({ 'CDS Code': '01611920130229', 'DOC Code': '54' })).toMatchObject({ 'Record Type': 'School', 'Public Yes/No': 'Y' });
+        });
+    });
+
+    describe('CdePublicSchoolsAdapter', () => {
+        let tmpDir: string;
+
+        beforeEach(() => {
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-adapters-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        it('should read pubschls.txt into directory export records', () => {
+            const filePath = path.join(tmpDir, 'pubschls.txt');
+            fs.writeFileSync(filePath, [
+                PUBSCHLS_HEADER.join('\t'),
+                pubschlsRow({ CDSCode: '01611920000000', StatusType: 'Active', County: 'Alameda', District: 'Hayward Unified', DOC: '54', DOCType: 'Unified School District', GSoffered: 'K-12', NCESDist: '0616740' }),
+                pubschlsRow({ CDSCode: '01611920130229', StatusType: 'Active', County: 'Alameda', District: 'Hayward Unified', School: 'Hayward "Farmers" High', Street: '1633 East Ave.', City: 'Hayward', State: 'CA', DOC: '54', SOCType: 'High Schools (Public)', Charter: 'N', GSoffered: '9-12' }),
+            ].join('\n'));
+
+            const table = new CdePublicSchoolsAdapter(filePath).read();
+            expect(table.version).toBe('cde-pubschls-v1');
+            expect(table.records[0]).toMatchObject({ 'Record Type': 'District', 'Entity Type': 'Unified School District', 'Low Grade': 'K', 'High Grade': '12', 'Federal District ID': '0616740' });
+            expect(table.records[1]).toMatchObject({
+                'Record Type': 'School',
+                'School': 'Hayward "Farmers" High',
+                'Street Address': '1633 East Ave.',
+                'Street City': 'Hayward',
+                'SOC Type': 'High Schools (Public)',
+                'Charter Yes/No': 'N',
+                'Low Grade': '9',
+                'High Grade': '12',
+            });
+        });
+    });
+
+    describe('createSourceAdapter', () => {
+        it('should select the adapter from configuration', () => {
+            expect(createSourceAdapter({})).toBeInstanceOf(CdeDirectoryExportAdapter);
+            const adapter = createSourceAdapter({ DATA_SOURCE: 'cde-public-schools', DATA_SOURCE_FILE: '/data/pubschls.txt' });
+            expect(adapter).toBeInstanceOf(CdePublicSchoolsAdapter);
+            expect(adapter.inputPath).toBe('/data/pubschls.txt');
+            expect(() => createSourceAdapter({ DATA_SOURCE: 'bogus' })).toThrow(/Unknown DATA_SOURCE/);
+            expect(() => createSourceAdapter({ PUBLIC_STATE_PROFILE: 'zz' })).toThrow(/Unknown state profile "zz"/);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'csv-parse/sync';
+import { REQUIRED_COLUMNS, SourceTable, loadColumnMappings, mapSourceRows } from '../columnMapping.js';
+import { resolveStateProfile } from '../../../src/scripts/stateProfile.js';
+
+/**
+ * An input format for generateDistrictJson.ts. Adapters produce records keyed by the column
+ * names of the CDE School Directory export ('CDS Code', 'Record Type', 'Street Address', ...)
+ * so everything downstream of parsing is shared.
+ */
+export interface SourceAdapter {
+    readonly name: string;
+    // Shown with the data snapshot (see dataSnapshot.ts)
+    readonly label: string;
+    readonly sourceUrl: string;
+    readonly inputPath: string;
+    // Shown when the input file is missing
+    readonly missingInputHint: string;
+    // Columns beyond the common set that this source fills in and the output keeps
+    readonly extraDistrictColumns: string[];
+    readonly extraSchoolColumns: string[];
+    read(): SourceTable;
+}
+
+export type SourceAdapterType = 'cde-directory-export' | 'cde-public-schools';
+
+const CONFIG_DIR = path.resolve(process.cwd(), 'pipeline', 'config');
+const DEFAULT_DIRECTORY_EXPORT_PATH = path.resolve(process.cwd(), 'dist', 'pipeline', 'data', 'School and District Data.csv');
+const DEFAULT_PUBLIC_SCHOOLS_PATH = path.resolve(process.cwd(), 'pipeline', 'data', 'pubschls.txt');
+
+// --- CDE School Directory export (CDESchoolDirectoryExport.xlsx converted to CSV) ---
+export class CdeDirectoryExportAdapter implements SourceAdapter {
+    readonly name = 'cde-directory-export';
+    readonly label = 'CDE School Directory export';
+    readonly sourceUrl = 'https://www.cde.ca.gov/SchoolDirectory/ExportSelect';
+    readonly missingInputHint = 'Please ensure you have run the XLSX to CSV conversion first (`pnpm run convert:xlsx`).';
+    readonly extraDistrictColumns: string[] = [];
+    readonly extraSchoolColumns: string[] = [];
+
+    constructor(
+        readonly inputPath: string = DEFAULT_DIRECTORY_EXPORT_PATH,
+        private readonly mappingsPath: string = path.join(CONFIG_DIR, 'cde-column-mappings.json')
+    ) { }
+
+    read(): SourceTable {
+        const rows: string[][] = parse(fs.readFileSync(this.inputPath, { encoding: 'utf8' }), { skip_empty_lines: true, trim: true, relax_column_count: true });
+        return mapSourceRows(rows, loadColumnMappings(this.mappingsPath));
+    }
+}
+
+// --- CDE Public Schools and Districts data file (pubschls.txt, tab-delimited) ---
+
+// Columns the public schools mapping must provide; the rest of REQUIRED_COLUMNS is derived below
+const PUBLIC_SCHOOLS_DERIVED_COLUMNS = ['Record Type', 'Low Grade', 'High Grade', 'Public Yes/No'];
+const PUBLIC_SCHOOLS_REQUIRED_COLUMNS = [
+    ...REQUIRED_COLUMNS.filter(column => !PUBLIC_SCHOOLS_DERIVED_COLUMNS.includes(column)),
+    'DOC Code',
+    'Grades Offered',
+];
+
+// District Ownership Code of county offices of education
+const COUNTY_OFFICE_DOC = '00';
+
+// "K-12" → ['K', '12'], "9" → ['9', '9'], "No Data" → ['No Data', 'No Data']
+export function splitGradeSpan(span: string | undefined): [string, string] {
+    const value = (span || '').trim();
+    if (value === '' || value === 'No Data') return ['No Data', 'No Data'];
+    const [low, high] = value.split('-').map(part => part.trim());
+    return [low, high || low];
+}
+
+/**
+ * Fills in the directory-export columns pubschls.txt does not have. District and county office
+ * rows are recognised by a CDS code ending in seven zeros; every row in the file is public.
+ */
+export function toDirectoryRecord(record: { [column: string]: string }): { [column: string]: string } {
+    const cdsCode = record['CDS Code'] || '';
+    const isDistrictLevel = /^\d{7}0000000$/.test(cdsCode);
+    const [lowGrade, highGrade] = splitGradeSpan(record['Grades Offered']);
+    return {
+        ...record,
+        'Record Type': isDistrictLevel ? (record['DOC Code'] === COUNTY_OFFICE_DOC ? 'County Office' : 'District') : 'School',
+        'Low Grade': lowGrade,
+        'High Grade': highGrade,
+        'Public Yes/No': 'Y',
+    };
+}
+
+export class CdePublicSchoolsAdapter implements SourceAdapter {
+    readonly name = 'cde-public-schools';
+    readonly label = 'CDE Public Schools and Districts data file';
+    readonly sourceUrl = 'https://www.cde.ca.gov/ds/si/ds/pubschls.asp';
+    readonly missingInputHint = 'Download pubschls.txt from the CDE "Public Schools and Districts Data Files" page into pipeline/data/.';
+    readonly extraDistrictColumns = ['Federal District ID'];
+    readonly extraSchoolColumns = ['Federal District ID', 'Federal School ID', 'SOC Type'];
+
+    constructor(
+        readonly inputPath: string = DEFAULT_PUBLIC_SCHOOLS_PATH,
+        private readonly mappingsPath: string = path.join(CONFIG_DIR, 'cde-public-schools-mappings.json')
+    ) { }
+
+    read(): SourceTable {
+        const rows: string[][] = parse(fs.readFileSync(this.inputPath, { encoding: 'utf8' }), {
+            delimiter: '\t',
+            skip_empty_lines: true,
+            trim: true,
+            relax_column_count: true,
+            quote: false, // Free-text fields contain bare quotes; the file never quotes tabs
+        });
+        const table = mapSourceRows(rows, loadColumnMappings(this.mappingsPath), PUBLIC_SCHOOLS_REQUIRED_COLUMNS);
+        return { ...table, records: table.records.map(toDirectoryRecord) };
+    }
+}
+
+/**
+ * Builds the source adapter selected via DATA_SOURCE among those of the state profile (default:
+ * the profile's default, the directory export for California). DATA_SOURCE_FILE overrides the
+ * adapter's default input path.
+ */
+export function createSourceAdapter(env: { [key: string]: string | undefined } = process.env): SourceAdapter {
+    const { name, dataSources } = resolveStateProfile(env.PUBLIC_STATE_PROFILE);
+    const type = (env.DATA_SOURCE || dataSources.default).toLowerCase() as SourceAdapterType;
+    if (!dataSources.available.includes(type)) {
+        throw new Error(`Unknown DATA_SOURCE "${env.DATA_SOURCE}" for ${name}. Expected one of: ${dataSources.available.join(', ')}.`);
+    }
+    switch (type) {
+        case 'cde-directory-export':
+            return new CdeDirectoryExportAdapter(env.DATA_SOURCE_FILE || DEFAULT_DIRECTORY_EXPORT_PATH);
+        case 'cde-public-schools':
+            return new CdePublicSchoolsAdapter(env.DATA_SOURCE_FILE || DEFAULT_PUBLIC_SCHOOLS_PATH);
+        default:
+            throw new Error(`No source adapter reads DATA_SOURCE "${type}" yet.`);
+    }
+}
@@ -1,9 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Feature, FeatureCollection, GeoJsonObject } from 'geojson';
+import { Feature, FeatureCollection } from 'geojson';
+import type { BoundaryLayerKey } from '../../src/scripts/types.js';
+import { AreaGeometry, toWgs84 } from './geometry.js';
+import { roundGeometry, simplifyBoundaries } from './boundarySimplification.js';
+import { buildTopology } from './topology.js';
+import { BOUNDARY_LAYER_INDEX_FILE, BOUNDARY_LEVELS, BOUNDARY_TOPOLOGY_FILE, boundaryFileName } from '../../src/scripts/boundaryLevels.js';
+import { BOUNDARY_LAYERS, boundaryLayerOf } from '../../src/scripts/districtOverlaps.js';
+import { resolveStateProfile } from '../../src/scripts/stateProfile.js';
 
 // --- Configuration ---
-const INPUT_GEOJSON_FILENAME = 'DistrictAreas2324_-3875917646802882317.geojson'; // Updated filename
+const INPUT_GEOJSON_FILENAME = resolveStateProfile(process.env.PUBLIC_STATE_PROFILE).boundarySource.file;
 
 // Path to the input file in the project root
 const INPUT_GEOJSON_PATH = path.resolve(process.cwd(), INPUT_GEOJSON_FILENAME);
@@ -12,6 +19,8 @@ const OUTPUT_DIR = path.resolve(process.cwd(), 'public', 'assets', 'boundaries')
 
 // !! IMPORTANT: Verify this property name matches your actual GeoJSON !!
 const DISTRICT_ID_PROPERTY = 'CDSCode'; // Or CDScode, CDS_CODE, GEOID etc.
+// "Elementary", "High" or "Unified"; elementary and high school districts overlap
+const DISTRICT_TYPE_PROPERTY = 'DistrictType';
 // ---
 
 function splitBoundaries(): void {
@@ -35,7 +44,10 @@ function splitBoundaries(): void {
             fs.mkdirSync(OUTPUT_DIR, { recursive: true });
         }
 
-        let count = 0;
+        // Reproject once; the source file is in Web Mercator and the maps draw in WGS84
+        const features = new Map<string, Feature>();
+        const areas: { [districtId: string]: AreaGeometry } = {};
+        const layerIndex: { [districtId: string]: BoundaryLayerKey } = {};
         for (const feature of fullFeatureCollection.features) {
             const districtId = feature.properties?.[DISTRICT_ID_PROPERTY];
 
@@ -44,30 +56,65 @@ function splitBoundaries(): void {
                 continue;
             }
 
-            // Create a new GeoJSON object containing only this single feature
-            // While just saving the feature might work, wrapping it makes it valid standalone GeoJSON
-            const singleFeatureGeoJson: Feature = {
-                type: 'Feature',
-                properties: feature.properties,
-                geometry: feature.geometry
-            };
-
-            // Sanitize ID for filename if necessary (replace slashes, etc.) - Basic example
-            const filename = `${String(districtId).replace(/[^a-zA-Z0-9_-]/g, '_')}.geojson`;
-            const outputFilePath = path.join(OUTPUT_DIR, filename);
-
-            try {
-                fs.writeFileSync(outputFilePath, JSON.stringify(singleFeatureGeoJson)); // No pretty print for smaller size
-                count++;
-                if (count % 100 === 0) {
-                    process.stdout.write(`.`); // Progress indicator
+            const geometry = feature.geometry;
+            if (geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon')) {
+                areas[String(districtId)] = toWgs84(geometry);
+            }
+            features.set(String(districtId), feature);
+            const layer = boundaryLayerOf(feature.properties?.[DISTRICT_TYPE_PROPERTY]);
+            if (layer) layerIndex[String(districtId)] = layer;
+            else console.warn(`District ${districtId} has no boundary layer for type "${feature.properties?.[DISTRICT_TYPE_PROPERTY]}".`);
+        }
+
+        // Each level is rounded and simplified across all districts at once so neighbours keep
+        // sharing the same border
+        let count = 0;
+        let simplified: { [districtId: string]: AreaGeometry } = {};
+        for (const level of BOUNDARY_LEVELS) {
+            const rounded: { [districtId: string]: AreaGeometry } = {};
+            for (const [districtId, geometry] of Object.entries(areas)) {
+                rounded[districtId] = roundGeometry(geometry, level.precision) || geometry;
+            }
+            simplified = simplifyBoundaries(rounded, level.tolerance);
+
+            for (const [districtId, feature] of features) {
+                // Create a new GeoJSON object containing only this single feature
+                // While just saving the feature might work, wrapping it makes it valid standalone GeoJSON
+                const singleFeatureGeoJson: Feature = {
+                    type: 'Feature',
+                    properties: feature.properties,
+                    geometry: simplified[districtId] || feature.geometry
+                };
+
+                const outputFilePath = path.join(OUTPUT_DIR, boundaryFileName(districtId, level));
+
+                try {
+                    fs.writeFileSync(outputFilePath, JSON.stringify(singleFeatureGeoJson)); // No pretty print for smaller size
+                    count++;
+                    if (count % 100 === 0) {
+                        process.stdout.write(`.`); // Progress indicator
+                    }
+                } catch (writeError) {
+                    console.error(`\nError writing file ${outputFilePath}:`, writeError);
                 }
-            } catch (writeError) {
-                console.error(`\nError writing file ${outputFilePath}:`, writeError);
             }
         }
 
-        console.log(`\nSuccessfully split and wrote ${count} district boundary files to ${OUTPUT_DIR}`);
+        // All boundaries at the least detailed level as one topology with an object per layer,
+        // for the statewide map; shared borders are stored once
+        const layerObjects: { [layer: string]: { [districtId: string]: AreaGeometry } } = {};
+        for (const { key } of BOUNDARY_LAYERS) layerObjects[key] = {};
+        for (const [districtId, layer] of Object.entries(layerIndex)) {
+            if (simplified[districtId]) layerObjects[layer][districtId] = simplified[districtId];
+        }
+        const topology = buildTopology(layerObjects);
+        const topologyJson = JSON.stringify(topology);
+        fs.writeFileSync(path.join(OUTPUT_DIR, BOUNDARY_TOPOLOGY_FILE), topologyJson);
+        const layerCounts = BOUNDARY_LAYERS.map(({ key }) => `${topology.objects[key].geometries.length} ${key}`);
+        fs.writeFileSync(path.join(OUTPUT_DIR, BOUNDARY_LAYER_INDEX_FILE), JSON.stringify(layerIndex, null, 2));
+
+        console.log(`\nSuccessfully split and wrote ${count} district boundary files (${features.size} districts, ${BOUNDARY_LEVELS.length} levels of detail) to ${OUTPUT_DIR}`);
+        console.log(`Boundary layers: ${layerCounts.join(', ')} (${BOUNDARY_TOPOLOGY_FILE}: ${topology.arcs.length} arcs, ${Math.round(topologyJson.length / 1024)} KB)`);
 
     } catch (error) {
         console.error(`Error processing GeoJSON:`, error);
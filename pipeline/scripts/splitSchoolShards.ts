@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatViolationReport, validateSchoolsByDistrictData } from '../../src/scripts/dataSchema.js';
+import { SCHOOL_SHARD_MANIFEST_FILE, SCHOOL_SHARDS_DIR } from '../../src/scripts/schoolShards.js';
+import type { SchoolsByDistrictMap } from '../../src/scripts/types.js';
+import { buildSchoolShards, staleShardFiles } from './schoolShards.js';
+
+// --- Configuration ---
+// Read after boundary validation, which adds the boundary and charter location fields
+const SCHOOLS_JSON_PATH = path.resolve(process.cwd(), 'public', 'assets', 'schools_by_district.json');
+// One file per district plus manifest.json, fetched by the index map on demand
+const OUTPUT_DIR = path.resolve(process.cwd(), 'public', 'assets', SCHOOL_SHARDS_DIR);
+// ---
+
+function splitSchoolShards(): void {
+    if (!fs.existsSync(SCHOOLS_JSON_PATH)) {
+        console.error(`Error: ${SCHOOLS_JSON_PATH} not found. Run \`pnpm run build:data\` first.`);
+        process.exit(1);
+    }
+
+    const schoolsByDistrict = JSON.parse(fs.readFileSync(SCHOOLS_JSON_PATH, { encoding: 'utf8' })) as SchoolsByDistrictMap;
+    const violations = validateSchoolsByDistrictData(schoolsByDistrict);
+    if (violations.length > 0) {
+        console.error(formatViolationReport('School data', violations));
+        process.exit(1);
+    }
+
+    const { manifest, shards } = buildSchoolShards(schoolsByDistrict);
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    for (const shard of shards) {
+        fs.writeFileSync(path.join(OUTPUT_DIR, shard.file), shard.content);
+    }
+    const stale = staleShardFiles(fs.readdirSync(OUTPUT_DIR), manifest, SCHOOL_SHARD_MANIFEST_FILE);
+    stale.forEach(file => fs.unlinkSync(path.join(OUTPUT_DIR, file)));
+    // Written last so it never lists a shard that is not there yet
+    fs.writeFileSync(path.join(OUTPUT_DIR, SCHOOL_SHARD_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    const schoolCount = Object.values(manifest).reduce((total, entry) => total + entry.count, 0);
+    const totalBytes = shards.reduce((total, shard) => total + Buffer.byteLength(shard.content), 0);
+    console.log(`Wrote ${shards.length} school shards (${schoolCount} schools, ${Math.round(totalBytes / 1024)} KB) to ${OUTPUT_DIR}`);
+    if (stale.length > 0) console.log(`Removed ${stale.length} stale shards.`);
+}
+
+splitSchoolShards();
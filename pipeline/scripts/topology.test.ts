@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+import { buildTopology } from './topology';
+import { topologyFeatures } from '../../src/scripts/topojson';
+
+const HAYWARD = '01611920000000';
+const CASTRO_VALLEY = '01611760000000';
+const SUNOL = '01612340000000';
+
+// Hayward and Castro Valley share the border x = -122.0; Sunol has an island and a lake
+const HAYWARD_BOUNDARY: Polygon = { type: 'Polygon', coordinates: [[[-122.2, 37.6], [-122.0, 37.6], [-122.0, 37.65], [-122.0, 37.7], [-122.2, 37.7], [-122.2, 37.6]]] };
+const CASTRO_VALLEY_BOUNDARY: Polygon = { type: 'Polygon', coordinates: [[[-122.0, 37.6], [-121.8, 37.6], [-121.8, 37.7], [-122.0, 37.7], [-122.0, 37.65], [-122.0, 37.6]]] };
+const SUNOL_BOUNDARY: MultiPolygon = {
+    type: 'MultiPolygon',
+    coordinates: [
+        [
+            [[-121.8, 37.5], [-121.6, 37.5], [-121.6, 37.6], [-121.8, 37.6], [-121.8, 37.5]],
+            [[-121.75, 37.52], [-121.75, 37.58], [-121.65, 37.58], [-121.65, 37.52], [-121.75, 37.52]],
+        ],
+        [[[-121.5, 37.5], [-121.4, 37.5], [-121.4, 37.55], [-121.5, 37.5]]],
+    ],
+};
+
+// Rings may start at another position; compare the distinct positions, rounded past the quantization step
+const positionsOf = (ring: Position[]) => ring.slice(0, -1).map(([x, y]) => `${x.toFixed(4)},${y.toFixed(4)}`).sort();
+
+describe('topology', () => {
+    it('should round-trip boundaries through TopoJSON', () => {
+        const topology = buildTopology({
+            unified: { [HAYWARD]: HAYWARD_BOUNDARY, [CASTRO_VALLEY]: CASTRO_VALLEY_BOUNDARY },
+            elementary: { [SUNOL]: SUNOL_BOUNDARY },
+        });
+
+        const unified = topologyFeatures(topology, 'unified').features;
+        expect(unified.map(feature => feature.id)).toEqual([HAYWARD, CASTRO_VALLEY]);
+        const [haywardRing] = (unified[0].geometry as Polygon).coordinates;
+        expect(haywardRing[0]).toEqual(haywardRing[haywardRing.length - 1]);
+        expect(positionsOf(haywardRing)).toEqual(positionsOf(HAYWARD_BOUNDARY.coordinates[0]));
+
+        const [sunol] = topologyFeatures(topology, 'elementary').features;
+        expect(sunol.geometry.type).toBe('MultiPolygon');
+        const [[outer, lake], [island]] = (sunol.geometry as MultiPolygon).coordinates;
+        expect(positionsOf(outer)).toEqual(positionsOf(SUNOL_BOUNDARY.coordinates[0][0]));
+        expect(positionsOf(lake)).toEqual(positionsOf(SUNOL_BOUNDARY.coordinates[0][1]));
+        expect(positionsOf(island)).toEqual(positionsOf(SUNOL_BOUNDARY.coordinates[1][0]));
+        expect(topologyFeatures(topology, 'high').features).toEqual([]);
+    });
+
+    it('should store a shared border once', () => {
+        const topology = buildTopology({ unified: { [HAYWARD]: HAYWARD_BOUNDARY, [CASTRO_VALLEY]: CASTRO_VALLEY_BOUNDARY } });
+        // The border from (-122.0, 37.6) to (-122.0, 37.7) plus each district's own side
+        expect(topology.arcs).toHaveLength(3);
+        const [hayward, castroValley] = topology.objects.unified.geometries;
+        const arcsOf = (geometry: typeof hayward) => (geometry.arcs as number[][]).flat();
+        const shared = arcsOf(hayward).filter(index => arcsOf(castroValley).includes(~index));
+        expect(shared).toHaveLength(1);
+        expect(topology.arcs.flat().every(([x, y]) => Number.isInteger(x) && Number.isInteger(y))).toBe(true);
+    });
+});
@@ -0,0 +1,95 @@
+import type { Position } from 'geojson';
+import type { Topology, TopologyGeometry } from '../../src/scripts/topojson.js';
+import { findJunctions, keyOf, splitRingAtJunctions } from './boundarySimplification.js';
+import { AreaGeometry, polygonsOf } from './geometry.js';
+
+// Positions per axis; 1e5 steps across California are about ten metres
+const DEFAULT_QUANTIZATION = 1e5;
+
+/**
+ * Encodes boundaries as one TopoJSON topology: `objects` maps an object name (a boundary layer)
+ * to the geometries in it, keyed by CDS code. Positions are quantized, and borders shared by
+ * neighbouring districts, across objects too, are stored once as arcs. Rings that collapse when
+ * quantized are dropped, and so are geometries left empty.
+ */
+export function buildTopology(
+    objects: { [objectName: string]: { [cdsCode: string]: AreaGeometry } },
+    quantization = DEFAULT_QUANTIZATION
+): Topology {
+    let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const geometries of Object.values(objects)) {
+        for (const geometry of Object.values(geometries)) {
+            for (const polygon of polygonsOf(geometry)) {
+                for (const ring of polygon) {
+                    for (const [x, y] of ring) {
+                        minX = Math.min(minX, x);
+                        minY = Math.min(minY, y);
+                        maxX = Math.max(maxX, x);
+                        maxY = Math.max(maxY, y);
+                    }
+                }
+            }
+        }
+    }
+    if (minX > maxX) [minX, minY, maxX, maxY] = [0, 0, 0, 0];
+    const kx = maxX > minX ? (maxX - minX) / (quantization - 1) : 1;
+    const ky = maxY > minY ? (maxY - minY) / (quantization - 1) : 1;
+
+    // Quantize first so neighbours that agree on a border agree on its integer positions too
+    const quantizeRing = (ring: Position[]): Position[] => {
+        const quantized: Position[] = [];
+        for (const [x, y] of ring) {
+            const point = [Math.round((x - minX) / kx), Math.round((y - minY) / ky)];
+            const last = quantized[quantized.length - 1];
+            if (!last || last[0] !== point[0] || last[1] !== point[1]) quantized.push(point);
+        }
+        return quantized;
+    };
+    const quantized: { [objectName: string]: { [cdsCode: string]: Position[][][] } } = {};
+    for (const [objectName, geometries] of Object.entries(objects)) {
+        quantized[objectName] = {};
+        for (const [cdsCode, geometry] of Object.entries(geometries)) {
+            const polygons: Position[][][] = [];
+            for (const [outer, ...holes] of polygonsOf(geometry)) {
+                const rings = [outer, ...holes].map(quantizeRing);
+                if (rings[0].length < 4) continue; // The outer ring collapsed
+                polygons.push(rings.filter(ring => ring.length >= 4));
+            }
+            if (polygons.length > 0) quantized[objectName][cdsCode] = polygons;
+        }
+    }
+
+    const junctions = findJunctions(Object.values(quantized).flatMap(geometries =>
+        Object.values(geometries).map((coordinates): AreaGeometry => ({ type: 'MultiPolygon', coordinates }))));
+
+    const arcs: Position[][] = [];
+    const arcIndexes = new Map<string, number>();
+    const arcIndexOf = (border: Position[]): number => {
+        const key = border.map(keyOf).join(';');
+        const existing = arcIndexes.get(key);
+        if (existing !== undefined) return existing;
+        const reversed = arcIndexes.get([...border].reverse().map(keyOf).join(';'));
+        if (reversed !== undefined) return ~reversed;
+        arcs.push(border);
+        arcIndexes.set(key, arcs.length - 1);
+        return arcs.length - 1;
+    };
+    const encodeRing = (ring: Position[]): number[] => splitRingAtJunctions(ring, junctions).map(arcIndexOf);
+
+    const topologyObjects: Topology['objects'] = {};
+    for (const [objectName, geometries] of Object.entries(quantized)) {
+        const encoded: TopologyGeometry[] = Object.entries(geometries).map(([cdsCode, polygons]) =>
+            polygons.length === 1
+                ? { type: 'Polygon', id: cdsCode, arcs: polygons[0].map(encodeRing) }
+                : { type: 'MultiPolygon', id: cdsCode, arcs: polygons.map(polygon => polygon.map(encodeRing)) });
+        topologyObjects[objectName] = { type: 'GeometryCollection', geometries: encoded };
+    }
+
+    return {
+        type: 'Topology',
+        transform: { scale: [kx, ky], translate: [minX, minY] },
+        arcs: arcs.map(arc => arc.map(([x, y], i): [number, number] =>
+            (i === 0 ? [x, y] : [x - arc[i - 1][0], y - arc[i - 1][1]]))),
+        objects: topologyObjects,
+    };
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BoundaryLayerKey, DistrictDataMap, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+import { BOUNDARY_LAYER_INDEX_FILE, BOUNDARY_LEVELS } from '../../src/scripts/boundaryLevels.js';
+import { collectOutsideBoundaryRecords, formatDistance } from '../../src/scripts/boundaryReview.js';
+import { formatViolationReport, validateDistrictsData, validateSchoolsByDistrictData } from '../../src/scripts/dataSchema.js';
+import { applyBoundaryValidation, createBoundaryFileLoader } from './boundaryValidation.js';
+import { applyCharterLocations } from './charters.js';
+import { applyDistrictOverlaps } from './boundaryOverlaps.js';
+import { listBoundaryCdsCodes, reconcileBoundaryCoverage } from './boundaryCoverage.js';
+import { resolveStateProfile } from '../../src/scripts/stateProfile.js';
+
+// --- Configuration ---
+const DISTRICTS_JSON_PATH = path.resolve(process.cwd(), 'public', 'assets', 'districts.json');
+const SCHOOLS_JSON_PATH = path.resolve(process.cwd(), 'public', 'assets', 'schools_by_district.json');
+const BOUNDARIES_DIR = path.resolve(process.cwd(), 'public', 'assets', 'boundaries');
+// Districts without a boundary and boundaries without a district
+const COVERAGE_REPORT_PATH = path.resolve(process.cwd(), 'pipeline', 'reports', 'boundary-coverage.json');
+const MAX_LISTED = 50;
+// Overlaps are measured on the ~100 m level; differences along shared borders are below that
+const OVERLAP_LEVEL = BOUNDARY_LEVELS[2];
+// ---
+
+function validateBoundaries(): void {
+    for (const requiredPath of [DISTRICTS_JSON_PATH, SCHOOLS_JSON_PATH, BOUNDARIES_DIR]) {
+        if (!fs.existsSync(requiredPath)) {
+            console.error(`Error: ${requiredPath} not found. Run \`pnpm run build:data\` and \`pnpm run build:boundaries\` first.`);
+            process.exit(1);
+        }
+    }
+
+    const districts = JSON.parse(fs.readFileSync(DISTRICTS_JSON_PATH, { encoding: 'utf8' })) as DistrictDataMap;
+    const schoolsByDistrict = JSON.parse(fs.readFileSync(SCHOOLS_JSON_PATH, { encoding: 'utf8' })) as SchoolsByDistrictMap;
+
+    console.log(`Checking district offices and schools against boundaries in ${BOUNDARIES_DIR}...`);
+    const loadBoundary = createBoundaryFileLoader(BOUNDARIES_DIR);
+    const summary = applyBoundaryValidation(districts, schoolsByDistrict, loadBoundary);
+    console.log(`Locating charter schools within district boundaries...`);
+    const charterSummary = applyCharterLocations(districts, schoolsByDistrict, loadBoundary);
+    console.log(`Finding overlapping elementary, high school and unified districts...`);
+    const layerIndexPath = path.join(BOUNDARIES_DIR, BOUNDARY_LAYER_INDEX_FILE);
+    const layerIndex = fs.existsSync(layerIndexPath)
+        ? JSON.parse(fs.readFileSync(layerIndexPath, { encoding: 'utf8' })) as { [cdsCode: string]: BoundaryLayerKey }
+        : {};
+    const overlapSummary = applyDistrictOverlaps(districts, layerIndex, createBoundaryFileLoader(BOUNDARIES_DIR, OVERLAP_LEVEL));
+
+    const violations = [...validateDistrictsData(districts), ...validateSchoolsByDistrictData(schoolsByDistrict)];
+    if (violations.length > 0) {
+        console.error(formatViolationReport('Boundary-validated data', violations));
+        process.exit(1);
+    }
+
+    fs.writeFileSync(DISTRICTS_JSON_PATH, JSON.stringify(districts, null, 2));
+    fs.writeFileSync(SCHOOLS_JSON_PATH, JSON.stringify(schoolsByDistrict, null, 2));
+
+    const coverage = reconcileBoundaryCoverage(districts, listBoundaryCdsCodes(BOUNDARIES_DIR, resolveStateProfile(process.env.PUBLIC_STATE_PROFILE).id.pattern), layerIndex);
+    fs.mkdirSync(path.dirname(COVERAGE_REPORT_PATH), { recursive: true });
+    fs.writeFileSync(COVERAGE_REPORT_PATH, JSON.stringify(coverage, null, 2));
+
+    console.log(`\n--- Boundary Validation Summary ---`);
+    console.log(`Districts with a boundary: ${summary.districtsWithBoundary} (${summary.districtsWithoutBoundary.length} without: ${coverage.summary.missing} missing, ${coverage.summary.notExpected} not expected to have one)`);
+    console.log(`Boundaries without a district: ${coverage.summary.boundariesWithoutDistrict}`);
+    console.log(`Records checked: ${summary.checked} (${summary.notChecked} skipped: no boundary or no coordinates)`);
+    console.log(`Records outside their district boundary: ${summary.outside}`);
+    console.log(`Charters located within a district boundary: ${charterSummary.located} (${charterSummary.notLocated} not located)`);
+    console.log(`Boundary layers: ${Object.entries(overlapSummary.layers).map(([layer, count]) => `${count} ${layer}`).join(', ')}; ${overlapSummary.overlapping} districts overlap another`);
+
+    const outside = collectOutsideBoundaryRecords(districts, schoolsByDistrict);
+    outside.slice(0, MAX_LISTED).forEach(record => {
+        console.warn(`  ! ${record.kind} ${record.cdsCode} ${record.name} (${record.districtName}, ${record.county}): ${formatDistance(record.distanceMeters)} outside`);
+    });
+    if (outside.length > MAX_LISTED) {
+        console.warn(`  ... and ${outside.length - MAX_LISTED} more. See /internal/boundary-review/ for the full list.`);
+    }
+    coverage.districtsWithoutBoundary.filter(entry => entry.expected).slice(0, MAX_LISTED).forEach(entry => {
+        console.warn(`  ! No boundary for ${entry.entityType} ${entry.cdsCode} ${entry.name} (${entry.county})`);
+    });
+    coverage.boundariesWithoutDistrict.slice(0, MAX_LISTED).forEach(entry => {
+        console.warn(`  ! Boundary ${entry.cdsCode}${entry.layer ? ` (${entry.layer})` : ''} has no district in districts.json`);
+    });
+    console.log(`Boundary coverage report written to: ${COVERAGE_REPORT_PATH}`);
+    console.log(`----------------------------------\n`);
+}
+
+validateBoundaries();
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CHANGE_LOG_ASSET, DATA_SNAPSHOT_ASSET, DISTRICTS_ASSET, SCHOOLS_ASSET, formatViolationReport, validateChangeLog } from '../../src/scripts/dataSchema.js';
+import type { ChangeLogBuild, DataSnapshot } from '../../src/scripts/types.js';
+import { buildChangeLog, DataAssetSnapshot } from './snapshotDiff.js';
+
+// --- Configuration ---
+const ASSETS_DIR = path.resolve(process.cwd(), 'public', 'assets');
+// Copies of the last two distinct builds' assets: `latest` is the current build once this has run,
+// `previous` the one before it, which the change log compares against
+const SNAPSHOTS_DIR = path.resolve(process.cwd(), 'pipeline', 'cache', 'snapshots');
+const LATEST_DIR = path.join(SNAPSHOTS_DIR, 'latest');
+const PREVIOUS_DIR = path.join(SNAPSHOTS_DIR, 'previous');
+const OUTPUT_PATH = path.join(ASSETS_DIR, CHANGE_LOG_ASSET);
+// Compared files; the data snapshot only labels the builds
+const SNAPSHOT_FILES = [DISTRICTS_ASSET, SCHOOLS_ASSET];
+
+// `--from <dir> --to <dir>` (or `--from=<dir>`) compare two saved builds instead of the last two
+const argValue = (name: string): string | undefined => {
+    const index = process.argv.findIndex(arg => arg === name || arg.startsWith(`${name}=`));
+    return index === -1 ? undefined : (process.argv[index].split('=')[1] ?? process.argv[index + 1]);
+};
+const FROM_DIR = argValue('--from');
+const TO_DIR = argValue('--to') ?? ASSETS_DIR;
+// ---
+
+const readJson = <T>(filePath: string): T => JSON.parse(fs.readFileSync(filePath, { encoding: 'utf8' })) as T;
+
+function readAssets(dir: string): DataAssetSnapshot {
+    return {
+        districts: readJson(path.join(dir, DISTRICTS_ASSET)),
+        schoolsByDistrict: readJson(path.join(dir, SCHOOLS_ASSET)),
+    };
+}
+
+function readBuild(dir: string): ChangeLogBuild {
+    const snapshotPath = path.join(dir, DATA_SNAPSHOT_ASSET);
+    if (!fs.existsSync(snapshotPath)) return { snapshotId: null, dataDate: null };
+    const snapshot = readJson<DataSnapshot>(snapshotPath);
+    return {
+        snapshotId: snapshot.id,
+        dataDate: snapshot.sources.find(source => source.kind === 'directory')?.exportDate ?? null,
+    };
+}
+
+const hasAssets = (dir: string) => SNAPSHOT_FILES.every(file => fs.existsSync(path.join(dir, file)));
+
+const sameAssets = (a: string, b: string) =>
+    SNAPSHOT_FILES.every(file => fs.readFileSync(path.join(a, file)).equals(fs.readFileSync(path.join(b, file))));
+
+function copyAssets(fromDir: string, toDir: string): void {
+    fs.rmSync(toDir, { recursive: true, force: true });
+    fs.mkdirSync(toDir, { recursive: true });
+    for (const file of [...SNAPSHOT_FILES, DATA_SNAPSHOT_ASSET]) {
+        if (fs.existsSync(path.join(fromDir, file))) fs.copyFileSync(path.join(fromDir, file), path.join(toDir, file));
+    }
+}
+
+/**
+ * The build to compare against. Saving the current build only when its data differs from the
+ * last saved one keeps re-runs on the same data from comparing a build with itself.
+ */
+function baselineDir(): string | null {
+    if (FROM_DIR) return path.resolve(FROM_DIR);
+    if (hasAssets(LATEST_DIR) && !sameAssets(LATEST_DIR, TO_DIR)) {
+        copyAssets(LATEST_DIR, PREVIOUS_DIR);
+        copyAssets(TO_DIR, LATEST_DIR);
+    } else if (!hasAssets(LATEST_DIR)) {
+        copyAssets(TO_DIR, LATEST_DIR);
+    }
+    return hasAssets(PREVIOUS_DIR) ? PREVIOUS_DIR : null;
+}
+
+function writeChangeLog(): void {
+    if (!hasAssets(TO_DIR)) {
+        console.error(`Error: ${SNAPSHOT_FILES.join(' and ')} not found in ${TO_DIR}. Run \`pnpm run build:data\` first.`);
+        process.exit(1);
+    }
+    if (FROM_DIR && !hasAssets(FROM_DIR)) {
+        console.error(`Error: ${SNAPSHOT_FILES.join(' and ')} not found in ${FROM_DIR}.`);
+        process.exit(1);
+    }
+
+    const fromDir = baselineDir();
+    const changeLog = buildChangeLog(fromDir ? readAssets(fromDir) : null, readAssets(TO_DIR), {
+        from: fromDir ? readBuild(fromDir) : null,
+        to: readBuild(TO_DIR),
+    });
+    const violations = validateChangeLog(changeLog);
+    if (violations.length > 0) {
+        console.error(formatViolationReport('Change log', violations));
+        process.exit(1);
+    }
+    fs.writeFileSync(OUTPUT_PATH, JSON.stringify(changeLog, null, 2));
+
+    if (!fromDir) {
+        console.log(`No earlier build to compare with; wrote an empty change log to ${OUTPUT_PATH}`);
+        return;
+    }
+    const counts = Object.entries(changeLog.summary).map(([kind, count]) => `${count} ${kind}`);
+    console.log(`Compared with ${fromDir}: ${counts.length > 0 ? counts.join(', ') : 'no changes'} in ${Object.keys(changeLog.districts).length} districts.`);
+    console.log(`Wrote change log to ${OUTPUT_PATH}`);
+}
+
+writeChangeLog();
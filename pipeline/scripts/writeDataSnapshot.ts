@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_SNAPSHOT_ASSET, formatViolationReport, validateDataSnapshot } from '../../src/scripts/dataSchema.js';
+import { resolveStateProfile } from '../../src/scripts/stateProfile.js';
+import type { DistrictDataMap, HistoryData, SchoolsByDistrictMap } from '../../src/scripts/types.js';
+import { buildDataSnapshot, countSnapshotRecords, describeSourceFile, latestRecordDate } from './dataSnapshot.js';
+import { hashPaths, sourceClosure } from './orchestrator/fingerprint.js';
+import { createSourceAdapter } from './sources/sourceAdapters.js';
+
+// --- Configuration ---
+const ROOT_DIR = process.cwd();
+const ASSETS_DIR = path.resolve(ROOT_DIR, 'public', 'assets');
+const SCRIPTS_DIR = path.resolve(ROOT_DIR, 'pipeline', 'scripts');
+// Read after boundary validation, which sets hasBoundary
+const DISTRICTS_JSON_PATH = path.join(ASSETS_DIR, 'districts.json');
+const SCHOOLS_JSON_PATH = path.join(ASSETS_DIR, 'schools_by_district.json');
+const HISTORY_JSON_PATH = path.join(ASSETS_DIR, 'district_history.json');
+const OUTPUT_PATH = path.join(ASSETS_DIR, DATA_SNAPSHOT_ASSET);
+// The scripts that produce the published data; with the column mappings, they make up the pipeline version
+const DATA_SCRIPTS = ['generateDistrictJson.ts', 'splitBoundaries.ts', 'validateBoundaries.ts'].map(script => path.join(SCRIPTS_DIR, script));
+const CONFIG_DIR = path.resolve(ROOT_DIR, 'pipeline', 'config');
+// ---
+
+function pipelineVersion(): string {
+    const { version } = JSON.parse(fs.readFileSync(path.join(ROOT_DIR, 'package.json'), { encoding: 'utf8' })) as { version: string };
+    const code = hashPaths([...new Set(DATA_SCRIPTS.flatMap(sourceClosure)), CONFIG_DIR]);
+    return `${version}+${code.slice(0, 8)}`;
+}
+
+function writeDataSnapshot(): void {
+    const { boundarySource } = resolveStateProfile(process.env.PUBLIC_STATE_PROFILE);
+    const boundariesGeojsonPath = path.resolve(ROOT_DIR, boundarySource.file);
+    const sourceAdapter = createSourceAdapter();
+    for (const requiredPath of [sourceAdapter.inputPath, boundariesGeojsonPath, DISTRICTS_JSON_PATH, SCHOOLS_JSON_PATH]) {
+        if (!fs.existsSync(requiredPath)) {
+            console.error(`Error: ${requiredPath} not found. Run \`pnpm run build:data\`, \`pnpm run build:boundaries\` and \`pnpm run validate:boundaries\` first.`);
+            process.exit(1);
+        }
+    }
+
+    const { records } = sourceAdapter.read();
+    const sources = [
+        describeSourceFile(sourceAdapter.inputPath, { kind: 'directory', label: sourceAdapter.label, url: sourceAdapter.sourceUrl }, latestRecordDate(records)),
+        describeSourceFile(boundariesGeojsonPath, { kind: 'boundaries', label: boundarySource.label, url: boundarySource.url }),
+    ];
+
+    const districts = JSON.parse(fs.readFileSync(DISTRICTS_JSON_PATH, { encoding: 'utf8' })) as DistrictDataMap;
+    const schoolsByDistrict = JSON.parse(fs.readFileSync(SCHOOLS_JSON_PATH, { encoding: 'utf8' })) as SchoolsByDistrictMap;
+    const history: HistoryData = fs.existsSync(HISTORY_JSON_PATH)
+        ? JSON.parse(fs.readFileSync(HISTORY_JSON_PATH, { encoding: 'utf8' }))
+        : { districts: {}, schoolsByDistrict: {} };
+
+    const snapshot = buildDataSnapshot(sources, countSnapshotRecords(districts, schoolsByDistrict, history), pipelineVersion());
+    const violations = validateDataSnapshot(snapshot);
+    if (violations.length > 0) {
+        console.error(formatViolationReport('Data snapshot', violations));
+        process.exit(1);
+    }
+    fs.writeFileSync(OUTPUT_PATH, JSON.stringify(snapshot, null, 2));
+
+    console.log(`Wrote data snapshot ${snapshot.id} (pipeline ${snapshot.pipelineVersion}) to ${OUTPUT_PATH}`);
+    for (const source of sources) {
+        console.log(`  ${source.label}: ${source.file}, as of ${source.exportDate} (from ${source.exportDateFrom === 'records' ? 'record updates' : 'file date'})`);
+    }
+}
+
+writeDataSnapshot();
@@ -1 +1,6 @@
-/// <reference types="astro/client" /> 
\ No newline at end of file
+/// <reference types="astro/client" />
+
+interface ImportMetaEnv {
+    // Key of the state profile to build (see src/scripts/stateProfile.ts)
+    readonly PUBLIC_STATE_PROFILE?: string;
+}
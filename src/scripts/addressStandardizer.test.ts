@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { formatAddress, parseStreetAddress, standardizeStreetAddress, streetNameKey } from './addressStandardizer';
+
+describe('addressStandardizer', () => {
+    describe('parseStreetAddress', () => {
+        it('should split a street line into its components', () => {
+            expect(parseStreetAddress('313 West Winton Ave., Suite 200')).toEqual({
+                number: '313', preDirectional: 'W', name: 'Winton', suffix: 'AVE', postDirectional: null,
+                secondary: [{ designator: 'STE', number: '200' }], poBox: null, isHighway: false,
+            });
+            expect(parseStreetAddress('1200 1/2 Main Street North')).toMatchObject({ number: '1200 1/2', name: 'Main', suffix: 'ST', postDirectional: 'N' });
+        });
+
+        it('should keep directionals and suffixes that are the street name itself', () => {
+            expect(parseStreetAddress('10 North St')).toMatchObject({ preDirectional: null, name: 'North', suffix: 'ST' });
+            expect(parseStreetAddress('52 Via Verde')).toMatchObject({ name: 'Via Verde', suffix: null });
+            expect(parseStreetAddress('45100 Avenue 52')).toMatchObject({ name: 'Avenue 52', suffix: null });
+            expect(parseStreetAddress('7 Park Avenue')).toMatchObject({ name: 'Park', suffix: 'AVE' });
+        });
+
+        it('should read secondary units in their common forms', () => {
+            expect(parseStreetAddress('1 Main St Bldg C Rm 12')?.secondary).toEqual([
+                { designator: 'BLDG', number: 'C' },
+                { designator: 'RM', number: '12' },
+            ]);
+            expect(parseStreetAddress('1 Main St #4B')?.secondary).toEqual([{ designator: '#', number: '4B' }]);
+            expect(parseStreetAddress('1 Main St Rear')?.secondary).toEqual([{ designator: 'REAR', number: null }]);
+            // "Lot" and "Unit" are only units when a number follows
+            expect(parseStreetAddress('9 Parking Lot Rd')).toMatchObject({ name: 'Parking Lot', suffix: 'RD', secondary: [] });
+        });
+
+        it('should recognize PO Boxes', () => {
+            expect(parseStreetAddress('P.O. Box 1200')).toMatchObject({ poBox: '1200', name: null, number: null });
+            expect(parseStreetAddress('Post Office Box 77')?.poBox).toBe('77');
+            expect(parseStreetAddress('POB 5')?.poBox).toBe('5');
+            expect(parseStreetAddress('Box 12A')?.poBox).toBe('12A');
+            expect(parseStreetAddress('Drawer C')?.poBox).toBe('C');
+        });
+
+        it('should not read streets starting with "Box" or "Post" as PO Boxes', () => {
+            expect(parseStreetAddress('Box Canyon Rd')).toMatchObject({ poBox: null, name: 'Box Canyon', suffix: 'RD' });
+            expect(parseStreetAddress('Post Rd')).toMatchObject({ poBox: null, name: 'Post', suffix: 'RD' });
+            expect(standardizeStreetAddress('Box Canyon Road')).toBe('Box Canyon Rd');
+            expect(standardizeStreetAddress('Post Road')).toBe('Post Rd');
+        });
+
+        it('should return null for missing input', () => {
+            expect(parseStreetAddress(null)).toBeNull();
+            expect(parseStreetAddress('')).toBeNull();
+            expect(parseStreetAddress('No Data')).toBeNull();
+        });
+    });
+
+    describe('standardizeStreetAddress', () => {
+        it('should abbreviate suffixes, directionals and unit designators', () => {
+            expect(standardizeStreetAddress('313 West Winton Avenue, Suite 200')).toBe('313 W Winton Ave Ste 200');
+            expect(standardizeStreetAddress('4400 Northeast Harbor Boulevard Building 3')).toBe('4400 NE Harbor Blvd Bldg 3');
+            expect(standardizeStreetAddress('25 Oak Street Apartment 2, Rear')).toBe('25 Oak St Apt 2 Rear');
+        });
+
+        it('should write ordinals as numerals', () => {
+            expect(standardizeStreetAddress('100 First Street')).toBe('100 1st St');
+            expect(standardizeStreetAddress('25 tenth ave')).toBe('25 10th Ave');
+            expect(standardizeStreetAddress('2100 Twenty-First Avenue')).toBe('2100 21st Ave');
+            expect(standardizeStreetAddress('500 Forty Second St')).toBe('500 42nd St');
+            expect(standardizeStreetAddress('12 Eleventh Street')).toBe('12 11th St');
+        });
+
+        it('should spell out highway names', () => {
+            expect(standardizeStreetAddress('5400 Hwy 99 N')).toBe('5400 Highway 99 N');
+            expect(standardizeStreetAddress('100 US Hwy 101')).toBe('100 US Highway 101');
+            expect(standardizeStreetAddress('20 I-5')).toBe('20 INTERSTATE 5');
+            expect(standardizeStreetAddress('3 State Rte 1')).toBe('3 State Route 1');
+            expect(standardizeStreetAddress('14 CO RD 12')).toBe('14 COUNTY ROAD 12');
+            expect(standardizeStreetAddress('18 State Hwy 49 South')).toBe('18 State Highway 49 S');
+            expect(standardizeStreetAddress('18 CA-49', { stateCode: 'CA' })).toBe('18 STATE HIGHWAY 49');
+        });
+
+        it('should follow the case of the input unless told otherwise', () => {
+            expect(standardizeStreetAddress('313 WEST WINTON AVENUE STE 200')).toBe('313 W WINTON AVE STE 200');
+            expect(standardizeStreetAddress('313 West Winton Avenue', { uppercase: true })).toBe('313 W WINTON AVE');
+            expect(standardizeStreetAddress('PO BOX 9')).toBe('PO BOX 9');
+            expect(standardizeStreetAddress('p.o. box 9')).toBe('PO Box 9');
+        });
+
+        it('should leave out the number and units on request', () => {
+            const options = { includeNumber: false, includeSecondary: false };
+            expect(standardizeStreetAddress('313 West Winton Ave Suite 200', options)).toBe('W Winton Ave');
+        });
+    });
+
+    it('should compare street names in standard form', () => {
+        expect(streetNameKey('West Winton Avenue')).toBe(streetNameKey('W. Winton Ave'));
+        expect(streetNameKey('First Street')).toBe('1ST ST');
+    });
+
+    describe('formatAddress', () => {
+        it('should standardize the street line of a display address', () => {
+            expect(formatAddress('313 West Winton Avenue, Suite 200', 'Hayward', 'CA', '94544')).toBe('313 W Winton Ave Ste 200, Hayward, CA 94544');
+            expect(formatAddress('P.O. Box 12', 'Hayward', 'CA', '')).toBe('PO Box 12, Hayward, CA');
+        });
+    });
+});
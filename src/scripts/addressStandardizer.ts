@@ -0,0 +1,283 @@
+// src/scripts/addressStandardizer.ts
+// Parses street lines into their USPS Publication 28 components and writes them back in the
+// standard form: suffixes, directionals and secondary unit designators abbreviated, ordinals as
+// numerals, highway names spelled out and PO Boxes recognized. Shared by the geocoder and the UI.
+import { buildLookup, DIRECTIONALS, SECONDARY_UNITS, STREET_SUFFIXES, UNITS_WITHOUT_NUMBER } from './uspsAddressTables.js';
+
+export interface SecondaryUnit {
+    designator: string; // Standard abbreviation ("STE") or "#"
+    number: string | null;
+}
+
+export interface ParsedStreetAddress {
+    number: string | null; // Primary number, e.g. "313" or "1200 1/2"
+    preDirectional: string | null;
+    name: string | null; // As written, with ordinals as numerals; highway names are standardized
+    suffix: string | null;
+    postDirectional: string | null;
+    secondary: SecondaryUnit[];
+    poBox: string | null; // Box number when the line is a PO Box
+    isHighway: boolean;
+}
+
+export interface StandardizeOptions {
+    // USPS style (all uppercase); otherwise abbreviations follow the case of the input
+    uppercase?: boolean;
+    includeNumber?: boolean; // Default true
+    includeSecondary?: boolean; // Default true
+    // Postal code of the state, so "CA 49" or "CA-49" is read as a state highway
+    stateCode?: string;
+}
+
+const SUFFIXES = buildLookup(STREET_SUFFIXES);
+const UNITS = buildLookup(SECONDARY_UNITS);
+const DIRECTIONS = buildLookup(Object.fromEntries(Object.entries(DIRECTIONALS)
+    .map(([standard, forms]: [string, string[]]) => [standard, forms.filter(form => !form.includes(' '))])));
+
+const ORDINAL_UNITS: { [word: string]: number } = {
+    FIRST: 1, SECOND: 2, THIRD: 3, FOURTH: 4, FIFTH: 5, SIXTH: 6, SEVENTH: 7, EIGHTH: 8, NINTH: 9,
+    TENTH: 10, ELEVENTH: 11, TWELFTH: 12, THIRTEENTH: 13, FOURTEENTH: 14, FIFTEENTH: 15,
+    SIXTEENTH: 16, SEVENTEENTH: 17, EIGHTEENTH: 18, NINETEENTH: 19,
+};
+const ORDINAL_TENS: { [word: string]: number } = {
+    TWENTIETH: 20, THIRTIETH: 30, FORTIETH: 40, FIFTIETH: 50, SIXTIETH: 60, SEVENTIETH: 70, EIGHTIETH: 80, NINETIETH: 90,
+};
+const TENS: { [word: string]: number } = {
+    TWENTY: 20, THIRTY: 30, FORTY: 40, FIFTY: 50, SIXTY: 60, SEVENTY: 70, EIGHTY: 80, NINETY: 90,
+};
+
+// Highway-style names (section 234) are spelled out: "HWY 99" is "HIGHWAY 99"
+const HIGHWAY_PATTERNS: [RegExp, string][] = [
+    [/^(?:US|U S)(?: (?:HWY|HIGHWAY|HIWAY|HWAY|RTE|ROUTE))? (\d+[A-Z]?)$/, 'US HIGHWAY'],
+    [/^(?:I|IH|INTERSTATE)(?: (?:HWY|HIGHWAY))? (\d+[A-Z]?)$/, 'INTERSTATE'],
+    [/^(?:STATE|ST) (?:RTE|ROUTE|RT) (\d+[A-Z]?)$/, 'STATE ROUTE'],
+    [/^SR (\d+[A-Z]?)$/, 'STATE ROUTE'],
+    [/^(?:STATE|ST) (?:HWY|HIGHWAY|HIWAY|HWAY) (\d+[A-Z]?)$/, 'STATE HIGHWAY'],
+    [/^(?:COUNTY|CO|CNTY) (?:RD|ROAD) (\w+)$/, 'COUNTY ROAD'],
+    [/^CR (\d+[A-Z]?)$/, 'COUNTY ROAD'],
+    [/^(?:COUNTY|CO|CNTY) (?:HWY|HIGHWAY) (\w+)$/, 'COUNTY HIGHWAY'],
+    [/^(?:HWY|HIGHWAY|HIGHWY|HIWAY|HIWY|HWAY) (\d+[A-Z]?)$/, 'HIGHWAY'],
+];
+
+// "PO Box" and "Post Office Box" take any box identifier; "POB", "Box" and "Drawer" alone only
+// count with a number ("Box 12", "Drawer 4A", "Box C"), so "Box Canyon Rd" stays a street
+const PO_BOX = /^(?:(?:(?:P O|PO|POST OFFICE|POST) BOX|PO DRAWER) (\w+)|(?:P O B|POB|BOX|DRAWER) ((?=[A-Z]*\d)[A-Z0-9-]+|[A-Z](?= |$)))\b/;
+const PRIMARY_NUMBER = /^(?:\d+[A-Z]?|\d+-\d+[A-Z]?|\d+-[A-Z]|[A-Z]\d+)$/;
+const UNIT_RANGE = /^(?:[A-Z0-9]*\d[A-Z0-9-]*|[A-Z])$/;
+
+const isPresent = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim() !== '' && value.trim().toLowerCase() !== 'no data';
+
+function ordinalOf(value: number): string {
+    const lastTwo = value % 100;
+    if (lastTwo >= 11 && lastTwo <= 13) return `${value}TH`;
+    return `${value}${['TH', 'ST', 'ND', 'RD'][value % 10] || 'TH'}`;
+}
+
+// Replaces spelled-out ordinals ("Twenty First", "Twenty-First", "Tenth") with numerals
+function numberOrdinals(tokens: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const upper = tokens[i].toUpperCase();
+        const [tens, unit] = upper.split('-');
+        if (unit && TENS[tens] && ORDINAL_UNITS[unit] && ORDINAL_UNITS[unit] < 10) {
+            result.push(ordinalOf(TENS[tens] + ORDINAL_UNITS[unit]));
+        } else if (TENS[upper] && ORDINAL_UNITS[tokens[i + 1]?.toUpperCase()] < 10) {
+            result.push(ordinalOf(TENS[upper] + ORDINAL_UNITS[tokens[++i].toUpperCase()]));
+        } else if (ORDINAL_UNITS[upper] || ORDINAL_TENS[upper]) {
+            result.push(ordinalOf(ORDINAL_UNITS[upper] || ORDINAL_TENS[upper]));
+        } else if (/^\d+(?:ST|ND|RD|TH)$/.test(upper)) {
+            result.push(upper);
+        } else {
+            result.push(tokens[i]);
+        }
+    }
+    return result;
+}
+
+function tokenize(street: string, stateCode?: string): string[] {
+    const tokens = street.replace(/[.,;]/g, ' ').trim().split(/\s+/).filter(Boolean);
+    // "I-5", "US-101", "CA-49": the route prefix and number are separate words
+    const routePrefixes = ['I', 'US', 'SR', 'CR', 'HWY', ...(stateCode ? [stateCode.toUpperCase()] : [])];
+    return tokens.flatMap(token => {
+        const [prefix, rest] = token.toUpperCase().split(/-(.*)/);
+        return rest && routePrefixes.includes(prefix) && /^\d/.test(rest) ? [token.slice(0, prefix.length), rest] : [token];
+    });
+}
+
+// Index of the first secondary unit designator after the street name, if any
+function findSecondary(upper: string[], nameStart: number): number {
+    for (let i = nameStart + 1; i < upper.length; i++) {
+        if (upper[i].startsWith('#')) return i;
+        const unit = UNITS.get(upper[i]);
+        if (!unit) continue;
+        const next = upper[i + 1];
+        if (next !== undefined && (UNIT_RANGE.test(next.replace(/^#/, '')) && !SUFFIXES.has(next))) return i;
+        if (UNITS_WITHOUT_NUMBER.includes(unit) && (next === undefined || UNITS.has(next) || next.startsWith('#'))) return i;
+    }
+    return -1;
+}
+
+function parseSecondary(tokens: string[]): SecondaryUnit[] {
+    const units: SecondaryUnit[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const upper = tokens[i].toUpperCase();
+        if (upper.startsWith('#')) {
+            const number = upper.slice(1) || tokens[++i]?.toUpperCase() || null;
+            units.push({ designator: '#', number });
+        } else if (UNITS.has(upper)) {
+            const designator = UNITS.get(upper)!;
+            const next = tokens[i + 1]?.toUpperCase().replace(/^#/, '');
+            const hasNumber = next !== undefined && !UNITS.has(next) && !(UNITS_WITHOUT_NUMBER.includes(designator) && !UNIT_RANGE.test(next));
+            units.push({ designator, number: hasNumber ? (i++, next) : null });
+        } else if (units.length > 0 && units[units.length - 1].number === null) {
+            units[units.length - 1].number = upper;
+        } else {
+            units.push({ designator: '#', number: upper });
+        }
+    }
+    return units;
+}
+
+/**
+ * Splits a street line ("313 West Winton Ave., Suite 200") into its components. Returns null for
+ * empty or "No Data" values.
+ */
+export function parseStreetAddress(street: string | null | undefined, stateCode?: string): ParsedStreetAddress | null {
+    if (!isPresent(street)) return null;
+    const tokens = tokenize(street, stateCode);
+    const upper = tokens.map(token => token.toUpperCase());
+    const parsed: ParsedStreetAddress = {
+        number: null, preDirectional: null, name: null, suffix: null, postDirectional: null,
+        secondary: [], poBox: null, isHighway: false,
+    };
+
+    const poBox = PO_BOX.exec(upper.join(' '));
+    if (poBox) {
+        parsed.poBox = poBox[1] ?? poBox[2];
+        return parsed;
+    }
+
+    let start = 0;
+    if (PRIMARY_NUMBER.test(upper[0]) && /\d/.test(upper[0]) && tokens.length > 1) {
+        parsed.number = upper[0];
+        start = 1;
+        if (/^\d+\/\d+$/.test(upper[1] || '')) {
+            parsed.number += ` ${upper[1]}`;
+            start = 2;
+        }
+    }
+
+    const secondaryStart = findSecondary(upper, start);
+    const end = secondaryStart === -1 ? tokens.length : secondaryStart;
+    if (secondaryStart !== -1) parsed.secondary = parseSecondary(tokens.slice(secondaryStart));
+
+    let nameTokens = tokens.slice(start, end);
+    let nameUpper = upper.slice(start, end);
+
+    // A trailing directional after a highway number ("Highway 99 North") is a post-directional
+    const directionalAt = (index: number) => DIRECTIONS.get(nameUpper[index]) || null;
+    const last = nameUpper.length - 1;
+    const highwayWords = directionalAt(last) ? nameUpper.slice(0, last) : nameUpper;
+    const stateHighway = stateCode ? new RegExp(`^(?:${stateCode.toUpperCase()}|${stateCode.toUpperCase()} (?:HWY|HIGHWAY)) (\\d+[A-Z]?)$`) : null;
+    for (const [pattern, standardName] of [...HIGHWAY_PATTERNS, ...(stateHighway ? [[stateHighway, 'STATE HIGHWAY'] as [RegExp, string]] : [])]) {
+        const match = pattern.exec(highwayWords.join(' '));
+        if (match) {
+            parsed.isHighway = true;
+            parsed.name = `${standardName} ${match[1]}`;
+            if (highwayWords.length < nameUpper.length) parsed.postDirectional = directionalAt(last);
+            return parsed;
+        }
+    }
+
+    if (nameUpper.length > 1 && directionalAt(nameUpper.length - 1)) {
+        parsed.postDirectional = directionalAt(nameUpper.length - 1);
+        nameTokens = nameTokens.slice(0, -1);
+        nameUpper = nameUpper.slice(0, -1);
+    }
+    if (nameUpper.length > 1 && SUFFIXES.has(nameUpper[nameUpper.length - 1])) {
+        parsed.suffix = SUFFIXES.get(nameUpper[nameUpper.length - 1])!;
+        nameTokens = nameTokens.slice(0, -1);
+        nameUpper = nameUpper.slice(0, -1);
+    }
+    // "North Main St" has a pre-directional; in "North St" the directional is the name
+    if (nameUpper.length > 1 && directionalAt(0)) {
+        parsed.preDirectional = directionalAt(0);
+        nameTokens = nameTokens.slice(1);
+    }
+
+    parsed.name = nameTokens.length > 0 ? numberOrdinals(nameTokens).join(' ') : null;
+    if (!parsed.name && !parsed.number && parsed.secondary.length === 0) return null;
+    return parsed;
+}
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * Writes parsed components back as one line. Directionals are always uppercase ("NW"); other
+ * abbreviations are title case ("Ave", "Ste", "PO Box") unless `uppercase` is set.
+ */
+export function formatStreetAddress(parsed: ParsedStreetAddress, options: StandardizeOptions = {}): string {
+    const { uppercase = false, includeNumber = true, includeSecondary = true } = options;
+    const abbreviation = (word: string) => (uppercase ? word : titleCase(word));
+    if (parsed.poBox) return `${uppercase ? 'PO BOX' : 'PO Box'} ${parsed.poBox}`;
+
+    const name = parsed.name && (uppercase
+        ? parsed.name.toUpperCase()
+        : parsed.isHighway
+            ? parsed.name.split(' ').map(word => (['US', 'I'].includes(word) ? word : titleCase(word))).join(' ')
+            : parsed.name.replace(/\b(\d+)(ST|ND|RD|TH)\b/g, (_, digits: string, ending: string) => `${digits}${ending.toLowerCase()}`));
+    const parts = [
+        includeNumber ? parsed.number : null,
+        parsed.preDirectional,
+        name,
+        parsed.suffix && abbreviation(parsed.suffix),
+        parsed.postDirectional,
+        ...(includeSecondary ? parsed.secondary.map(unit =>
+            (unit.designator === '#' ? `# ${unit.number ?? ''}`.trim() : [abbreviation(unit.designator), unit.number].filter(Boolean).join(' '))) : []),
+    ];
+    return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Standardizes a street line, e.g. "313 west winton avenue suite 200" → "313 W winton Ave Ste 200".
+ * An all-uppercase input gives the USPS uppercase form. Returns null for empty or "No Data" values.
+ */
+export function standardizeStreetAddress(street: string | null | undefined, options: StandardizeOptions = {}): string | null {
+    const parsed = parseStreetAddress(street, options.stateCode);
+    if (!parsed) return null;
+    const uppercase = options.uppercase ?? !/[a-z]/.test(street as string);
+    return formatStreetAddress(parsed, { ...options, uppercase });
+}
+
+// Comparable form of a street name without number or unit: "West Winton Avenue" and "W Winton Ave" agree
+export function streetNameKey(street: string | null | undefined): string | null {
+    return standardizeStreetAddress(street, { uppercase: true, includeNumber: false, includeSecondary: false });
+}
+
+// Formats an address for display, standardizing the street line: "313 W Winton Ave, Hayward, CA 94544"
+export const formatAddress = (street: string, city: string, state: string, zip: string): string => {
+    const S = isPresent(street) ? (standardizeStreetAddress(street) || street.trim()) : null;
+    const C = isPresent(city) ? city.trim() : null;
+    const ST = isPresent(state) ? state.trim() : null;
+    const Z = isPresent(zip) ? zip.trim() : null;
+
+    const addressParts: string[] = [];
+    if (S) addressParts.push(S);
+
+    const cityStateZipParts: string[] = [];
+    if (C) cityStateZipParts.push(C);
+    if (ST) cityStateZipParts.push(ST);
+    // The ZIP Code follows the state on the same part ("CA 94544"), or stands alone without one
+    if (Z) {
+        if (ST) cityStateZipParts[cityStateZipParts.length - 1] = `${ST} ${Z}`;
+        else cityStateZipParts.push(Z);
+    }
+
+    if (cityStateZipParts.length > 0) {
+        addressParts.push(cityStateZipParts.join(', '));
+    }
+
+    if (addressParts.length === 0) return 'Address Not Available';
+    return addressParts.join(', ');
+};
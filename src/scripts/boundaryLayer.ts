@@ -0,0 +1,56 @@
+// src/scripts/boundaryLayer.ts
+import L from 'leaflet';
+import type { GeoJsonObject } from 'geojson';
+import { boundaryUrl } from './boundaryLevels';
+
+/**
+ * Fetches the boundary at the level for the map's current zoom into a GeoJSON layer added to
+ * `group`, and swaps in the matching level whenever the zoom crosses a level threshold. Each
+ * level is fetched at most once. Rejects when the first level cannot be loaded.
+ */
+export async function addDistrictBoundary(
+    map: L.Map,
+    group: L.LayerGroup,
+    baseUrl: string,
+    cdsCode: string,
+    style: L.PathOptions
+): Promise<L.GeoJSON> {
+    const cache = new Map<string, Promise<GeoJsonObject>>();
+    const fetchLevel = (url: string) => {
+        let level = cache.get(url);
+        if (!level) {
+            level = fetch(url).then(response => {
+                if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+                return response.json();
+            });
+            cache.set(url, level);
+            // A failed level is fetched again the next time it is needed
+            level.catch(() => cache.delete(url));
+        }
+        return level;
+    };
+
+    let shownUrl = boundaryUrl(baseUrl, cdsCode, map.getZoom());
+    const layer = L.geoJSON(await fetchLevel(shownUrl), { style });
+    group.addLayer(layer);
+
+    const onZoomEnd = async () => {
+        if (!map.hasLayer(group)) {
+            map.off('zoomend', onZoomEnd);
+            return;
+        }
+        const url = boundaryUrl(baseUrl, cdsCode, map.getZoom());
+        if (url === shownUrl) return;
+        shownUrl = url;
+        try {
+            const data = await fetchLevel(url);
+            if (url !== shownUrl) return; // Zoomed again while loading
+            layer.clearLayers();
+            layer.addData(data);
+        } catch (error) {
+            console.error(`Failed to load boundary level ${url}:`, error);
+        }
+    };
+    map.on('zoomend', onZoomEnd);
+    return layer;
+}
@@ -0,0 +1,38 @@
+// src/scripts/boundaryLevels.ts
+// District boundaries are published in EPSG:4326 at several levels of detail by splitBoundaries.ts.
+// Maps request the coarsest level that still looks right at the current zoom and swap levels as
+// the user zooms, so no reprojection happens in the browser. Shared by the pipeline and the maps.
+
+export interface BoundaryLevel {
+    // File suffix: `{cdsCode}{suffix}.geojson`; the full-detail file has none
+    suffix: string;
+    // Douglas-Peucker tolerance in degrees; 0 keeps every vertex
+    tolerance: number;
+    // Decimal places kept in the written coordinates
+    precision: number;
+    // Lowest map zoom this level is shown at
+    minZoom: number;
+}
+
+// Ordered from most to least detailed
+export const BOUNDARY_LEVELS: BoundaryLevel[] = [
+    { suffix: '', tolerance: 0, precision: 6, minZoom: 13 },
+    { suffix: '.lod1', tolerance: 0.0001, precision: 5, minZoom: 10 },
+    { suffix: '.lod2', tolerance: 0.001, precision: 4, minZoom: 7 },
+    { suffix: '.lod3', tolerance: 0.005, precision: 3, minZoom: 0 },
+];
+
+export const boundaryFileName = (cdsCode: string, level: BoundaryLevel): string =>
+    `${cdsCode.replace(/[^a-zA-Z0-9_-]/g, '_')}${level.suffix}.geojson`;
+
+export function boundaryLevelForZoom(zoom: number): BoundaryLevel {
+    return BOUNDARY_LEVELS.find(level => zoom >= level.minZoom) || BOUNDARY_LEVELS[BOUNDARY_LEVELS.length - 1];
+}
+
+export const boundaryUrl = (baseUrl: string, cdsCode: string, zoom: number): string =>
+    `${baseUrl.replace(/\/$/, '')}/assets/boundaries/${boundaryFileName(cdsCode, boundaryLevelForZoom(zoom))}`;
+
+// Layer index ({ [cdsCode]: 'elementary' | 'high' | 'unified' }) and the statewide TopoJSON of
+// every boundary (one object per layer, least detailed level), written alongside the district files
+export const BOUNDARY_LAYER_INDEX_FILE = 'layers.json';
+export const BOUNDARY_TOPOLOGY_FILE = 'districts.topojson';
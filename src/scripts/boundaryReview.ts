@@ -0,0 +1,56 @@
+import type { DistrictDataMap, SchoolsByDistrictMap } from './types.js';
+
+// A district office or school whose coordinates fall outside its district boundary
+export interface OutsideBoundaryRecord {
+    kind: 'district' | 'school';
+    cdsCode: string;
+    name: string;
+    county: string;
+    districtCdsCode: string;
+    districtName: string;
+    distanceMeters: number | null;
+}
+
+export interface CountyBoundaryGroup {
+    county: string;
+    records: OutsideBoundaryRecord[];
+}
+
+/**
+ * Lists every record flagged `outsideBoundary`, farthest from its boundary first.
+ */
+export function collectOutsideBoundaryRecords(districts: DistrictDataMap, schoolsByDistrict: SchoolsByDistrictMap): OutsideBoundaryRecord[] {
+    const records: OutsideBoundaryRecord[] = [];
+    for (const district of Object.values(districts)) {
+        const base = {
+            county: district['County'] || 'Unknown',
+            districtCdsCode: district['CDS Code'],
+            districtName: district['District'],
+        };
+        if (district.outsideBoundary === true) {
+            records.push({ ...base, kind: 'district', cdsCode: district['CDS Code'], name: district['District'], distanceMeters: district.boundaryDistanceMeters ?? null });
+        }
+        for (const school of schoolsByDistrict[district['CDS Code']] || []) {
+            if (school.outsideBoundary === true) {
+                records.push({ ...base, kind: 'school', cdsCode: school['CDS Code'], name: school['School'], distanceMeters: school.boundaryDistanceMeters ?? null });
+            }
+        }
+    }
+    return records.sort((a, b) => (b.distanceMeters ?? 0) - (a.distanceMeters ?? 0));
+}
+
+export function groupOutsideBoundaryByCounty(records: OutsideBoundaryRecord[]): CountyBoundaryGroup[] {
+    const groups = new Map<string, OutsideBoundaryRecord[]>();
+    for (const record of records) {
+        if (!groups.has(record.county)) groups.set(record.county, []);
+        groups.get(record.county)!.push(record);
+    }
+    return Array.from(groups.entries())
+        .map(([county, countyRecords]) => ({ county, records: countyRecords }))
+        .sort((a, b) => a.county.localeCompare(b.county));
+}
+
+export const formatDistance = (meters: number | null): string => {
+    if (meters === null) return '—';
+    return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+};
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { changeLogAnchor, describeChange } from './changeLog';
+
+const HAYWARD_HIGH = { entity: 'school' as const, cdsCode: '01611920100001', name: 'Hayward High' };
+
+describe('changeLog', () => {
+    it('should describe each kind of change', () => {
+        expect(describeChange({ ...HAYWARD_HIGH, kind: 'added' })).toBe('New school');
+        expect(describeChange({ ...HAYWARD_HIGH, kind: 'added', entity: 'district' })).toBe('New district');
+        expect(describeChange({ ...HAYWARD_HIGH, kind: 'renamed', from: 'Hayward Senior High', to: 'Hayward High' })).toBe('Renamed from Hayward Senior High');
+        expect(describeChange({ ...HAYWARD_HIGH, kind: 'moved', distanceMeters: 1112 })).toBe('Map location moved by 1.1 km');
+        expect(describeChange({ ...HAYWARD_HIGH, kind: 'website', from: 'No Data', to: 'www.husd.us' })).toBe('Website changed from No Data to www.husd.us');
+        expect(describeChange({ ...HAYWARD_HIGH, kind: 'phone', from: '', to: '(510) 723-3110' })).toBe('Phone changed from none to (510) 723-3110');
+    });
+
+    it('should anchor sections by district CDS code', () => {
+        expect(changeLogAnchor('01611920000000')).toBe('district-01611920000000');
+    });
+});
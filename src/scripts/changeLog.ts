@@ -0,0 +1,45 @@
+// src/scripts/changeLog.ts
+// Display helpers for changelog.json, written by the pipeline's build:changelog stage and shown
+// on the "What changed" page, one section per district.
+import type { DataChange, DataChangeKind } from './types';
+import { formatDistance } from './boundaryReview';
+
+export const CHANGE_LOG_PAGE = 'changes/';
+
+// Plural labels for the summary, in display order
+export const CHANGE_KIND_LABELS: { [kind in DataChangeKind]: string } = {
+    added: 'New',
+    removed: 'Closed or removed',
+    renamed: 'Renamed',
+    address: 'Address changes',
+    moved: 'Map location changes',
+    website: 'Website changes',
+    phone: 'Phone changes',
+    grades: 'Grade span changes',
+};
+
+// Anchor of a district's section on the change log page
+export const changeLogAnchor = (districtCdsCode: string): string => `district-${districtCdsCode}`;
+
+const FIELD_LABELS: { [kind in DataChangeKind]?: string } = {
+    address: 'Address',
+    website: 'Website',
+    phone: 'Phone',
+    grades: 'Grades',
+};
+
+// What changed about a record, e.g. "Website changed from ... to ..."; its name is shown separately
+export function describeChange(change: DataChange): string {
+    switch (change.kind) {
+        case 'added':
+            return change.entity === 'district' ? 'New district' : 'New school';
+        case 'removed':
+            return 'No longer listed (closed, merged or removed from the source data)';
+        case 'renamed':
+            return `Renamed from ${change.from}`;
+        case 'moved':
+            return `Map location moved by ${formatDistance(change.distanceMeters ?? null)}`;
+        default:
+            return `${FIELD_LABELS[change.kind]} changed from ${change.from || 'none'} to ${change.to || 'none'}`;
+    }
+}
@@ -0,0 +1,53 @@
+// src/scripts/charterRelationships.ts
+// Charters are grouped under their authorizer (the entity whose CDS prefix they carry), which may be
+// a county office or the state board rather than the district they sit in. The boundary step
+// records where each charter is located; these helpers give district pages both views.
+import type { DistrictDataMap, SchoolDetails, SchoolsByDistrictMap } from './types.js';
+
+export interface LocatedCharter {
+    school: SchoolDetails;
+    authorizerCdsCode: string;
+    authorizerName: string;
+    // Page of the authorizer, when it has one
+    authorizerHref: string | null;
+}
+
+export const isCharterSchool = (school: SchoolDetails): boolean => school['Charter Yes/No'] === 'Y';
+
+// Splits a district's own school list into the schools it runs and the charters it authorized
+export function splitAuthorizedCharters(schools: SchoolDetails[]): { schools: SchoolDetails[]; charters: SchoolDetails[] } {
+    return {
+        schools: schools.filter(school => !isCharterSchool(school)),
+        charters: schools.filter(isCharterSchool),
+    };
+}
+
+/**
+ * Lists, for every district, the charters located within its boundary whatever their authorizer.
+ * `baseUrl` is the site base used to link to the authorizer's page.
+ */
+export function indexChartersByLocation(
+    districts: DistrictDataMap,
+    schoolsByDistrict: SchoolsByDistrictMap,
+    baseUrl: string
+): { [districtCdsCode: string]: LocatedCharter[] } {
+    const index: { [districtCdsCode: string]: LocatedCharter[] } = {};
+    for (const [authorizerCdsCode, schools] of Object.entries(schoolsByDistrict)) {
+        const authorizer = districts[authorizerCdsCode];
+        for (const school of schools) {
+            if (!isCharterSchool(school)) continue;
+            for (const districtCdsCode of school.locatedInDistrictCdsCodes || []) {
+                (index[districtCdsCode] ||= []).push({
+                    school,
+                    authorizerCdsCode,
+                    authorizerName: authorizer?.District || authorizerCdsCode,
+                    authorizerHref: authorizer?.slug ? `${baseUrl}districts/${authorizer.slug}/` : null,
+                });
+            }
+        }
+    }
+    for (const charters of Object.values(index)) {
+        charters.sort((a, b) => String(a.school.School).localeCompare(String(b.school.School)));
+    }
+    return index;
+}
@@ -0,0 +1,263 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+    DataSchemaError,
+    formatViolationReport,
+    parseDistrictsData,
+    parseSchoolList,
+    validateChangeLog,
+    validateDataAssets,
+    validateDataSnapshot,
+    validateDistrictsData,
+    validatePrerenderParams,
+    validateSchoolsByDistrictData,
+    validateSchoolShardManifest,
+    validateSearchIndex,
+    validateSlugRegistry,
+} from './dataSchema';
+
+const DISTRICT_CDS = '01611920000000';
+
+const district = (overrides: object = {}) => ({
+    'CDS Code': DISTRICT_CDS,
+    'District': 'Hayward Unified',
+    'County': 'Alameda',
+    'Status': 'Active',
+    'Street Address': '24411 Amador St.',
+    'Street City': 'Hayward',
+    'Street State': 'CA',
+    'Street Zip': '94544',
+    'Phone': '(510) 784-2600',
+    'Website': 'www.husd.us',
+    'Low Grade': 'K',
+    'High Grade': '12',
+    'Latitude': 37.6536,
+    'Longitude': -122.0786,
+    'slug': 'hayward-unified-01611920000000',
+    ...overrides,
+});
+
+const school = (overrides: object = {}) => ({
+    'CDS Code': '01611920100001',
+    'School': 'Hayward High',
+    'Status': 'Active',
+    'Public Yes/No': 'Y',
+    'Educational Program Type': 'Traditional',
+    'Street Address': '1633 East Ave.',
+    'Street City': 'Hayward',
+    'Street State': 'CA',
+    'Street Zip': '94541',
+    'Phone': 'No Data',
+    'Website': 'No Data',
+    'Low Grade': '9',
+    'High Grade': '12',
+    'Latitude': 'No Data',
+    'Longitude': 'No Data',
+    ...overrides,
+});
+
+describe('dataSchema', () => {
+    it('should accept well-formed assets', () => {
+        expect(validateDataAssets({
+            districts: { [DISTRICT_CDS]: district() },
+            schoolsByDistrict: { [DISTRICT_CDS]: [school({ Latitude: '37.67', Longitude: '-122.07', outsideBoundary: false, boundaryDistanceMeters: 0 })] },
+            prerenderParams: [{ districtSlug: 'hayward-unified-01611920000000' }],
+        })).toEqual([]);
+    });
+
+    it('should report field violations with their path', () => {
+        const violations = validateDistrictsData({ [DISTRICT_CDS]: district({ Latitude: 137, slug: 'Hayward Unified' }) });
+        expect(violations.map(v => v.path)).toEqual([
+            'districts.json["01611920000000"].Latitude',
+            'districts.json["01611920000000"].slug',
+        ]);
+        expect(violations[0].message).toMatch(/between -90 and 90.*got 137/);
+    });
+
+    it('should catch records filed under the wrong key', () => {
+        expect(validateDistrictsData({ '01612000000000': district() })[0].message).toMatch(/does not match its key/);
+        expect(validateSchoolsByDistrictData({ '01612000000000': [school()] })[0].message).toMatch(/is not in district/);
+    });
+
+    it('should reject duplicate slugs and dangling references', () => {
+        expect(validatePrerenderParams([{ districtSlug: 'a-1' }, { districtSlug: 'a-1' }])[0].message).toMatch(/duplicate slug/);
+        const violations = validateDataAssets({
+            districts: { [DISTRICT_CDS]: district() },
+            schoolsByDistrict: { '01612000000000': [school({ 'CDS Code': '01612000100001' })] },
+            prerenderParams: [{ districtSlug: 'missing-01612000000000' }],
+        });
+        expect(violations.map(v => v.message)).toEqual([
+            'no district 01612000000000 in districts.json',
+            'no district with slug missing-01612000000000 in districts.json',
+        ]);
+    });
+
+    it('should check archived districts against the active ones', () => {
+        const archived = district({
+            'CDS Code': '01612000000000',
+            Status: 'Merged',
+            'Open Date': '1950-07-01',
+            'Closed Date': '2019-06-30',
+            slug: 'hayward-unified-01611920000000',
+            successorCdsCode: '01699990000000',
+            successorSlug: null,
+            successorName: null,
+        });
+        const violations = validateDataAssets({
+            districts: { [DISTRICT_CDS]: district() },
+            schoolsByDistrict: {},
+            prerenderParams: [],
+            history: { districts: { '01612000000000': archived }, schoolsByDistrict: { '01612000000000': [school({ Status: 'Active', 'Open Date': '1950-07-01', 'Closed Date': 'No Data' })] } },
+        });
+        expect(violations.map(v => v.message)).toEqual([
+            'expected "Closed" or "Merged", got "Active"',
+        ]);
+
+        const crossViolations = validateDataAssets({
+            districts: { [DISTRICT_CDS]: district() },
+            schoolsByDistrict: {},
+            prerenderParams: [],
+            history: { districts: { '01612000000000': archived }, schoolsByDistrict: {} },
+        });
+        expect(crossViolations.map(v => v.message)).toEqual([
+            'slug hayward-unified-01611920000000 is already used by an active district',
+            'no district 01699990000000 in districts.json',
+        ]);
+    });
+
+    it('should validate the slug registry against the district pages', () => {
+        const current = 'hayward-unified-01611920000000';
+        expect(validateSlugRegistry({
+            [DISTRICT_CDS]: { current, previous: ['hayward-usd-01611920000000'] },
+            '01612000000000': { current: 'old-district-01612000000000', previous: ['hayward-usd-01611920000000', 'Bad Slug'] },
+        }).map(v => v.message)).toEqual([
+            'expected a lowercase URL slug',
+            'slug hayward-usd-01611920000000 is also registered for 01611920000000',
+        ]);
+
+        const assets = { districts: { [DISTRICT_CDS]: district() }, schoolsByDistrict: {}, prerenderParams: [] };
+        expect(validateDataAssets({ ...assets, slugRegistry: { [DISTRICT_CDS]: { current, previous: [] } } })).toEqual([]);
+        expect(validateDataAssets({ ...assets, slugRegistry: { [DISTRICT_CDS]: { current: 'hayward-usd-01611920000000', previous: [current] } } })
+            .map(v => v.message)).toEqual([
+            `does not record ${current} as the current slug`,
+            `slug ${current} is the page of district ${DISTRICT_CDS}`,
+        ]);
+    });
+
+    it('should validate the school shard manifest', () => {
+        expect(validateSchoolShardManifest({ [DISTRICT_CDS]: { file: `${DISTRICT_CDS}.3f2a9c1d.json`, count: 2 } })).toEqual([]);
+        expect(validateSchoolShardManifest({ hayward: { file: '../schools_by_district.json', count: -1 } }).map(violation => violation.path)).toEqual([
+            'schools/manifest.json["hayward"]',
+            'schools/manifest.json["hayward"].file',
+            'schools/manifest.json["hayward"].count',
+        ]);
+    });
+
+    it('should validate the search index and its slugs', () => {
+        const row = ['Hayward Unified', 'hayward-unified-01611920000000', 'Alameda', 'Hayward', 'hayward unified', DISTRICT_CDS, 37.6532, -122.0778, 'source', null];
+        expect(validateSearchIndex({ version: 2, districts: [row, [...row.slice(0, 6), null, null, null, null]] })).toEqual([]);
+        expect(validateSearchIndex({ version: 2, districts: [row.slice(0, 5), [...row.slice(0, 4), 'Hayward Unified', ...row.slice(5, 6), 'No Data', -122.0778, 'rooftop', 1.5]] }).map(violation => violation.path)).toEqual([
+            'search-index.json.districts[0]',
+            'search-index.json.districts[1][4]',
+            'search-index.json.districts[1][6]',
+            'search-index.json.districts[1][8]',
+            'search-index.json.districts[1][9]',
+        ]);
+        expect(validateDataAssets({
+            districts: { [DISTRICT_CDS]: district() },
+            schoolsByDistrict: {},
+            prerenderParams: [],
+            searchIndex: { version: 2, districts: [row, ['Chico Unified', 'chico-unified-04615310000000', 'Butte', 'Chico', 'chico unified', '04615310000000', null, null, null, null]] },
+        })).toEqual([{ path: 'search-index.json.districts[1][1]', message: `no district with slug chico-unified-04615310000000 in districts.json` }]);
+    });
+
+    it('should validate the data snapshot', () => {
+        const source = {
+            kind: 'directory',
+            label: 'CDE School Directory export',
+            url: 'https://www.cde.ca.gov/SchoolDirectory/ExportSelect',
+            file: 'School and District Data.csv',
+            sha256: 'a'.repeat(64),
+            bytes: 1024,
+            exportDate: '2024-06-20',
+            exportDateFrom: 'records',
+        };
+        const snapshot = {
+            id: '3f2a9c1d0b4e',
+            generatedAt: '2024-06-21T08:00:00.000Z',
+            pipelineVersion: '1.0.0+1234abcd',
+            sources: [source],
+            counts: { districts: 1, schools: 2, districtsWithBoundary: 1, archivedDistricts: 0, archivedSchools: 0 },
+        };
+        expect(validateDataSnapshot(snapshot)).toEqual([]);
+        expect(validateDataSnapshot({
+            ...snapshot,
+            sources: [{ ...source, exportDate: '6/20/24', sha256: 'abc' }],
+            counts: { ...snapshot.counts, schools: -1 },
+        }).map(violation => violation.path)).toEqual([
+            'data-snapshot.json.sources[0].sha256',
+            'data-snapshot.json.sources[0].exportDate',
+            'data-snapshot.json.counts.schools',
+        ]);
+        expect(validateDataSnapshot([])).toHaveLength(1);
+    });
+
+    it('should validate the change log', () => {
+        const changeLog = {
+            generatedAt: '2024-06-21T08:00:00.000Z',
+            from: { snapshotId: '3f2a9c1d0b4e', dataDate: '2024-03-01' },
+            to: { snapshotId: null, dataDate: null },
+            summary: { website: 1, removed: 1 },
+            districts: {
+                [DISTRICT_CDS]: {
+                    name: 'Hayward Unified',
+                    slug: 'hayward-unified-01611920000000',
+                    changes: [
+                        { kind: 'website', entity: 'district', cdsCode: DISTRICT_CDS, name: 'Hayward Unified', from: 'No Data', to: 'www.husd.us' },
+                        { kind: 'removed', entity: 'school', cdsCode: '01611920100002', name: 'Tennyson High' },
+                    ],
+                },
+            },
+        };
+        expect(validateChangeLog(changeLog)).toEqual([]);
+        expect(validateChangeLog({ ...changeLog, from: null })).toEqual([]);
+        expect(validateChangeLog({
+            ...changeLog,
+            summary: { closed: 1 },
+            districts: { [DISTRICT_CDS]: { name: 'Hayward Unified', slug: null, changes: [{ kind: 'moved', entity: 'school', cdsCode: '0161192', name: 'Hayward High', distanceMeters: -5 }] } },
+        }).map(violation => violation.path)).toEqual([
+            'changelog.json.summary',
+            'changelog.json.districts["01611920000000"].changes[0].cdsCode',
+            'changelog.json.districts["01611920000000"].changes[0].distanceMeters',
+        ]);
+    });
+
+    it('should throw a readable report from the parsers', () => {
+        expect(parseDistrictsData({ [DISTRICT_CDS]: district() })[DISTRICT_CDS].District).toBe('Hayward Unified');
+        expect(() => parseSchoolList([school({ School: '' })])).toThrow(DataSchemaError);
+        expect(() => parseSchoolList({})).toThrow(/School data failed schema validation with 1 violation/);
+    });
+
+    it('should truncate long violation reports', () => {
+        const violations = Array.from({ length: 3 }, (_, i) => ({ path: `p${i}`, message: 'bad' }));
+        expect(formatViolationReport('Test', violations, 2).split('\n')).toEqual([
+            'Test failed schema validation with 3 violation(s):',
+            '  - p0: bad',
+            '  - p1: bad',
+            '  ... and 1 more.',
+        ]);
+    });
+
+    it('should accept the committed districts.json, prerender-params.json and slug-registry.json', () => {
+        const read = (file: string) => JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'public/assets', file), 'utf-8'));
+        expect(validateDistrictsData(read('districts.json'))).toEqual([]);
+        expect(validatePrerenderParams(read('prerender-params.json'))).toEqual([]);
+        expect(validateDataAssets({
+            districts: read('districts.json'),
+            schoolsByDistrict: {},
+            prerenderParams: read('prerender-params.json'),
+            slugRegistry: read('slug-registry.json'),
+        })).toEqual([]);
+    });
+});
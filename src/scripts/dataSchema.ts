@@ -0,0 +1,525 @@
+// src/scripts/dataSchema.ts
+// Runtime schema for the generated data assets. The pipeline validates before writing and the
+// site validates after loading, so both sides agree on what districts.json & co. contain.
+import type { DataChangeLog, DataSnapshot, DistrictDataMap, DistrictDetails, HistoryData, PrerenderParam, SchoolDetails, SchoolsByDistrictMap, SchoolShardManifest, SearchIndex, SlugRegistry } from './types.js';
+
+export interface SchemaViolation {
+    path: string; // e.g. districts.json["01611920000000"].Latitude
+    message: string;
+}
+
+// Returns a description of the problem, or null when the value is acceptable
+type FieldRule = (value: unknown) => string | null;
+
+type RecordSchema = { [field: string]: FieldRule };
+
+export const DISTRICTS_ASSET = 'districts.json';
+export const SCHOOLS_ASSET = 'schools_by_district.json';
+export const PRERENDER_PARAMS_ASSET = 'prerender-params.json';
+export const HISTORY_ASSET = 'district_history.json';
+export const SLUG_REGISTRY_ASSET = 'slug-registry.json';
+export const SCHOOL_SHARD_MANIFEST_ASSET = 'schools/manifest.json';
+export const SEARCH_INDEX_ASSET = 'search-index.json';
+export const DATA_SNAPSHOT_ASSET = 'data-snapshot.json';
+export const CHANGE_LOG_ASSET = 'changelog.json';
+
+const MAX_LISTED_VIOLATIONS = 25;
+
+// --- Field rules ---
+const text: FieldRule = value => (typeof value === 'string' ? null : 'expected a string');
+
+const requiredText: FieldRule = value =>
+    typeof value === 'string' && value.trim() !== '' ? null : 'expected a non-empty string';
+
+const cdsCode: FieldRule = value =>
+    typeof value === 'string' && /^\d{14}$/.test(value) ? null : 'expected a 14-digit CDS code';
+
+const slug: FieldRule = value =>
+    typeof value === 'string' && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value) ? null : 'expected a lowercase URL slug';
+
+// Numbers (or numeric strings) must be in range; other strings are placeholders such as "No Data"
+const coordinate = (min: number, max: number): FieldRule => value => {
+    const problem = `expected a number between ${min} and ${max}, or a placeholder such as "No Data"`;
+    if (typeof value === 'string') {
+        if (value.trim() === '') return problem;
+        if (isNaN(Number(value))) return null;
+        value = Number(value);
+    }
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? null : problem;
+};
+
+// Numbers only, for assets that leave placeholders out
+const numberBetween = (min: number, max: number): FieldRule => value =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? null : `expected a number between ${min} and ${max}`;
+
+const optional = (rule: FieldRule): FieldRule => value => (value === undefined || value === null ? null : rule(value));
+
+const boolean: FieldRule = value => (typeof value === 'boolean' ? null : 'expected true or false');
+
+const oneOf = (values: string[]): FieldRule => value =>
+    typeof value === 'string' && values.includes(value) ? null : `expected one of ${values.map(v => JSON.stringify(v)).join(', ')}`;
+
+const yesNo = oneOf(['Y', 'N', 'No Data']);
+
+const geocodePrecision = oneOf(['source', 'address', 'street', 'city']);
+
+const listOf = (rule: FieldRule): FieldRule => value => {
+    if (!Array.isArray(value)) return 'expected an array';
+    const index = value.findIndex(item => rule(item) !== null);
+    return index === -1 ? null : `item ${index}: ${rule(value[index])}`;
+};
+
+const nonNegativeNumber: FieldRule = value =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'expected a non-negative number';
+
+const fraction: FieldRule = value =>
+    typeof value === 'number' && value >= 0 && value <= 1 ? null : 'expected a number between 0 and 1';
+
+const shardFileName: FieldRule = value =>
+    typeof value === 'string' && /^[\w-]+\.[0-9a-f]+\.json$/.test(value) ? null : 'expected a file name such as "{cdsCode}.{hash}.json"';
+
+const searchTokens: FieldRule = value =>
+    typeof value === 'string' && /^[a-z0-9]+( [a-z0-9]+)*$/.test(value) ? null : 'expected lowercase words separated by single spaces';
+
+const isoDate: FieldRule = value =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? null : 'expected a YYYY-MM-DD date';
+
+const timestamp: FieldRule = value =>
+    typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'expected an ISO timestamp';
+
+const sha256: FieldRule = value =>
+    typeof value === 'string' && /^[0-9a-f]{64}$/.test(value) ? null : 'expected a hex SHA-256 hash';
+
+const httpUrl: FieldRule = value =>
+    typeof value === 'string' && /^https?:\/\//.test(value) ? null : 'expected an http(s) URL';
+
+// Fields shared by district offices and schools
+const LOCATED_RECORD_SCHEMA: RecordSchema = {
+    'CDS Code': cdsCode,
+    'Status': requiredText,
+    'Street Address': text,
+    'Street City': text,
+    'Street State': text,
+    'Street Zip': text,
+    'Phone': text,
+    'Website': text,
+    'Low Grade': text,
+    'High Grade': text,
+    'Latitude': coordinate(-90, 90),
+    'Longitude': coordinate(-180, 180),
+    outsideBoundary: optional(boolean),
+    boundaryDistanceMeters: optional(nonNegativeNumber),
+    geocodePrecision: optional(geocodePrecision),
+    geocodeConfidence: optional(fraction),
+};
+
+export const DISTRICT_SCHEMA: RecordSchema = {
+    ...LOCATED_RECORD_SCHEMA,
+    'District': requiredText,
+    'County': requiredText,
+    'Entity Type': optional(text),
+    'Funding Type': optional(text),
+    'slug': slug,
+    'Federal District ID': optional(text),
+    hasBoundary: optional(boolean),
+    boundaryLayer: optional(oneOf(['elementary', 'high', 'unified'])),
+    overlappingDistrictCdsCodes: optional(listOf(cdsCode)),
+};
+
+export const SCHOOL_SCHEMA: RecordSchema = {
+    ...LOCATED_RECORD_SCHEMA,
+    'School': requiredText,
+    'Public Yes/No': text,
+    'Educational Program Type': text,
+    'Charter Yes/No': optional(yesNo),
+    'Charter Number': optional(text),
+    'Magnet Yes/No': optional(yesNo),
+    'Virtual Instruction Type': optional(oneOf(['Exclusively Virtual', 'Primarily Virtual', 'Primarily Classroom', 'Partial Virtual', 'Not Virtual', 'No Data'])),
+    'Year Round Yes/No': optional(yesNo),
+    'Multilingual Yes/No': optional(yesNo),
+    'Federal District ID': optional(text),
+    'Federal School ID': optional(text),
+    'SOC Type': optional(text),
+    authorizerCdsCode: optional(cdsCode),
+    authorizerType: optional(oneOf(['district', 'county', 'state', 'unlisted'])),
+    locatedInDistrictCdsCodes: optional(listOf(cdsCode)),
+};
+
+const ARCHIVED_FIELDS: RecordSchema = {
+    'Status': value => (value === 'Closed' || value === 'Merged' ? null : 'expected "Closed" or "Merged"'),
+    'Open Date': text,
+    'Closed Date': text,
+};
+
+export const ARCHIVED_DISTRICT_SCHEMA: RecordSchema = {
+    ...DISTRICT_SCHEMA,
+    ...ARCHIVED_FIELDS,
+    successorCdsCode: optional(cdsCode),
+    successorSlug: optional(slug),
+    successorName: optional(text),
+};
+
+export const ARCHIVED_SCHOOL_SCHEMA: RecordSchema = { ...SCHOOL_SCHEMA, ...ARCHIVED_FIELDS };
+
+// --- Validators ---
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const keyPath = (base: string, key: string) => `${base}[${JSON.stringify(key)}]`;
+
+function validateRecord(value: unknown, schema: RecordSchema, path: string): SchemaViolation[] {
+    if (!isPlainObject(value)) return [{ path, message: 'expected an object' }];
+    const violations: SchemaViolation[] = [];
+    for (const [field, rule] of Object.entries(schema)) {
+        const problem = rule(value[field]);
+        if (problem) {
+            violations.push({ path: `${path}.${field}`, message: `${problem}, got ${JSON.stringify(value[field]) ?? 'undefined'}` });
+        }
+    }
+    return violations;
+}
+
+export const validateDistrictRecord = (value: unknown, path = 'district'): SchemaViolation[] =>
+    validateRecord(value, DISTRICT_SCHEMA, path);
+
+export function validateSchoolList(value: unknown, path = 'schools'): SchemaViolation[] {
+    if (!Array.isArray(value)) return [{ path, message: 'expected an array of schools' }];
+    return value.flatMap((school, index) => validateRecord(school, SCHOOL_SCHEMA, `${path}[${index}]`));
+}
+
+export function validateDistrictsData(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value)) return [{ path: DISTRICTS_ASSET, message: 'expected an object keyed by CDS code' }];
+    return Object.entries(value).flatMap(([key, district]) => {
+        const path = keyPath(DISTRICTS_ASSET, key);
+        const violations = validateDistrictRecord(district, path);
+        if (isPlainObject(district) && district['CDS Code'] !== key) {
+            violations.push({ path: `${path}["CDS Code"]`, message: `does not match its key ${key}` });
+        }
+        return violations;
+    });
+}
+
+export function validateSchoolsByDistrictData(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value)) return [{ path: SCHOOLS_ASSET, message: 'expected an object keyed by district CDS code' }];
+    return Object.entries(value).flatMap(([key, schools]) => {
+        const path = keyPath(SCHOOLS_ASSET, key);
+        const violations = validateSchoolList(schools, path);
+        if (Array.isArray(schools)) {
+            // Schools belong to the district whose CDS code shares the first 7 digits
+            schools.forEach((school, index) => {
+                const code = isPlainObject(school) ? school['CDS Code'] : undefined;
+                if (typeof code === 'string' && code.slice(0, 7) !== key.slice(0, 7)) {
+                    violations.push({ path: `${path}[${index}]["CDS Code"]`, message: `is not in district ${key}` });
+                }
+                const authorizer = isPlainObject(school) ? school.authorizerCdsCode : undefined;
+                if (authorizer !== undefined && authorizer !== key) {
+                    violations.push({ path: `${path}[${index}].authorizerCdsCode`, message: `charters are grouped under their authorizer ${key}` });
+                }
+            });
+        }
+        return violations;
+    });
+}
+
+export function validatePrerenderParams(value: unknown): SchemaViolation[] {
+    if (!Array.isArray(value)) return [{ path: PRERENDER_PARAMS_ASSET, message: 'expected an array of { districtSlug }' }];
+    const seen = new Set<unknown>();
+    return value.flatMap((param, index) => {
+        const path = `${PRERENDER_PARAMS_ASSET}[${index}]`;
+        const violations = validateRecord(param, { districtSlug: slug }, path);
+        if (isPlainObject(param)) {
+            if (seen.has(param.districtSlug)) violations.push({ path: `${path}.districtSlug`, message: `duplicate slug ${param.districtSlug}` });
+            seen.add(param.districtSlug);
+        }
+        return violations;
+    });
+}
+
+export function validateHistoryData(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value)) return [{ path: HISTORY_ASSET, message: 'expected { districts, schoolsByDistrict }' }];
+    const violations: SchemaViolation[] = [];
+    const { districts, schoolsByDistrict } = value;
+    if (!isPlainObject(districts)) {
+        violations.push({ path: `${HISTORY_ASSET}.districts`, message: 'expected an object keyed by CDS code' });
+    } else {
+        for (const [key, district] of Object.entries(districts)) {
+            violations.push(...validateRecord(district, ARCHIVED_DISTRICT_SCHEMA, keyPath(`${HISTORY_ASSET}.districts`, key)));
+        }
+    }
+    if (!isPlainObject(schoolsByDistrict)) {
+        violations.push({ path: `${HISTORY_ASSET}.schoolsByDistrict`, message: 'expected an object keyed by district CDS code' });
+    } else {
+        for (const [key, schools] of Object.entries(schoolsByDistrict)) {
+            const path = keyPath(`${HISTORY_ASSET}.schoolsByDistrict`, key);
+            if (!Array.isArray(schools)) {
+                violations.push({ path, message: 'expected an array of schools' });
+                continue;
+            }
+            schools.forEach((school, index) => violations.push(...validateRecord(school, ARCHIVED_SCHOOL_SCHEMA, `${path}[${index}]`)));
+        }
+    }
+    return violations;
+}
+
+export function validateSlugRegistry(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value)) return [{ path: SLUG_REGISTRY_ASSET, message: 'expected an object keyed by CDS code' }];
+    const violations: SchemaViolation[] = [];
+    // A slug, current or previous, may only ever belong to one district
+    const owners = new Map<unknown, string>();
+    for (const [key, entry] of Object.entries(value)) {
+        const path = keyPath(SLUG_REGISTRY_ASSET, key);
+        const keyProblem = cdsCode(key);
+        if (keyProblem) violations.push({ path, message: keyProblem });
+        if (!isPlainObject(entry)) {
+            violations.push({ path, message: 'expected { current, previous }' });
+            continue;
+        }
+        violations.push(...validateRecord(entry, { current: slug }, path));
+        if (!Array.isArray(entry.previous)) {
+            violations.push({ path: `${path}.previous`, message: 'expected an array of slugs' });
+            continue;
+        }
+        entry.previous.forEach((previous, index) => {
+            const problem = slug(previous);
+            if (problem) violations.push({ path: `${path}.previous[${index}]`, message: problem });
+        });
+        for (const owned of [entry.current, ...entry.previous]) {
+            const owner = owners.get(owned);
+            if (owner !== undefined) {
+                violations.push({ path, message: `slug ${owned} is also registered for ${owner}` });
+            } else {
+                owners.set(owned, key);
+            }
+        }
+    }
+    return violations;
+}
+
+export function validateSchoolShardManifest(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value)) return [{ path: SCHOOL_SHARD_MANIFEST_ASSET, message: 'expected an object keyed by district CDS code' }];
+    return Object.entries(value).flatMap(([key, entry]) => {
+        const path = keyPath(SCHOOL_SHARD_MANIFEST_ASSET, key);
+        const keyProblem = cdsCode(key);
+        return [
+            ...(keyProblem ? [{ path, message: keyProblem }] : []),
+            ...validateRecord(entry, {
+                file: shardFileName,
+                count: nonNegativeNumber,
+            }, path),
+        ];
+    });
+}
+
+export function validateSearchIndex(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value) || !Array.isArray(value.districts)) return [{ path: SEARCH_INDEX_ASSET, message: 'expected { version, districts }' }];
+    const violations = validateRecord(value, { version: nonNegativeNumber }, SEARCH_INDEX_ASSET);
+    const rowRules: FieldRule[] = [
+        requiredText, slug, text, text, searchTokens, cdsCode,
+        optional(numberBetween(-90, 90)), optional(numberBetween(-180, 180)), optional(geocodePrecision), optional(fraction),
+    ];
+    value.districts.forEach((row, index) => {
+        const path = `${SEARCH_INDEX_ASSET}.districts[${index}]`;
+        if (!Array.isArray(row) || row.length !== rowRules.length) {
+            violations.push({ path, message: 'expected [name, slug, county, city, tokens, cdsCode, latitude, longitude, geocodePrecision, geocodeConfidence]' });
+            return;
+        }
+        rowRules.forEach((rule, column) => {
+            const problem = rule(row[column]);
+            if (problem) violations.push({ path: `${path}[${column}]`, message: `${problem}, got ${JSON.stringify(row[column])}` });
+        });
+    });
+    return violations;
+}
+
+export function validateDataSnapshot(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value) || !Array.isArray(value.sources)) return [{ path: DATA_SNAPSHOT_ASSET, message: 'expected { id, generatedAt, pipelineVersion, sources, counts }' }];
+    const violations = validateRecord(value, {
+        id: requiredText,
+        generatedAt: timestamp,
+        pipelineVersion: requiredText,
+    }, DATA_SNAPSHOT_ASSET);
+    value.sources.forEach((source, index) => violations.push(...validateRecord(source, {
+        kind: oneOf(['directory', 'boundaries']),
+        label: requiredText,
+        url: httpUrl,
+        file: requiredText,
+        sha256,
+        bytes: nonNegativeNumber,
+        exportDate: isoDate,
+        exportDateFrom: oneOf(['records', 'file']),
+    }, `${DATA_SNAPSHOT_ASSET}.sources[${index}]`)));
+    violations.push(...validateRecord(value.counts, {
+        districts: nonNegativeNumber,
+        schools: nonNegativeNumber,
+        districtsWithBoundary: nonNegativeNumber,
+        archivedDistricts: nonNegativeNumber,
+        archivedSchools: nonNegativeNumber,
+    }, `${DATA_SNAPSHOT_ASSET}.counts`));
+    return violations;
+}
+
+const CHANGE_KINDS = ['added', 'removed', 'renamed', 'address', 'website', 'phone', 'grades', 'moved'];
+
+const changeLogBuild: FieldRule = value =>
+    isPlainObject(value) && (value.snapshotId === null || typeof value.snapshotId === 'string') && optional(isoDate)(value.dataDate) === null
+        ? null
+        : 'expected { snapshotId, dataDate }';
+
+const changeCounts: FieldRule = value =>
+    isPlainObject(value) && Object.entries(value).every(([kind, count]) => CHANGE_KINDS.includes(kind) && nonNegativeNumber(count) === null)
+        ? null
+        : 'expected change counts by kind';
+
+export function validateChangeLog(value: unknown): SchemaViolation[] {
+    if (!isPlainObject(value) || !isPlainObject(value.districts)) return [{ path: CHANGE_LOG_ASSET, message: 'expected { generatedAt, from, to, summary, districts }' }];
+    const violations = validateRecord(value, {
+        generatedAt: timestamp,
+        from: optional(changeLogBuild),
+        to: changeLogBuild,
+        summary: changeCounts,
+    }, CHANGE_LOG_ASSET);
+    for (const [key, section] of Object.entries(value.districts)) {
+        const path = keyPath(`${CHANGE_LOG_ASSET}.districts`, key);
+        const keyProblem = cdsCode(key);
+        if (keyProblem) violations.push({ path, message: keyProblem });
+        violations.push(...validateRecord(section, { name: requiredText, slug: optional(slug) }, path));
+        if (!isPlainObject(section) || !Array.isArray(section.changes)) {
+            violations.push({ path: `${path}.changes`, message: 'expected a list of changes' });
+            continue;
+        }
+        section.changes.forEach((change, index) => violations.push(...validateRecord(change, {
+            kind: oneOf(CHANGE_KINDS),
+            entity: oneOf(['district', 'school']),
+            cdsCode,
+            name: requiredText,
+            from: optional(text),
+            to: optional(text),
+            distanceMeters: optional(nonNegativeNumber),
+        }, `${path}.changes[${index}]`)));
+    }
+    return violations;
+}
+
+/**
+ * Validates the generated assets together, including references between them: every school group
+ * and every prerendered or searchable slug must point at a district in districts.json, and archived districts
+ * must not clash with active ones.
+ */
+export function validateDataAssets(assets: { districts: unknown; schoolsByDistrict: unknown; prerenderParams: unknown; history?: unknown; slugRegistry?: unknown; searchIndex?: unknown }): SchemaViolation[] {
+    const violations = [
+        ...validateDistrictsData(assets.districts),
+        ...validateSchoolsByDistrictData(assets.schoolsByDistrict),
+        ...validatePrerenderParams(assets.prerenderParams),
+        ...(assets.searchIndex !== undefined ? validateSearchIndex(assets.searchIndex) : []),
+        ...(assets.history !== undefined ? validateHistoryData(assets.history) : []),
+        ...(assets.slugRegistry !== undefined ? validateSlugRegistry(assets.slugRegistry) : []),
+    ];
+    if (violations.length > 0) return violations;
+
+    const districts = assets.districts as DistrictDataMap;
+    const slugs = new Set(Object.values(districts).map(district => district.slug));
+    for (const key of Object.keys(assets.schoolsByDistrict as SchoolsByDistrictMap)) {
+        if (!districts[key]) violations.push({ path: keyPath(SCHOOLS_ASSET, key), message: `no district ${key} in ${DISTRICTS_ASSET}` });
+    }
+    (assets.prerenderParams as PrerenderParam[]).forEach((param, index) => {
+        if (!slugs.has(param.districtSlug)) {
+            violations.push({ path: `${PRERENDER_PARAMS_ASSET}[${index}].districtSlug`, message: `no district with slug ${param.districtSlug} in ${DISTRICTS_ASSET}` });
+        }
+    });
+
+    if (assets.searchIndex !== undefined) {
+        (assets.searchIndex as SearchIndex).districts.forEach(([, districtSlug], index) => {
+            if (!slugs.has(districtSlug)) {
+                violations.push({ path: `${SEARCH_INDEX_ASSET}.districts[${index}][1]`, message: `no district with slug ${districtSlug} in ${DISTRICTS_ASSET}` });
+            }
+        });
+    }
+
+    // Archived pages share the district URL space and may only point at active successors
+    if (assets.history !== undefined) {
+        for (const [key, archived] of Object.entries((assets.history as HistoryData).districts)) {
+            const path = keyPath(`${HISTORY_ASSET}.districts`, key);
+            if (districts[key]) violations.push({ path, message: `is also an active district in ${DISTRICTS_ASSET}` });
+            if (slugs.has(archived.slug)) violations.push({ path: `${path}.slug`, message: `slug ${archived.slug} is already used by an active district` });
+            if (archived.successorCdsCode && !districts[archived.successorCdsCode]) {
+                violations.push({ path: `${path}.successorCdsCode`, message: `no district ${archived.successorCdsCode} in ${DISTRICTS_ASSET}` });
+            }
+        }
+    }
+
+    // Every page's slug must be the current one in the registry, or its old URLs would redirect elsewhere
+    if (assets.slugRegistry !== undefined) {
+        const registry = assets.slugRegistry as SlugRegistry;
+        const pages = [
+            ...Object.values(districts),
+            ...(assets.history !== undefined ? Object.values((assets.history as HistoryData).districts) : []),
+        ];
+        const previousOwners = new Map<string, string>();
+        for (const [key, entry] of Object.entries(registry)) entry.previous.forEach(previous => previousOwners.set(previous, key));
+        for (const page of pages) {
+            const entry = registry[page['CDS Code']];
+            if (!entry || entry.current !== page.slug) {
+                violations.push({ path: keyPath(SLUG_REGISTRY_ASSET, page['CDS Code']), message: `does not record ${page.slug} as the current slug` });
+            }
+            const owner = previousOwners.get(page.slug);
+            if (owner !== undefined) {
+                violations.push({ path: `${keyPath(SLUG_REGISTRY_ASSET, owner)}.previous`, message: `slug ${page.slug} is the page of district ${page['CDS Code']}` });
+            }
+        }
+    }
+    return violations;
+}
+
+// --- Reporting ---
+export function formatViolationReport(label: string, violations: SchemaViolation[], maxListed = MAX_LISTED_VIOLATIONS): string {
+    const lines = [`${label} failed schema validation with ${violations.length} violation(s):`];
+    violations.slice(0, maxListed).forEach(violation => lines.push(`  - ${violation.path}: ${violation.message}`));
+    if (violations.length > maxListed) lines.push(`  ... and ${violations.length - maxListed} more.`);
+    return lines.join('\n');
+}
+
+export class DataSchemaError extends Error {
+    constructor(readonly label: string, readonly violations: SchemaViolation[]) {
+        super(formatViolationReport(label, violations));
+        this.name = 'DataSchemaError';
+    }
+}
+
+function assertValid<T>(label: string, value: unknown, violations: SchemaViolation[]): T {
+    if (violations.length > 0) throw new DataSchemaError(label, violations);
+    return value as T;
+}
+
+// --- Parsers: validate and return typed data, or throw DataSchemaError ---
+export const parseDistrictsData = (value: unknown): DistrictDataMap =>
+    assertValid(DISTRICTS_ASSET, value, validateDistrictsData(value));
+
+export const parseSchoolsByDistrictData = (value: unknown): SchoolsByDistrictMap =>
+    assertValid(SCHOOLS_ASSET, value, validateSchoolsByDistrictData(value));
+
+export const parsePrerenderParams = (value: unknown): PrerenderParam[] =>
+    assertValid(PRERENDER_PARAMS_ASSET, value, validatePrerenderParams(value));
+
+export const parseHistoryData = (value: unknown): HistoryData =>
+    assertValid(HISTORY_ASSET, value, validateHistoryData(value));
+
+export const parseSlugRegistry = (value: unknown): SlugRegistry =>
+    assertValid(SLUG_REGISTRY_ASSET, value, validateSlugRegistry(value));
+
+export const parseSchoolShardManifest = (value: unknown): SchoolShardManifest =>
+    assertValid(SCHOOL_SHARD_MANIFEST_ASSET, value, validateSchoolShardManifest(value));
+
+export const parseSearchIndex = (value: unknown): SearchIndex =>
+    assertValid(SEARCH_INDEX_ASSET, value, validateSearchIndex(value));
+
+export const parseDataSnapshot = (value: unknown): DataSnapshot =>
+    assertValid(DATA_SNAPSHOT_ASSET, value, validateDataSnapshot(value));
+
+export const parseChangeLog = (value: unknown): DataChangeLog =>
+    assertValid(CHANGE_LOG_ASSET, value, validateChangeLog(value));
+
+export const parseDistrictRecord = (value: unknown): DistrictDetails =>
+    assertValid('District data', value, validateDistrictRecord(value));
+
+export const parseSchoolList = (value: unknown): SchoolDetails[] =>
+    assertValid('School data', value, validateSchoolList(value));
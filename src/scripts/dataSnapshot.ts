@@ -0,0 +1,26 @@
+// src/scripts/dataSnapshot.ts
+// Display helpers for data-snapshot.json, written by the pipeline's build:snapshot stage. Pages
+// show when the data is from, not when the site was built.
+import type { DataSnapshot, DataSnapshotSource } from './types';
+
+export const DATA_SNAPSHOT_PAGE = 'data-snapshot/';
+
+// "2024-06-20" -> "June 20, 2024"; dates are calendar days, so they are formatted in UTC
+export function formatSnapshotDate(isoDate: string): string {
+    return new Date(`${isoDate.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+    });
+}
+
+// The date district and school details are current as of: that of the directory data
+export function snapshotDataDate(snapshot: DataSnapshot): string | null {
+    return snapshot.sources.find(source => source.kind === 'directory')?.exportDate ?? null;
+}
+
+export function describeExportDate(source: DataSnapshotSource): string {
+    const date = formatSnapshotDate(source.exportDate);
+    return source.exportDateFrom === 'records' ? `${date} (latest record update)` : `${date} (file date)`;
+}
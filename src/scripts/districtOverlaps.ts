@@ -0,0 +1,73 @@
+// src/scripts/districtOverlaps.ts
+// An address in California can be served by an elementary and a high school district at once.
+// The boundary stage sorts boundaries into layers and records, for each district, the districts of
+// other layers its area overlaps; these helpers give district pages that list.
+import type { BoundaryLayerKey, DistrictDataMap, DistrictDetails } from './types.js';
+
+export interface BoundaryLayer {
+    key: BoundaryLayerKey;
+    label: string;
+}
+
+// In display order
+export const BOUNDARY_LAYERS: BoundaryLayer[] = [
+    { key: 'elementary', label: 'Elementary School Districts' },
+    { key: 'high', label: 'High School Districts' },
+    { key: 'unified', label: 'Unified School Districts' },
+];
+
+/**
+ * Layer of a boundary from its district type: the `DistrictType` of the boundary file
+ * ("Elementary", "High", "Unified") or a CDE `Entity Type` ("High School District").
+ * Returns null for types without a boundary layer, such as county offices.
+ */
+export function boundaryLayerOf(districtType: unknown): BoundaryLayerKey | null {
+    const type = String(districtType ?? '').toLowerCase();
+    if (type.includes('elementary')) return 'elementary';
+    if (type.includes('high')) return 'high';
+    if (type.includes('unified')) return 'unified';
+    return null;
+}
+
+export interface OverlappingDistrict {
+    cdsCode: string;
+    name: string;
+    layer: BoundaryLayerKey;
+    // Page of the district, when it has one
+    href: string | null;
+}
+
+export interface OverlappingDistrictGroup {
+    layer: BoundaryLayer;
+    districts: OverlappingDistrict[];
+}
+
+/**
+ * The districts whose boundary overlaps `district`, grouped by layer in display order and sorted
+ * by name. `baseUrl` is the site base used to link to their pages.
+ */
+export function listOverlappingDistricts(
+    district: DistrictDetails,
+    districts: DistrictDataMap,
+    baseUrl: string
+): OverlappingDistrictGroup[] {
+    const overlapping: OverlappingDistrict[] = [];
+    for (const cdsCode of district.overlappingDistrictCdsCodes || []) {
+        const partner = districts[cdsCode];
+        if (!partner?.boundaryLayer) continue;
+        overlapping.push({
+            cdsCode,
+            name: partner.District,
+            layer: partner.boundaryLayer,
+            href: partner.slug ? `${baseUrl}districts/${partner.slug}/` : null,
+        });
+    }
+    return BOUNDARY_LAYERS
+        .map(layer => ({
+            layer,
+            districts: overlapping
+                .filter(partner => partner.layer === layer.key)
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        }))
+        .filter(group => group.districts.length > 0);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isValidCoordinate, formatAddress, formatWebsiteLink } from './districtUtils';
+import { isValidCoordinate, formatAddress, formatWebsiteLink, collectSlugRedirects } from './districtUtils';
 
 describe('districtUtils', () => {
     describe('isValidCoordinate', () => {
@@ -96,4 +96,21 @@ describe('districtUtils', () => {
             expect(formatWebsiteLink('internalpage')).toBe('internalpage');
         });
     });
-}); 
\ No newline at end of file
+
+    describe('collectSlugRedirects', () => {
+        it('should redirect previous slugs to built pages only', () => {
+            const registry = {
+                '01611920000000': { current: 'hayward-unified-01611920000000', previous: ['hayward-usd-01611920000000'] },
+                '01612000000000': { current: 'gone-01612000000000', previous: ['gone-district-01612000000000'] },
+            };
+            expect(collectSlugRedirects(registry, new Set(['hayward-unified-01611920000000']))).toEqual([
+                { from: 'hayward-usd-01611920000000', to: 'hayward-unified-01611920000000' },
+            ]);
+        });
+
+        it('should not replace an existing page with a redirect', () => {
+            const registry = { '01611920000000': { current: 'b-01611920000000', previous: ['a-01611920000000'] } };
+            expect(collectSlugRedirects(registry, new Set(['a-01611920000000', 'b-01611920000000']))).toEqual([]);
+        });
+    });
+});
@@ -1,28 +1,135 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import type { DistrictDetails, SchoolDetails, DistrictDataMap, SchoolsByDistrictMap } from './types';
+import type { DistrictDetails, SchoolDetails, DistrictDataMap, SchoolsByDistrictMap, HistoryData, SlugRegistry, SlugRedirect, DataSnapshot, DataChangeLog } from './types';
+import { parseChangeLog, parseDataSnapshot, parseDistrictsData, parseHistoryData, parseSchoolsByDistrictData, parseSlugRegistry } from './dataSchema';
+import { countSchoolAttributes, getSchoolAttributes } from './schoolAttributes';
+import { splitAuthorizedCharters, type LocatedCharter } from './charterRelationships';
+import type { OverlappingDistrictGroup } from './districtOverlaps';
+import { profileLinkUrl } from './stateProfile';
+import { formatAddress } from './addressStandardizer';
+import { STATE_PROFILE } from '../siteConfig';
 
 // --- Data Loading Helpers ---
+// Schema violations are not caught here: the build should stop with the violation report.
 export async function loadDistrictData(): Promise<DistrictDataMap> {
     const filePath = path.resolve(process.cwd(), 'public/assets/districts.json');
+    let data: unknown;
     try {
         const fileContent = await fs.readFile(filePath, 'utf-8');
-        return JSON.parse(fileContent);
+        data = JSON.parse(fileContent);
     } catch (error) {
         console.error("Error loading districts.json:", error);
         throw new Error("Could not load district data.");
     }
+    return parseDistrictsData(data);
 }
 
 export async function loadSchoolsData(): Promise<SchoolsByDistrictMap> {
     const filePath = path.resolve(process.cwd(), 'public/assets/schools_by_district.json');
+    let data: unknown;
     try {
         const fileContent = await fs.readFile(filePath, 'utf-8');
-        return JSON.parse(fileContent);
+        data = JSON.parse(fileContent);
     } catch (error) {
         console.error("Error loading schools_by_district.json:", error);
         throw new Error("Could not load schools data.");
     }
+    return parseSchoolsByDistrictData(data);
+}
+
+// The history file is newer than the other assets; a checkout without it simply has no archived pages.
+export async function loadHistoryData(): Promise<HistoryData> {
+    const filePath = path.resolve(process.cwd(), 'public/assets/district_history.json');
+    let data: unknown;
+    try {
+        const fileContent = await fs.readFile(filePath, 'utf-8');
+        data = JSON.parse(fileContent);
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            console.warn("district_history.json not found; no archived district pages will be built.");
+            return { districts: {}, schoolsByDistrict: {} };
+        }
+        console.error("Error loading district_history.json:", error);
+        throw new Error("Could not load history data.");
+    }
+    return parseHistoryData(data);
+}
+
+export async function loadSlugRegistry(): Promise<SlugRegistry> {
+    const filePath = path.resolve(process.cwd(), 'public/assets/slug-registry.json');
+    let data: unknown;
+    try {
+        const fileContent = await fs.readFile(filePath, 'utf-8');
+        data = JSON.parse(fileContent);
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            console.warn("slug-registry.json not found; no redirect pages will be built.");
+            return {};
+        }
+        console.error("Error loading slug-registry.json:", error);
+        throw new Error("Could not load slug registry.");
+    }
+    return parseSlugRegistry(data);
+}
+
+// Every page shows the data vintage, so the snapshot is read once per build. Without it (a
+// checkout that has not run the pipeline) pages fall back to the build date.
+let dataSnapshotPromise: Promise<DataSnapshot | null> | null = null;
+
+export function loadDataSnapshot(): Promise<DataSnapshot | null> {
+    dataSnapshotPromise ??= (async () => {
+        const filePath = path.resolve(process.cwd(), 'public/assets/data-snapshot.json');
+        let data: unknown;
+        try {
+            const fileContent = await fs.readFile(filePath, 'utf-8');
+            data = JSON.parse(fileContent);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                console.warn("data-snapshot.json not found; pages will show the build date instead of the data date.");
+                return null;
+            }
+            console.error("Error loading data-snapshot.json:", error);
+            throw new Error("Could not load data snapshot.");
+        }
+        return parseDataSnapshot(data);
+    })();
+    return dataSnapshotPromise;
+}
+
+// Read once per build like the snapshot; without it, district pages have no change link
+let changeLogPromise: Promise<DataChangeLog | null> | null = null;
+
+export function loadChangeLog(): Promise<DataChangeLog | null> {
+    changeLogPromise ??= (async () => {
+        const filePath = path.resolve(process.cwd(), 'public/assets/changelog.json');
+        let data: unknown;
+        try {
+            const fileContent = await fs.readFile(filePath, 'utf-8');
+            data = JSON.parse(fileContent);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                console.warn("changelog.json not found; the change log page will be empty.");
+                return null;
+            }
+            console.error("Error loading changelog.json:", error);
+            throw new Error("Could not load change log.");
+        }
+        return parseChangeLog(data);
+    })();
+    return changeLogPromise;
+}
+
+// --- Slug Redirects ---
+// Old slugs redirect to the current one, but only when that page is built and the old slug isn't a page itself.
+export function collectSlugRedirects(registry: SlugRegistry, pageSlugs: Set<string>): SlugRedirect[] {
+    const redirects: SlugRedirect[] = [];
+    for (const entry of Object.values(registry)) {
+        if (!pageSlugs.has(entry.current)) continue;
+        for (const previous of entry.previous) {
+            if (!pageSlugs.has(previous)) redirects.push({ from: previous, to: entry.current });
+        }
+    }
+    return redirects;
 }
 
 // --- Validation Helper ---
@@ -37,38 +144,8 @@ export function isValidCoordinate(lat: string | number | null | undefined, lon:
 }
 
 // --- Formatting Helpers ---
-export const formatAddress = (street: string, city: string, state: string, zip: string): string => {
-    const S = street && street.toLowerCase() !== 'no data' && street.trim() !== '' ? street.trim() : null;
-    const C = city && city.toLowerCase() !== 'no data' && city.trim() !== '' ? city.trim() : null;
-    const ST = state && state.toLowerCase() !== 'no data' && state.trim() !== '' ? state.trim() : null;
-    const Z = zip && zip.toLowerCase() !== 'no data' && zip.trim() !== '' ? zip.trim() : null;
-
-    const addressParts: string[] = [];
-    if (S) addressParts.push(S);
-
-    const cityStateZipParts: string[] = [];
-    if (C) cityStateZipParts.push(C);
-    if (ST) cityStateZipParts.push(ST);
-
-    if (Z) {
-        // If state is present and it's the last part of cityStateZipParts, append zip to it.
-        // Otherwise, add zip as a new part if city or state is already there, or if it's the only part.
-        if (ST && cityStateZipParts.length > 0 && cityStateZipParts[cityStateZipParts.length - 1] === ST) {
-            cityStateZipParts[cityStateZipParts.length - 1] = `${ST} ${Z}`;
-        } else if (C || ST) { // Only add Zip as a separate part if City or State exists
-            cityStateZipParts.push(Z);
-        } else { // If only Zip is present from C, ST, Z block
-            cityStateZipParts.push(Z);
-        }
-    }
-
-    if (cityStateZipParts.length > 0) {
-        addressParts.push(cityStateZipParts.join(', '));
-    }
-
-    if (addressParts.length === 0) return 'Address Not Available';
-    return addressParts.join(', ');
-};
+// Re-exported for the pages that format addresses alongside the other district helpers
+export { formatAddress };
 
 export const formatWebsiteLink = (url: string): string => {
     if (!url || url === 'No Data') return 'Website Not Available';
@@ -85,57 +162,118 @@ const ICON_DASHBOARD = '<svg xmlns="http://www.w3.org/2000/svg" class="link-icon
 const ICON_FILE_TEXT = '<svg xmlns="http://www.w3.org/2000/svg" class="link-icon" width="16" height="16" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M14 3v4a1 1 0 0 0 1 1h4" /><path d="M17 21h-10a2 2 0 0 1 -2 -2v-14a2 2 0 0 1 2 -2h7l5 5v11a2 2 0 0 1 -2 2z" /><path d="M9 9l1 0" /><path d="M9 13l6 0" /><path d="M9 17l6 0" /></svg>';
 const ICON_EXTERNAL_LINK = '<svg xmlns="http://www.w3.org/2000/svg" class="link-icon" width="16" height="16" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M12 6h-6a2 2 0 0 0 -2 2v10a2 2 0 0 0 2 2h10a2 2 0 0 0 2 -2v-6" /><path d="M11 13l9 -9" /><path d="M15 4h5v5" /></svg>';
 
+const PROFILE_LINK_ICONS = { dashboard: ICON_DASHBOARD, profile: ICON_FILE_TEXT };
+
+// Links to the state profile's official pages about a district or school
+function renderProfileLinks(kind: 'district' | 'school', id: string): string {
+    return STATE_PROFILE.links.map(link => {
+        const href = profileLinkUrl(kind === 'district' ? link.districtUrl : link.schoolUrl, id);
+        return `<a href="${href}" target="_blank" rel="noopener noreferrer">${PROFILE_LINK_ICONS[link.icon]}${link.label}</a>&nbsp;|&nbsp;`;
+    }).join('\n                    ');
+}
+
 // --- HTML Rendering Helper (If complex, consider an Astro Component) ---
-export function renderDistrictInfoHtml(district: DistrictDetails, schools: SchoolDetails[]): string {
-    const cdsCode = district['CDS Code'] || 'unknown';
-    if (!district) {
-        return `<p>District data not found.</p>`;
-    }
+function renderSchoolListItem(school: SchoolDetails, extraHtml = ''): string {
+    const schoolCds = school['CDS Code'];
+    const schoolGradeSpan = (school['Low Grade'] && school['High Grade'] && school['Low Grade'] !== 'No Data' && school['High Grade'] !== 'No Data') ? `(${school['Low Grade']} - ${school['High Grade']})` : '';
+    const schoolAddress = formatAddress(school['Street Address'], school['Street City'], school['Street State'], school['Street Zip']);
+    const schoolWebsiteHref = formatWebsiteLink(school.Website);
 
-    const districtAddress = formatAddress(district['Street Address'], district['Street City'], district['Street State'], district['Street Zip']);
-    const gradeSpan = (district['Low Grade'] && district['High Grade'] && district['Low Grade'] !== 'No Data' && district['High Grade'] !== 'No Data') ? `${district['Low Grade']} - ${district['High Grade']}` : 'N/A';
-    const dashboardLink = `https://www.caschooldashboard.org/reports/gissearch/districts/${cdsCode}`;
-    const cdeProfileLink = `https://www.cde.ca.gov/schooldirectory/details?cdscode=${cdsCode}`;
-    const districtWebsiteHref = formatWebsiteLink(district.Website);
+    const attributes = getSchoolAttributes(school);
+    const badgesHtml = attributes.map(attribute => {
+        const title = attribute.key === 'charter' && school['Charter Number'] && school['Charter Number'] !== 'No Data' ? ` title="Charter #${school['Charter Number']}"` : '';
+        return `<span class="school-badge school-badge-${attribute.key}"${title}>${attribute.label}</span>`;
+    }).join(' ');
 
-    let schoolsHtml = '<p>No active, public schools found matching criteria for this district.</p>';
-    if (schools && schools.length > 0) {
-        schoolsHtml = '<ul class="school-list">';
-        schools.forEach((school: SchoolDetails) => {
-            const schoolCds = school['CDS Code'];
-            const schoolGradeSpan = (school['Low Grade'] && school['High Grade'] && school['Low Grade'] !== 'No Data' && school['High Grade'] !== 'No Data') ? `(${school['Low Grade']} - ${school['High Grade']})` : '';
-            const schoolAddress = formatAddress(school['Street Address'], school['Street City'], school['Street State'], school['Street Zip']);
-            const schoolWebsiteHref = formatWebsiteLink(school.Website);
-            const schoolDashboardLink = `https://www.caschooldashboard.org/reports/gissearch/schools/${schoolCds}`;
-            const schoolCdeLink = `https://www.cde.ca.gov/schooldirectory/details?cdscode=${schoolCds}`;
-
-            schoolsHtml += `
-                <li key="${schoolCds}">
+    return `
+                <li key="${schoolCds}" data-attributes="${attributes.map(attribute => attribute.key).join(' ')}">
                 <div class="school-name-grades">
                     <strong>${school.School || 'Unknown School'}</strong> ${schoolGradeSpan}
+                    ${badgesHtml ? `<span class="school-badges">${badgesHtml}</span>` : ''}
                 </div>
                 <div class="school-links">
-                    <a href="${schoolDashboardLink}" target="_blank" rel="noopener noreferrer">${ICON_DASHBOARD}Dashboard</a>&nbsp;|&nbsp;
-                    <a href="${schoolCdeLink}" target="_blank" rel="noopener noreferrer">${ICON_FILE_TEXT}CDE Profile</a>&nbsp;|&nbsp;
+                    ${renderProfileLinks('school', schoolCds)}
                     ${school.Website !== 'No Data' ? `<a href="${schoolWebsiteHref}" target="_blank" rel="noopener noreferrer">${ICON_EXTERNAL_LINK}Website</a>` : 'Website Not Available'}
                 </div>
                 <div class="school-address">
                     ${schoolAddress}
-                </div>
+                </div>${extraHtml}
                 </li>
             `;
-        });
-        schoolsHtml += '</ul>';
+}
+
+const renderSchoolGroup = (title: string, itemsHtml: string[]): string => `
+        <section class="school-group">
+            <h3>${title} (<span class="school-count">${itemsHtml.length}</span>)</h3>
+            <ul class="school-list">${itemsHtml.join('')}</ul>
+        </section>`;
+
+/**
+ * `schools` are the schools grouped under the district; its charters are listed apart from the
+ * schools it runs. `locatedCharters` are the charters inside its boundary, whatever their authorizer.
+ * `overlappingDistricts` are the districts of other boundary layers serving part of the same area.
+ */
+export function renderDistrictInfoHtml(
+    district: DistrictDetails,
+    schools: SchoolDetails[],
+    locatedCharters: LocatedCharter[] = [],
+    overlappingDistricts: OverlappingDistrictGroup[] = []
+): string {
+    const cdsCode = district['CDS Code'] || 'unknown';
+    if (!district) {
+        return `<p>District data not found.</p>`;
     }
 
+    const districtAddress = formatAddress(district['Street Address'], district['Street City'], district['Street State'], district['Street Zip']);
+    const gradeSpan = (district['Low Grade'] && district['High Grade'] && district['Low Grade'] !== 'No Data' && district['High Grade'] !== 'No Data') ? `${district['Low Grade']} - ${district['High Grade']}` : 'N/A';
+    const districtWebsiteHref = formatWebsiteLink(district.Website);
+
+    const { schools: districtSchools, charters: authorizedCharters } = splitAuthorizedCharters(schools || []);
+    let schoolsHtml = '<p>No active, public schools found matching criteria for this district.</p>';
+    if (districtSchools.length > 0 || authorizedCharters.length > 0 || locatedCharters.length > 0) {
+        schoolsHtml = '';
+        if (districtSchools.length > 0) {
+            schoolsHtml += renderSchoolGroup('Schools in District', districtSchools.map(school => renderSchoolListItem(school)));
+        }
+        if (authorizedCharters.length > 0) {
+            schoolsHtml += renderSchoolGroup('Charters Authorized by This District', authorizedCharters.map(school => renderSchoolListItem(school)));
+        }
+        if (locatedCharters.length > 0) {
+            schoolsHtml += renderSchoolGroup("Charters Located Within This District's Boundary", locatedCharters.map(charter => {
+                const authorizer = charter.authorizerCdsCode === cdsCode
+                    ? 'this district'
+                    : (charter.authorizerHref ? `<a href="${charter.authorizerHref}">${charter.authorizerName}</a>` : charter.authorizerName);
+                return renderSchoolListItem(charter.school, `
+                <div class="school-authorizer">Authorized by ${authorizer}</div>`);
+            }));
+        }
+    }
+
+    // For example the high school district an elementary district's students go on to
+    const overlapsHtml = overlappingDistricts.length > 0 ? `
+            <div class="overlapping-districts">
+                <h3>Overlapping Districts</h3>
+                ${overlappingDistricts.map(group => `<p><strong>${group.layer.label}:</strong> ${group.districts
+                    .map(partner => (partner.href ? `<a href="${partner.href}">${partner.name}</a>` : partner.name))
+                    .join(', ')}</p>`).join('\n                ')}
+            </div>` : '';
+
+    // Filter checkboxes for the attributes present on this page; wired up by the district page script
+    const listedSchools = new Map([...(schools || []), ...locatedCharters.map(charter => charter.school)].map(school => [school['CDS Code'], school]));
+    const attributeCounts = countSchoolAttributes(Array.from(listedSchools.values()));
+    const filtersHtml = attributeCounts.length > 0 ? `
+            <fieldset class="school-filters">
+                <legend>Show only</legend>
+                ${attributeCounts.map(({ attribute, count }) => `<label><input type="checkbox" value="${attribute.key}" /> ${attribute.label} (${count})</label>`).join('\n                ')}
+            </fieldset>` : '';
+
     return `
         <article class="district-page" data-cds-code="${cdsCode}">
         <div class="district-top-row">
         <div class="info-card">
             <h2>${district.District || 'Unknown District'}</h2>
             <div class="district-links">
-                <a href="${dashboardLink}" target="_blank" rel="noopener noreferrer">${ICON_DASHBOARD}Dashboard</a>&nbsp;|&nbsp;
-                <a href="${cdeProfileLink}" target="_blank" rel="noopener noreferrer">${ICON_FILE_TEXT}CDE Profile</a>&nbsp;|&nbsp;
+                ${renderProfileLinks('district', cdsCode)}
                 ${district.Website !== 'No Data' ? `<a href="${districtWebsiteHref}" target="_blank" rel="noopener noreferrer">${ICON_EXTERNAL_LINK}Website</a>` : 'Website Not Available'}
             </div>
             <p><strong>Status:</strong> ${district.Status || 'N/A'}</p>
@@ -143,15 +281,17 @@ export function renderDistrictInfoHtml(district: DistrictDetails, schools: Schoo
             <p><strong>Grades:</strong> ${gradeSpan}</p>
             <p><strong>Address:</strong> ${districtAddress}</p>
             <p><strong>Phone:</strong> ${district.Phone || 'N/A'}</p>
+            ${overlapsHtml}
         </div>
             <div class="district-map-container">
         <div id="info-map-${cdsCode}">Loading Map...</div>
+        ${district.hasBoundary === false ? '<p class="map-note">No boundary map is available for this district.</p>' : ''}
             </div>
         </div>
         <div class="school-list-section">
-            <h3>Schools in District (${schools?.length || 0})</h3>
+            ${filtersHtml}
             ${schoolsHtml}
         </div>
         </article>
     `;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { markerOpacityFor, precisionForLevel, renderGeocodePrecision } from './geocodePrecision';
+
+describe('geocodePrecision', () => {
+    it('should map fallback levels to a precision', () => {
+        expect([1, 2, 3, 4].map(precisionForLevel)).toEqual(['address', 'address', 'street', 'city']);
+    });
+
+    it('should describe the precision and confidence in the popup', () => {
+        expect(renderGeocodePrecision('street', 0.64)).toBe('<span class="geocode-precision geocode-precision-street">Approximate: street only (64% match confidence)</span>');
+        expect(renderGeocodePrecision('source', null)).toBe('<span class="geocode-precision geocode-precision-source">Location from the official data</span>');
+        expect(renderGeocodePrecision(undefined, undefined)).toBe('');
+    });
+
+    it('should fade markers that are only approximately placed', () => {
+        expect(markerOpacityFor('address')).toBe(1);
+        expect(markerOpacityFor(undefined)).toBe(1);
+        expect(markerOpacityFor('city')).toBeLessThan(1);
+    });
+});
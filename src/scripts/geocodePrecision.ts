@@ -0,0 +1,32 @@
+// src/scripts/geocodePrecision.ts
+// How precisely a district office or school is placed on the map. The pipeline records the
+// precision and match confidence of every geocoded record; map popups show them so a marker at a
+// city center is not mistaken for the school's address.
+import type { GeocodePrecision } from './types.js';
+
+// Fallback levels 1-2 matched the address, 3 only the street, 4 only the city
+export function precisionForLevel(level: number): GeocodePrecision {
+    if (level <= 2) return 'address';
+    return level === 3 ? 'street' : 'city';
+}
+
+export const GEOCODE_PRECISION_LABELS: { [precision in GeocodePrecision]: string } = {
+    source: 'Location from the official data',
+    address: 'Located by street address',
+    street: 'Approximate: street only',
+    city: 'Approximate: city center',
+};
+
+// Markers only placed on the street or at the city center are drawn faded
+export const markerOpacityFor = (precision: GeocodePrecision | undefined): number =>
+    precision === 'street' || precision === 'city' ? 0.6 : 1;
+
+/**
+ * Popup line for a record's precision, e.g. "Approximate: street only (64% match confidence)".
+ * Records built before precision was recorded get no line.
+ */
+export function renderGeocodePrecision(precision: GeocodePrecision | undefined, confidence: number | null | undefined): string {
+    if (!precision || !GEOCODE_PRECISION_LABELS[precision]) return '';
+    const confidenceText = typeof confidence === 'number' ? ` (${Math.round(confidence * 100)}% match confidence)` : '';
+    return `<span class="geocode-precision geocode-precision-${precision}">${GEOCODE_PRECISION_LABELS[precision]}${confidenceText}</span>`;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { groupReviewEntriesByCounty, isLowConfidence } from './geocodeReview';
+import type { GeocodeReport, GeocodeReportEntry } from './types';
+
+const entry = (name: string, county: string, status: GeocodeReportEntry['status'], level: number | null, confidence: number | null = null): GeocodeReportEntry => ({
+    kind: 'school',
+    cdsCode: name,
+    name,
+    county,
+    status,
+    level,
+    query: null,
+    displayName: null,
+    confidence,
+});
+
+const report = (records: GeocodeReportEntry[]): GeocodeReport => ({
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    provider: 'fixture',
+    summary: { total: records.length, byStatus: {}, byLevel: {} },
+    records,
+});
+
+describe('geocodeReview', () => {
+    describe('isLowConfidence', () => {
+        it('should flag street+city and city+state matches only', () => {
+            expect(isLowConfidence(entry('A', 'Alameda', 'geocoded', 1))).toBe(false);
+            expect(isLowConfidence(entry('A', 'Alameda', 'geocoded', 2))).toBe(false);
+            expect(isLowConfidence(entry('A', 'Alameda', 'geocoded', 3))).toBe(true);
+            expect(isLowConfidence(entry('A', 'Alameda', 'reused', 4))).toBe(true);
+            expect(isLowConfidence(entry('A', 'Alameda', 'source', null))).toBe(false);
+        });
+
+        it('should flag address matches with a low confidence', () => {
+            expect(isLowConfidence(entry('A', 'Alameda', 'geocoded', 1, 0.9))).toBe(false);
+            expect(isLowConfidence(entry('A', 'Alameda', 'geocoded', 1, 0.4))).toBe(true);
+        });
+    });
+
+    describe('groupReviewEntriesByCounty', () => {
+        it('should group failed and low-confidence records by county', () => {
+            const groups = groupReviewEntriesByCounty(report([
+                entry('Good', 'Alameda', 'geocoded', 1),
+                entry('Street', 'Alameda', 'geocoded', 3),
+                entry('City', 'Alameda', 'geocoded', 4),
+                entry('Lost', 'Alameda', 'failed', null),
+                entry('Centroid', 'Butte', 'geocoded', 4),
+                entry('Source', 'Butte', 'source', null),
+            ]));
+
+            expect(groups.map(g => g.county)).toEqual(['Alameda', 'Butte']);
+            expect(groups[0].failed.map(e => e.name)).toEqual(['Lost']);
+            expect(groups[0].lowConfidence.map(e => e.name)).toEqual(['City', 'Street']);
+            expect(groups[1].lowConfidence.map(e => e.name)).toEqual(['Centroid']);
+        });
+
+        it('should return no groups when everything matched precisely', () => {
+            expect(groupReviewEntriesByCounty(report([entry('Good', 'Alameda', 'geocoded', 1)]))).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { GeocodeReport, GeocodeReportEntry } from './types';
+
+// Fallback levels at or above this only matched a street name or city centroid
+export const LOW_CONFIDENCE_LEVEL = 3;
+// Address matches scored below this (see pipeline/scripts/geocoding/matchScoring.ts) are reviewed too
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+export interface CountyReviewGroup {
+    county: string;
+    failed: GeocodeReportEntry[];
+    lowConfidence: GeocodeReportEntry[];
+}
+
+// --- Data Loading Helper ---
+// The report is a pipeline artifact and is not committed, so a missing file is not an error.
+export async function loadGeocodeReport(): Promise<GeocodeReport | null> {
+    const filePath = path.resolve(process.cwd(), 'pipeline/reports/geocode-report.json');
+    try {
+        const fileContent = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(fileContent);
+    } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+            console.error("Error loading geocode-report.json:", error);
+        }
+        return null;
+    }
+}
+
+export function isLowConfidence(entry: GeocodeReportEntry): boolean {
+    if (entry.status === 'failed' || entry.level === null) return false;
+    return entry.level >= LOW_CONFIDENCE_LEVEL || (entry.confidence != null && entry.confidence < LOW_CONFIDENCE_THRESHOLD);
+}
+
+/**
+ * Groups failed and low-confidence records by county for manual review.
+ * Counties are sorted by name; records within a group by level, then name.
+ */
+export function groupReviewEntriesByCounty(report: GeocodeReport): CountyReviewGroup[] {
+    const groups = new Map<string, CountyReviewGroup>();
+    for (const entry of report.records) {
+        const failed = entry.status === 'failed';
+        if (!failed && !isLowConfidence(entry)) continue;
+
+        const county = entry.county || 'Unknown';
+        if (!groups.has(county)) {
+            groups.set(county, { county, failed: [], lowConfidence: [] });
+        }
+        const group = groups.get(county)!;
+        (failed ? group.failed : group.lowConfidence).push(entry);
+    }
+
+    const byLevelThenName = (a: GeocodeReportEntry, b: GeocodeReportEntry) =>
+        (b.level ?? 0) - (a.level ?? 0) || a.name.localeCompare(b.name);
+    return Array.from(groups.values())
+        .map(group => ({
+            ...group,
+            failed: group.failed.sort(byLevelThenName),
+            lowConfidence: group.lowConfidence.sort(byLevelThenName),
+        }))
+        .sort((a, b) => a.county.localeCompare(b.county));
+}
@@ -1,11 +1,18 @@
 // src/map.ts
 
-import type { DistrictDataMap, DistrictDetails, SchoolDetails } from './types';
+import type { DistrictDetails, SchoolDetails } from './types';
+import type { SearchIndexEntry } from './searchIndex';
 import L from 'leaflet';
-import proj4 from 'proj4';
-import type { Feature, Polygon, MultiPolygon } from 'geojson';
 import { OpenStreetMapProvider } from 'leaflet-geosearch'; // Keep geosearch import
 import 'leaflet.markercluster'; // Import the marker cluster library
+import { formatAddress } from './addressStandardizer';
+import { markerOpacityFor, renderGeocodePrecision } from './geocodePrecision';
+import { addDistrictBoundary } from './boundaryLayer';
+import { BOUNDARY_TOPOLOGY_FILE } from './boundaryLevels';
+import { BOUNDARY_LAYERS } from './districtOverlaps';
+import { topologyFeatures, type Topology } from './topojson';
+import { createSchoolShardLoader } from './schoolShards';
+import { STATE_PROFILE } from '../siteConfig';
 
 // Set Leaflet's default icon path
 // Ensure this path is correct relative to your deployment's public root
@@ -40,40 +47,38 @@ const schoolIcon = L.divIcon({
     iconAnchor: [12, 12] // Adjust anchor as needed based on CSS size
 });
 
-// --- Proj4 Configuration ---
-// Define the source projection (likely EPSG:3857 based on previous use)
-const SOURCE_PROJECTION = 'EPSG:3857';
-proj4.defs(SOURCE_PROJECTION, '+proj=merc +a=6378137 +b=6378137 +lat_ts=0.0 +lon_0=0.0 +x_0=0.0 +y_0=0 +k=1.0 +units=m +nadgrids=@null +wktext +no_defs');
-// Define the target projection (Leaflet standard)
-const TARGET_PROJECTION = 'EPSG:4326';
-proj4.defs(TARGET_PROJECTION, '+proj=longlat +datum=WGS84 +no_defs');
-
 // --- Configuration ---
+// Statewide boundary layers on the index map. Elementary and high school districts overlap, so the
+// high school layer starts hidden; elementary and unified districts together cover the state.
+const BOUNDARY_LAYER_STYLES: { [layer: string]: { color: string; visible: boolean } } = {
+    elementary: { color: '#2a9d8f', visible: true },
+    high: { color: '#e67e22', visible: false },
+    unified: { color: '#007bff', visible: true },
+};
+// Below this zoom too many districts are in view to load their schools into the school layer
+const SCHOOL_LAYER_MIN_ZOOM = 11;
 const TILE_LAYER_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
 const TILE_LAYER_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
-const DEFAULT_MAP_CENTER: L.LatLngTuple = [36.7783, -119.4179]; // Center of California
-const DEFAULT_MAP_ZOOM = 6;
+const DEFAULT_MAP_CENTER: L.LatLngTuple = STATE_PROFILE.map.center; // Center of the state
+const DEFAULT_MAP_ZOOM = STATE_PROFILE.map.zoom;
 
 // --- State (Module Level) ---
 const mapInstances = new Map<string, L.Map>();
+// One layer control per map, shared by the boundary and school layers
+const layerControls = new Map<string, L.Control.Layers>();
+// Schools are fetched per district from the school shards, each at most once
+const schoolShards = createSchoolShardLoader(BASE_URL);
 // Adjust state to track different layer types, including the new district cluster
 const layerGroups = new Map<string, {
     boundary?: L.LayerGroup,
     districtOfficeMarker?: L.LayerGroup, // Keep for specific office marker if needed later
-    schoolCluster?: L.MarkerClusterGroup, // For schools within a district
-    districtCluster?: L.MarkerClusterGroup // NEW: For district markers on index page
+    schoolCluster?: L.MarkerClusterGroup, // Schools of the district view, or the index page's school layer
+    districtCluster?: L.MarkerClusterGroup, // NEW: For district markers on index page
+    districtBoundaries?: L.LayerGroup // Statewide boundary layers on the index page
 }>();
 
 // --- Helper Functions ---
 
-// Added from districtUtils.ts for client-side use
-const formatAddress = (street: string, city: string, state: string, zip: string): string => {
-    const parts = [street, city, state, zip].filter(p => p && p !== 'No Data');
-    if (parts.length >= 3) return `${parts[0]}, ${parts[1]}, ${parts[2]} ${parts[3] || ''}`.trim();
-    if (parts.length === 2) return `${parts[0]}, ${parts[1]}`;
-    return parts[0] || 'Address Not Available';
-}
-
 function isValidCoordinate(lat: string | number | null | undefined, lon: string | number | null | undefined): lat is number | string {
     // Basic check: Ensure they are not null/undefined and can be parsed as numbers
     if (lat == null || lon == null) return false;
@@ -90,10 +95,37 @@ function clearMapLayers(mapId: string) {
         if (groups.districtOfficeMarker) { map.removeLayer(groups.districtOfficeMarker); }
         if (groups.schoolCluster) { map.removeLayer(groups.schoolCluster); }
         if (groups.districtCluster) { map.removeLayer(groups.districtCluster); } // Clear new district cluster
+        if (groups.districtBoundaries) { map.removeLayer(groups.districtBoundaries); }
         layerGroups.set(mapId, {}); // Clear stored groups
     }
 }
 
+function layerControlFor(mapId: string, map: L.Map): L.Control.Layers {
+    let control = layerControls.get(mapId);
+    if (!control) {
+        control = L.control.layers().addTo(map);
+        layerControls.set(mapId, control);
+    }
+    return control;
+}
+
+// Clustered school marker with its address and geocode precision, or null without coordinates
+function createSchoolMarker(school: SchoolDetails): L.Marker | null {
+    if (!isValidCoordinate(school.Latitude, school.Longitude)) return null;
+    const lat = parseFloat(String(school.Latitude));
+    const lon = parseFloat(String(school.Longitude));
+    const schoolMarker = L.marker([lat, lon], { icon: schoolIcon, opacity: markerOpacityFor(school.geocodePrecision) });
+    const precisionLine = renderGeocodePrecision(school.geocodePrecision, school.geocodeConfidence);
+    const schoolPopupContent = `<b>${school.School}</b><br>${formatAddress(
+        school['Street Address'],
+        school['Street City'],
+        school['Street State'],
+        school['Street Zip']
+    )}${precisionLine ? `<br>${precisionLine}` : ''}`;
+    schoolMarker.bindPopup(schoolPopupContent);
+    return schoolMarker;
+}
+
 // --- Exported Functions ---
 
 /**
@@ -126,11 +158,11 @@ export function initializeMap(mapElementId: string): L.Map {
 
 /**
  * NEW: Adds clustered markers for multiple districts to the map.
- * Used on the index page. Attempts geocoding if Lat/Lon are missing.
+ * Used on the index page, with the districts of the search index.
  */
 export function addDistrictMarkersToMap(
     mapElementId: string,
-    districtsData: DistrictDataMap
+    districts: SearchIndexEntry[]
 ) {
     const map = mapInstances.get(mapElementId);
     if (!map) {
@@ -154,30 +186,28 @@ export function addDistrictMarkersToMap(
     let validMarkers = 0;
     const createdMarkers: L.Marker[] = []; // Initialize an array to collect markers
 
-    // Process districts sequentially to avoid rate-limiting during geocoding
-    for (const cdsCode of Object.keys(districtsData)) {
-        const district = districtsData[cdsCode];
+    for (const district of districts) {
+        const { cdsCode } = district;
         let marker: L.Marker | null = null;
 
-        // Try Lat/Lon first
-        if (isValidCoordinate(district.Latitude, district.Longitude)) {
-            const lat = parseFloat(String(district.Latitude));
-            const lon = parseFloat(String(district.Longitude));
-            marker = L.marker([lat, lon]);
+        // The search index has no coordinates for offices that could not be located
+        if (district.latitude !== null && district.longitude !== null) {
+            marker = L.marker([district.latitude, district.longitude], { opacity: markerOpacityFor(district.geocodePrecision ?? undefined) });
             validMarkers++;
         } else {
             // Geocoding is now done server-side during data generation.
             // If coordinates are STILL invalid here, log a warning.
-            console.warn(`[Map Index] Skipping marker for ${district.District} (${cdsCode}) due to missing/invalid coordinates in pre-processed data.`);
+            console.warn(`[Map Index] Skipping marker for ${district.name} (${cdsCode}) due to missing/invalid coordinates in pre-processed data.`);
         }
 
         // If marker was created, add popup and add to our collection
         if (marker) {
-            // Use the slug from the district data for the link
-            const slug = district.slug || cdsCode; // Fallback to cdsCode if slug is somehow missing
             // Ensure the path matches the actual page route: /districts/ not /district/
-            const popupContent = `<b>${district.District}</b><br><a href="${BASE_URL}districts/${slug}/">View Details</a>`;
+            const precisionLine = renderGeocodePrecision(district.geocodePrecision ?? undefined, district.geocodeConfidence);
+            const popupContent = `<b>${district.name}</b><br>${precisionLine ? `${precisionLine}<br>` : ''}<a href="${BASE_URL}districts/${district.slug}/">View Details</a>`;
             marker.bindPopup(popupContent);
+            // Opening the popup selects the district; the school layer loads its schools
+            marker.on('popupopen', () => map.fire('districtselect', { cdsCode }));
             createdMarkers.push(marker); // Add the created marker to the array
         }
         // No need to return null anymore
@@ -200,45 +230,115 @@ export function addDistrictMarkersToMap(
 }
 
 /**
- * Reprojects GeoJSON feature coordinates.
- * Assumes the input feature has coordinates in SOURCE_PROJECTION.
- * Modifies the feature coordinates in place to TARGET_PROJECTION.
- * Handles both Polygon and MultiPolygon geometries.
+ * Adds every district boundary to the index map from the statewide TopoJSON, one toggleable
+ * layer per boundary layer. Hovering a polygon names the district; clicking it opens its page.
  */
-export function reprojectFeatureCoordinates(feature: Feature<Polygon | MultiPolygon>): Feature<Polygon | MultiPolygon> {
-    if (!feature || !feature.geometry || !['Polygon', 'MultiPolygon'].includes(feature.geometry.type)) {
-        console.warn(`Skipping reprojection: Invalid feature or unsupported geometry type (${feature?.geometry?.type || 'N/A'}).`);
-        return feature;
+export async function addDistrictBoundariesToMap(
+    mapElementId: string,
+    districts: SearchIndexEntry[]
+): Promise<void> {
+    const map = mapInstances.get(mapElementId);
+    if (!map) {
+        console.error(`Map instance #${mapElementId} not found for adding district boundaries.`);
+        return;
     }
 
-    console.log(`Reprojecting coordinates for geometry type ${feature.geometry.type} from ${SOURCE_PROJECTION} to ${TARGET_PROJECTION}...`);
-
-    const reprojectRing = (ring: number[][]) => {
-        ring.forEach(point => { // Iterate through each coordinate pair [lon, lat]
-            const [lon, lat] = point;
-            try {
-                const reprojected = proj4(SOURCE_PROJECTION, TARGET_PROJECTION).forward([lon, lat]);
-                point[0] = reprojected[0]; // Update lon
-                point[1] = reprojected[1]; // Update lat
-            } catch (e) {
-                console.error(`Error reprojecting point [${lon}, ${lat}]:`, e);
-                // Decide how to handle point error: skip point? mark feature as invalid?
-                // For now, we leave the original coordinates.
-            }
-        });
-    };
+    const response = await fetch(`${BASE_URL}assets/boundaries/${BOUNDARY_TOPOLOGY_FILE}`);
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    const topology = await response.json() as Topology;
+    const districtsByCds = new Map(districts.map(district => [district.cdsCode, district]));
 
-    if (feature.geometry.type === 'Polygon') {
-        // Polygon coordinates are [[lon, lat], ...]
-        feature.geometry.coordinates.forEach(reprojectRing);
-    } else if (feature.geometry.type === 'MultiPolygon') {
-        // MultiPolygon coordinates are [[[lon, lat], ...], ...]
-        feature.geometry.coordinates.forEach(polygon => {
-            polygon.forEach(reprojectRing);
+    const groups = layerGroups.get(mapElementId) || {};
+    if (groups.districtBoundaries) map.removeLayer(groups.districtBoundaries);
+    const boundariesGroup = L.layerGroup();
+    const overlays: { [label: string]: L.Layer } = {};
+
+    for (const { key, label } of BOUNDARY_LAYERS) {
+        const { color, visible } = BOUNDARY_LAYER_STYLES[key];
+        const layer = L.geoJSON(topologyFeatures(topology, key), {
+            style: { color, weight: 1, opacity: 0.7, fillOpacity: 0.08 },
+            onEachFeature: (feature, featureLayer) => {
+                // Boundaries of districts without a page (not in the search index) are only drawn
+                const district = districtsByCds.get(String(feature.id));
+                if (!district) return;
+                featureLayer.bindTooltip(district.name, { sticky: true });
+                featureLayer.on('click', () => {
+                    window.location.assign(`${BASE_URL}districts/${district.slug}/`);
+                });
+            },
         });
+        if (visible) boundariesGroup.addLayer(layer);
+        overlays[label] = layer;
+    }
+
+    boundariesGroup.addTo(map);
+    const control = layerControlFor(mapElementId, map);
+    Object.entries(overlays).forEach(([label, layer]) => control.addOverlay(layer, label));
+    // Layers toggled from the control join or leave the group, so clearing the group clears them all
+    const boundaryLayers = Object.values(overlays);
+    map.on('overlayadd', event => { if (boundaryLayers.includes(event.layer)) boundariesGroup.addLayer(event.layer); });
+    map.on('overlayremove', event => { if (boundaryLayers.includes(event.layer)) boundariesGroup.removeLayer(event.layer); });
+
+    groups.districtBoundaries = boundariesGroup;
+    layerGroups.set(mapElementId, groups);
+    console.log(`Added statewide boundaries (${topology.arcs.length} arcs) to map #${mapElementId}.`);
+}
+
+/**
+ * Adds a "Schools" layer to the index map, filled from the per-district school shards instead of
+ * one statewide file. Selecting a district (opening its marker's popup) shows the layer with that
+ * district's schools. While the layer is shown and the map is zoomed in, the schools of every
+ * district whose office is in view are loaded as well.
+ */
+export function addSchoolLayerToMap(
+    mapElementId: string,
+    districts: SearchIndexEntry[]
+): void {
+    const map = mapInstances.get(mapElementId);
+    if (!map) {
+        console.error(`Map instance #${mapElementId} not found for adding the school layer.`);
+        return;
     }
 
-    return feature;
+    const groups = layerGroups.get(mapElementId) || {};
+    if (groups.schoolCluster) map.removeLayer(groups.schoolCluster);
+    const schoolClusterGroup = L.markerClusterGroup();
+    const loadedDistricts = new Set<string>();
+
+    const showDistrictSchools = async (cdsCode: string) => {
+        if (loadedDistricts.has(cdsCode)) return;
+        loadedDistricts.add(cdsCode);
+        try {
+            const schools = await schoolShards.load(cdsCode);
+            const markers = schools.map(createSchoolMarker).filter((marker): marker is L.Marker => marker !== null);
+            schoolClusterGroup.addLayers(markers);
+            console.log(`Added ${markers.length} school markers for ${cdsCode} to map #${mapElementId}.`);
+        } catch (error) {
+            loadedDistricts.delete(cdsCode); // Try again the next time it is shown
+            console.error(`Failed to load schools for ${cdsCode}:`, error);
+        }
+    };
+
+    const showSchoolsInView = () => {
+        if (!map.hasLayer(schoolClusterGroup) || map.getZoom() < SCHOOL_LAYER_MIN_ZOOM) return;
+        const bounds = map.getBounds();
+        for (const { cdsCode, latitude, longitude } of districts) {
+            if (latitude !== null && longitude !== null && bounds.contains([latitude, longitude])) {
+                showDistrictSchools(cdsCode);
+            }
+        }
+    };
+
+    map.on('districtselect', event => {
+        map.addLayer(schoolClusterGroup);
+        showDistrictSchools((event as L.LeafletEvent & { cdsCode: string }).cdsCode);
+    });
+    map.on('overlayadd', event => { if (event.layer === schoolClusterGroup) showSchoolsInView(); });
+    map.on('moveend', showSchoolsInView);
+    layerControlFor(mapElementId, map).addOverlay(schoolClusterGroup, 'Schools');
+
+    groups.schoolCluster = schoolClusterGroup;
+    layerGroups.set(mapElementId, groups);
 }
 
 /**
@@ -286,35 +386,33 @@ export async function updateMapForDistrict(
 
     // 1. Fetch and add boundary
     const cdsCode = districtData['CDS Code'];
-    const boundaryUrl = `${BASE_URL.replace(/\/$/, '')}/assets/boundaries/${cdsCode}.geojson`;
-    try {
-        const response = await fetch(boundaryUrl);
-        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-        let geojsonData: any = await response.json();
-        geojsonData = reprojectFeatureCoordinates(geojsonData as Feature<Polygon | MultiPolygon>);
-
-        const boundaryLayer = L.geoJSON(geojsonData, {
-            style: { color: "#007bff", weight: 2, opacity: 0.8, fillOpacity: 0.1 }
-        });
-        boundaryLayerGroup.addLayer(boundaryLayer);
-        bounds.extend(boundaryLayer.getBounds()); // Extend bounds
-        hasValidLayers = true;
-        console.log(`Boundary loaded for ${cdsCode}`);
-    } catch (error) {
-        console.error(`Failed to load boundary GeoJSON for ${cdsCode}:`, error);
+    // Only districts the boundary step found a file for; a missing file is never requested
+    if (districtData.hasBoundary) {
+        try {
+            // Boundaries are published in WGS84 at several levels of detail, swapped as the map zooms
+            const boundaryLayer = await addDistrictBoundary(map, boundaryLayerGroup, BASE_URL, cdsCode, {
+                color: "#007bff", weight: 2, opacity: 0.8, fillOpacity: 0.1
+            });
+            bounds.extend(boundaryLayer.getBounds()); // Extend bounds
+            hasValidLayers = true;
+            console.log(`Boundary loaded for ${cdsCode}`);
+        } catch (error) {
+            console.error(`Failed to load boundary GeoJSON for ${cdsCode}:`, error);
+        }
     }
 
     // 2. Add District Office Marker (if coordinates are valid)
     if (isValidCoordinate(districtData.Latitude, districtData.Longitude)) {
         const lat = parseFloat(String(districtData.Latitude));
         const lon = parseFloat(String(districtData.Longitude));
-        const officeMarker = L.marker([lat, lon]);
+        const officeMarker = L.marker([lat, lon], { opacity: markerOpacityFor(districtData.geocodePrecision) });
+        const precisionLine = renderGeocodePrecision(districtData.geocodePrecision, districtData.geocodeConfidence);
         const officePopupContent = `<b>${districtData.District} (Office)</b><br>${formatAddress(
-            String(districtData.Street ?? ''),
-            String(districtData.City ?? ''),
-            String(districtData.State ?? ''),
-            String(districtData.Zip ?? '')
-        )}`;
+            districtData['Street Address'],
+            districtData['Street City'],
+            districtData['Street State'],
+            districtData['Street Zip']
+        )}${precisionLine ? `<br>${precisionLine}` : ''}`;
         officeMarker.bindPopup(officePopupContent);
         districtOfficeMarkerLayerGroup.addLayer(officeMarker); // Add to specific layer
         bounds.extend(officeMarker.getLatLng()); // Extend bounds
@@ -324,17 +422,8 @@ export async function updateMapForDistrict(
     // 3. Add School Markers (clustered)
     let validSchoolMarkers = 0;
     schoolsData.forEach(school => {
-        if (isValidCoordinate(school.Latitude, school.Longitude)) {
-            const lat = parseFloat(String(school.Latitude));
-            const lon = parseFloat(String(school.Longitude));
-            const schoolMarker = L.marker([lat, lon], { icon: schoolIcon });
-            const schoolPopupContent = `<b>${school.School}</b><br>${formatAddress(
-                String(school.Street ?? ''),
-                String(school.City ?? ''),
-                String(school.State ?? ''),
-                String(school.Zip ?? '')
-            )}`;
-            schoolMarker.bindPopup(schoolPopupContent);
+        const schoolMarker = createSchoolMarker(school);
+        if (schoolMarker) {
             schoolClusterGroup.addLayer(schoolMarker); // Add to cluster group
             validSchoolMarkers++;
         }
@@ -358,7 +447,7 @@ export async function updateMapForDistrict(
         // Fallback: Geocode district name if no boundary or valid coordinates found
         console.warn(`No valid boundary or coordinates for ${districtData.District}. Attempting geocode.`);
         try {
-            const results = await geoSearchProvider.search({ query: `${districtData.District}, California` });
+            const results = await geoSearchProvider.search({ query: `${districtData.District}, ${STATE_PROFILE.name}` });
             if (results && results.length > 0) {
                 map.setView([results[0].y, results[0].x], 10); // Use geocoded location
             } else {
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+    countSchoolAttributes,
+    getSchoolAttributes,
+    initSchoolFilters,
+    normalizeSchoolAttributes,
+    normalizeVirtualInstructionType,
+    normalizeYesNo,
+} from './schoolAttributes';
+import { renderDistrictInfoHtml } from './districtUtils';
+import type { DistrictDetails, SchoolDetails } from './types';
+
+const school = (name: string, overrides: Partial<SchoolDetails> = {}): SchoolDetails => ({
+    'CDS Code': `0161192${String(name.length).padStart(7, '0')}`,
+    'School': name,
+    'Status': 'Active',
+    'Public Yes/No': 'Y',
+    'Educational Program Type': 'Traditional',
+    'Street Address': 'No Data',
+    'Street City': 'No Data',
+    'Street State': 'CA',
+    'Street Zip': 'No Data',
+    'Phone': 'No Data',
+    'Latitude': 'No Data',
+    'Longitude': 'No Data',
+    'Low Grade': 'K',
+    'High Grade': '5',
+    'Website': 'No Data',
+    'Charter Yes/No': 'N',
+    'Charter Number': 'No Data',
+    'Magnet Yes/No': 'N',
+    'Virtual Instruction Type': 'Not Virtual',
+    'Year Round Yes/No': 'N',
+    'Multilingual Yes/No': 'N',
+    ...overrides,
+});
+
+const district = {
+    'CDS Code': '01611920000000',
+    'District': 'Hayward Unified',
+    'County': 'Alameda',
+    'Status': 'Active',
+} as DistrictDetails;
+
+describe('schoolAttributes', () => {
+    it('should normalize CDE yes/no values and virtual instruction codes', () => {
+        expect(normalizeYesNo('Y')).toBe('Y');
+        expect(normalizeYesNo(' yes ')).toBe('Y');
+        expect(normalizeYesNo('N')).toBe('N');
+        expect(normalizeYesNo('')).toBe('No Data');
+        expect(normalizeYesNo(undefined)).toBe('No Data');
+        expect(normalizeVirtualInstructionType('F')).toBe('Exclusively Virtual');
+        expect(normalizeVirtualInstructionType('c')).toBe('Primarily Classroom');
+        expect(normalizeVirtualInstructionType('Primarily Virtual')).toBe('Primarily Virtual');
+        expect(normalizeVirtualInstructionType('No Data')).toBe('No Data');
+    });
+
+    it('should normalize a source record in place', () => {
+        const record: { [column: string]: string } = { School: 'Lab', 'Charter Yes/No': 'Y', 'Charter Number': ' 1234 ', 'Magnet Yes/No': 'No Data', 'Virtual Instruction Type': 'V' };
+        normalizeSchoolAttributes(record);
+        expect(record).toEqual({
+            School: 'Lab',
+            'Charter Yes/No': 'Y',
+            'Charter Number': '1234',
+            'Magnet Yes/No': 'No Data',
+            'Virtual Instruction Type': 'Primarily Virtual',
+            'Year Round Yes/No': 'No Data',
+            'Multilingual Yes/No': 'No Data',
+        });
+    });
+
+    it('should list and count the attributes of schools', () => {
+        const schools = [
+            school('Charter Academy', { 'Charter Yes/No': 'Y', 'Virtual Instruction Type': 'Exclusively Virtual' }),
+            school('Dual Immersion', { 'Multilingual Yes/No': 'Y' }),
+            school('Partial', { 'Virtual Instruction Type': 'Partial Virtual' }),
+        ];
+        expect(getSchoolAttributes(schools[0]).map(a => a.key)).toEqual(['charter', 'virtual']);
+        expect(getSchoolAttributes(schools[2])).toEqual([]);
+        expect(countSchoolAttributes(schools).map(({ attribute, count }) => [attribute.key, count])).toEqual([
+            ['charter', 1], ['virtual', 1], ['multilingual', 1],
+        ]);
+    });
+
+    it('should render badges and filter the school lists', () => {
+        const schools = [
+            school('Charter Academy', { 'Charter Yes/No': 'Y', 'Charter Number': '1234', 'Magnet Yes/No': 'Y' }),
+            school('Magnet Middle', { 'Magnet Yes/No': 'Y' }),
+            school('Neighborhood Elementary'),
+        ];
+        document.body.innerHTML = renderDistrictInfoHtml(district, schools);
+        expect(document.querySelector('.school-badge-charter')?.getAttribute('title')).toBe('Charter #1234');
+        expect(Array.from(document.querySelectorAll('.school-filters label')).map(l => l.textContent?.trim())).toEqual(['Charter (1)', 'Magnet (2)']);
+
+        initSchoolFilters(document);
+        const check = (key: string, checked: boolean) => {
+            const input = document.querySelector<HTMLInputElement>(`.school-filters input[value="${key}"]`)!;
+            input.checked = checked;
+            input.dispatchEvent(new Event('change', { bubbles: true }));
+        };
+        const visible = () => Array.from(document.querySelectorAll<HTMLLIElement>('.school-list > li')).filter(li => !li.hidden).map(li => li.querySelector('strong')?.textContent);
+        const counts = () => Array.from(document.querySelectorAll('.school-count')).map(count => count.textContent);
+
+        expect(counts()).toEqual(['2', '1']);
+        check('magnet', true);
+        expect(visible()).toEqual(['Magnet Middle', 'Charter Academy']);
+        expect(counts()).toEqual(['1 of 2', '1 of 1']);
+        check('charter', true);
+        expect(visible()).toEqual(['Charter Academy']);
+        check('magnet', false);
+        check('charter', false);
+        expect(visible()).toHaveLength(3);
+        expect(counts()).toEqual(['2', '1']);
+    });
+});
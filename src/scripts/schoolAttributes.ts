@@ -0,0 +1,110 @@
+// src/scripts/schoolAttributes.ts
+// Charter, magnet, virtual, year-round and multilingual attributes of a school. The pipeline
+// normalizes the CDE values with these helpers; the district page shows them as badges and filters.
+import type { SchoolDetails, VirtualInstructionType, YesNo } from './types.js';
+
+export type SchoolAttributeKey = 'charter' | 'magnet' | 'virtual' | 'yearRound' | 'multilingual';
+
+export interface SchoolAttribute {
+    key: SchoolAttributeKey;
+    label: string;
+    matches: (school: SchoolDetails) => boolean;
+}
+
+// Columns carrying the attributes, in both the directory export and pubschls.txt (after mapping)
+export const SCHOOL_ATTRIBUTE_COLUMNS = [
+    'Charter Yes/No',
+    'Charter Number',
+    'Magnet Yes/No',
+    'Virtual Instruction Type',
+    'Year Round Yes/No',
+    'Multilingual Yes/No',
+];
+
+const YES_NO_COLUMNS = ['Charter Yes/No', 'Magnet Yes/No', 'Year Round Yes/No', 'Multilingual Yes/No'];
+
+// pubschls.txt uses one-letter codes; the directory export spells the type out
+const VIRTUAL_INSTRUCTION_CODES: { [code: string]: VirtualInstructionType } = {
+    F: 'Exclusively Virtual',
+    V: 'Primarily Virtual',
+    C: 'Primarily Classroom',
+    N: 'Not Virtual',
+    P: 'Partial Virtual',
+};
+
+const VIRTUAL_INSTRUCTION_TYPES = Object.values(VIRTUAL_INSTRUCTION_CODES);
+
+export function normalizeYesNo(value: unknown): YesNo {
+    const text = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (text === 'Y' || text === 'YES') return 'Y';
+    if (text === 'N' || text === 'NO') return 'N';
+    return 'No Data';
+}
+
+export function normalizeVirtualInstructionType(value: unknown): VirtualInstructionType {
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (VIRTUAL_INSTRUCTION_CODES[text.toUpperCase()]) return VIRTUAL_INSTRUCTION_CODES[text.toUpperCase()];
+    const type = VIRTUAL_INSTRUCTION_TYPES.find(known => known.toLowerCase() === text.toLowerCase());
+    return type || 'No Data';
+}
+
+/**
+ * Rewrites the attribute columns of a school record to their typed values in place.
+ * Sources without a column (e.g. Multilingual in pubschls.txt) end up with "No Data".
+ */
+export function normalizeSchoolAttributes<T extends object>(record: T): T {
+    const target = record as { [column: string]: unknown };
+    for (const column of YES_NO_COLUMNS) target[column] = normalizeYesNo(target[column]);
+    target['Virtual Instruction Type'] = normalizeVirtualInstructionType(target['Virtual Instruction Type']);
+    const charterNumber = typeof target['Charter Number'] === 'string' ? target['Charter Number'].trim() : '';
+    target['Charter Number'] = charterNumber !== '' ? charterNumber : 'No Data';
+    return record;
+}
+
+export const SCHOOL_ATTRIBUTES: SchoolAttribute[] = [
+    { key: 'charter', label: 'Charter', matches: school => school['Charter Yes/No'] === 'Y' },
+    { key: 'magnet', label: 'Magnet', matches: school => school['Magnet Yes/No'] === 'Y' },
+    {
+        key: 'virtual',
+        label: 'Virtual',
+        matches: school => school['Virtual Instruction Type'] === 'Exclusively Virtual' || school['Virtual Instruction Type'] === 'Primarily Virtual',
+    },
+    { key: 'yearRound', label: 'Year Round', matches: school => school['Year Round Yes/No'] === 'Y' },
+    { key: 'multilingual', label: 'Multilingual', matches: school => school['Multilingual Yes/No'] === 'Y' },
+];
+
+export const getSchoolAttributes = (school: SchoolDetails): SchoolAttribute[] =>
+    SCHOOL_ATTRIBUTES.filter(attribute => attribute.matches(school));
+
+// How many schools have each attribute; attributes no school has are left out
+export function countSchoolAttributes(schools: SchoolDetails[]): { attribute: SchoolAttribute; count: number }[] {
+    return SCHOOL_ATTRIBUTES
+        .map(attribute => ({ attribute, count: schools.filter(attribute.matches).length }))
+        .filter(({ count }) => count > 0);
+}
+
+/**
+ * Wires the `.school-filters` checkboxes rendered by renderDistrictInfoHtml. A school stays visible
+ * when it has every checked attribute; each `.school-group` heading shows how many of its schools remain.
+ */
+export function initSchoolFilters(root: ParentNode): void {
+    const filters = root.querySelector<HTMLFieldSetElement>('.school-filters');
+    if (!filters) return;
+    const groups = Array.from(root.querySelectorAll('.school-group')).map(group => ({
+        items: Array.from(group.querySelectorAll<HTMLLIElement>('.school-list > li')),
+        count: group.querySelector('.school-count'),
+    }));
+
+    filters.addEventListener('change', () => {
+        const selected = Array.from(filters.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked')).map(input => input.value);
+        for (const { items, count } of groups) {
+            let visible = 0;
+            for (const item of items) {
+                const keys = (item.dataset.attributes || '').split(' ');
+                item.hidden = !selected.every(key => keys.includes(key));
+                if (!item.hidden) visible++;
+            }
+            if (count) count.textContent = selected.length > 0 ? `${visible} of ${items.length}` : String(items.length);
+        }
+    });
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSchoolShardLoader, schoolShardUrl } from './schoolShards';
+
+const HAYWARD = '01611920000000';
+const HAYWARD_FILE = `${HAYWARD}.3f2a9c1d.json`;
+
+const hayward = {
+    'CDS Code': '01611920100001',
+    'School': 'Hayward High',
+    'Status': 'Active',
+    'Public Yes/No': 'Y',
+    'Educational Program Type': 'Traditional',
+    'Street Address': '1633 East Ave.',
+    'Street City': 'Hayward',
+    'Street State': 'CA',
+    'Street Zip': '94541',
+    'Phone': 'No Data',
+    'Website': 'No Data',
+    'Low Grade': '9',
+    'High Grade': '12',
+    'Latitude': 37.67,
+    'Longitude': -122.07,
+};
+
+function fakeAssets(files: { [url: string]: unknown }) {
+    return vi.fn(async (url: string) => {
+        if (!(url in files)) throw new Error(`HTTP error! status: 404`);
+        return files[url];
+    });
+}
+
+describe('schoolShards', () => {
+    it('should build asset URLs under the base URL', () => {
+        expect(schoolShardUrl('/', HAYWARD_FILE)).toBe(`/assets/schools/${HAYWARD_FILE}`);
+        expect(schoolShardUrl('/navigator/', 'manifest.json')).toBe('/navigator/assets/schools/manifest.json');
+    });
+
+    it('should fetch the manifest and each shard once', async () => {
+        const fetchData = fakeAssets({
+            '/assets/schools/manifest.json': { [HAYWARD]: { file: HAYWARD_FILE, count: 1 } },
+            [`/assets/schools/${HAYWARD_FILE}`]: [hayward],
+        });
+        const loader = createSchoolShardLoader('/', fetchData);
+
+        const [first, second] = await Promise.all([loader.load(HAYWARD), loader.load(HAYWARD)]);
+        expect(first).toEqual([hayward]);
+        expect(second).toBe(first);
+        // Districts the manifest does not list have no schools
+        await expect(loader.load('04615310000000')).resolves.toEqual([]);
+        expect(fetchData.mock.calls.map(([url]) => url)).toEqual(['/assets/schools/manifest.json', `/assets/schools/${HAYWARD_FILE}`]);
+    });
+
+    it('should reject invalid shards and retry failed requests', async () => {
+        const files: { [url: string]: unknown } = { [`/assets/schools/${HAYWARD_FILE}`]: [{ ...hayward, School: '' }] };
+        const fetchData = fakeAssets(files);
+        const loader = createSchoolShardLoader('/', fetchData);
+
+        await expect(loader.load(HAYWARD)).rejects.toThrow('HTTP error! status: 404');
+        files['/assets/schools/manifest.json'] = { [HAYWARD]: { file: HAYWARD_FILE, count: 1 } };
+        await expect(loader.load(HAYWARD)).rejects.toThrow(/School data failed schema validation/);
+        files[`/assets/schools/${HAYWARD_FILE}`] = [hayward];
+        await expect(loader.load(HAYWARD)).resolves.toEqual([hayward]);
+    });
+});
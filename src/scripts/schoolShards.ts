@@ -0,0 +1,59 @@
+// src/scripts/schoolShards.ts
+// Schools are published as one small file per district plus a manifest listing them, written by
+// pipeline/scripts/splitSchoolShards.ts. The index page fetches a district's schools only when
+// they are shown instead of every school in the state. Shared by the pipeline and the maps.
+import type { SchoolDetails, SchoolShardManifest } from './types.js';
+import { parseSchoolList, parseSchoolShardManifest } from './dataSchema.js';
+
+export const SCHOOL_SHARDS_DIR = 'schools';
+export const SCHOOL_SHARD_MANIFEST_FILE = 'manifest.json';
+
+// The content hash in the name changes whenever the district's schools do, so shards can be cached
+export const schoolShardFileName = (cdsCode: string, hash: string): string =>
+    `${cdsCode.replace(/[^a-zA-Z0-9_-]/g, '_')}.${hash}.json`;
+
+export const schoolShardUrl = (baseUrl: string, file: string): string =>
+    `${baseUrl.replace(/\/$/, '')}/assets/${SCHOOL_SHARDS_DIR}/${file}`;
+
+export interface SchoolShardLoader {
+    manifest(): Promise<SchoolShardManifest>;
+    load(districtCdsCode: string): Promise<SchoolDetails[]>;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    return response.json();
+}
+
+/**
+ * Fetches the manifest and each district's shard at most once. Districts the manifest does not
+ * list have no schools and cost no request. A failed request is forgotten so it can be retried.
+ */
+export function createSchoolShardLoader(baseUrl: string, fetchData: (url: string) => Promise<unknown> = fetchJson): SchoolShardLoader {
+    let manifest: Promise<SchoolShardManifest> | null = null;
+    const shards = new Map<string, Promise<SchoolDetails[]>>();
+
+    const loadManifest = (): Promise<SchoolShardManifest> => {
+        if (!manifest) {
+            manifest = fetchData(schoolShardUrl(baseUrl, SCHOOL_SHARD_MANIFEST_FILE)).then(parseSchoolShardManifest);
+            manifest.catch(() => { manifest = null; });
+        }
+        return manifest;
+    };
+
+    const load = (districtCdsCode: string): Promise<SchoolDetails[]> => {
+        let shard = shards.get(districtCdsCode);
+        if (!shard) {
+            shard = loadManifest().then(entries => {
+                const entry = entries[districtCdsCode];
+                return entry ? fetchData(schoolShardUrl(baseUrl, entry.file)).then(parseSchoolList) : [];
+            });
+            shards.set(districtCdsCode, shard);
+            shard.catch(() => shards.delete(districtCdsCode));
+        }
+        return shard;
+    };
+
+    return { manifest: loadManifest, load };
+}
@@ -44,11 +44,11 @@ const selectDistrictStandalone = async (district: DistrictDetails, appBaseUrl: s
 describe('Search Script Logic', () => {
     describe('filterDistrictsStandalone', () => {
         const sampleDistricts: DistrictDataMap = {
-            '1': { 'CDS Code': '1', District: 'Apple Valley Unified', Status: 'Active', slug: 'apple-valley', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-            '2': { 'CDS Code': '2', District: 'Banana Unified', Status: 'Active', slug: 'banana-uni', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-            '3': { 'CDS Code': '3', District: 'Cherry Intermediate', Status: 'Active', slug: 'cherry-inter', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-            '4': { 'CDS Code': '4', District: 'Date Palm Elementary', Status: 'Inactive', slug: 'date-palm', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-            '5': { 'CDS Code': '5', District: 'Apricot High', Status: 'Active', slug: 'apricot-high', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+            '1': { 'CDS Code': '1', District: 'Apple Valley Unified', Status: 'Active', slug: 'apple-valley', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+            '2': { 'CDS Code': '2', District: 'Banana Unified', Status: 'Active', slug: 'banana-uni', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+            '3': { 'CDS Code': '3', District: 'Cherry Intermediate', Status: 'Active', slug: 'cherry-inter', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+            '4': { 'CDS Code': '4', District: 'Date Palm Elementary', Status: 'Inactive', slug: 'date-palm', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+            '5': { 'CDS Code': '5', District: 'Apricot High', Status: 'Active', slug: 'apricot-high', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
         };
 
         it('should return an empty array if no search term is provided', () => {
@@ -72,18 +72,18 @@ describe('Search Script Logic', () => {
 
         it('should sort results alphabetically by District name', () => {
             const districtsForSort: DistrictDataMap = {
-                'b': { 'CDS Code': 'b', District: 'Banana', Status: 'Active', slug: 'b', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-                'a': { 'CDS Code': 'a', District: 'Apple', Status: 'Active', slug: 'a', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-                'c': { 'CDS Code': 'c', District: 'Cherry', Status: 'Active', slug: 'c', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+                'b': { 'CDS Code': 'b', District: 'Banana', Status: 'Active', slug: 'b', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+                'a': { 'CDS Code': 'a', District: 'Apple', Status: 'Active', slug: 'a', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+                'c': { 'CDS Code': 'c', District: 'Cherry', Status: 'Active', slug: 'c', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
             };
             const results = filterDistrictsStandalone('a', districtsForSort); // search for something to get them all
             // If search term is too specific, it might not test sort. Let's assume 'a' is part of all or use a generic term
             const allActive = filterDistrictsStandalone(' ', districtsForSort); // A space might not work, need a term that matches all
             // Let's adjust the test to search for a common letter or element
             const resultsForSortTest = filterDistrictsStandalone('a', {
-                '1': { 'CDS Code': '1', District: 'Banana Unified School', Status: 'Active', slug: 'banana', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-                '2': { 'CDS Code': '2', District: 'Apple Valley School', Status: 'Active', slug: 'apple', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
-                '3': { 'CDS Code': '3', District: 'Avocado Charter', Status: 'Active', slug: 'avocado', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' }
+                '1': { 'CDS Code': '1', District: 'Banana Unified School', Status: 'Active', slug: 'banana', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+                '2': { 'CDS Code': '2', District: 'Apple Valley School', Status: 'Active', slug: 'apple', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' },
+                '3': { 'CDS Code': '3', District: 'Avocado Charter', Status: 'Active', slug: 'avocado', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' }
             });
             expect(resultsForSortTest.map(d => d.District)).toEqual([
                 'Apple Valley School',
@@ -95,7 +95,7 @@ describe('Search Script Logic', () => {
         it('should limit results to 10', () => {
             const manyDistricts: DistrictDataMap = {};
             for (let i = 1; i <= 15; i++) {
-                manyDistricts[`${i}`] = { 'CDS Code': `${i}`, District: `District ${String(i).padStart(2, '0')}`, Status: 'Active', slug: `dist-${i}`, County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
+                manyDistricts[`${i}`] = { 'CDS Code': `${i}`, District: `District ${String(i).padStart(2, '0')}`, Status: 'Active', slug: `dist-${i}`, County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
             }
             const results = filterDistrictsStandalone('District', manyDistricts);
             expect(results).toHaveLength(10);
@@ -116,7 +116,7 @@ describe('Search Script Logic', () => {
         });
 
         it('should construct the correct navigation path including BASE_URL', async () => {
-            const district: DistrictDetails = { 'CDS Code': '123', District: 'Test Uni', slug: 'test-uni', Status: 'Active', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
+            const district: DistrictDetails = { 'CDS Code': '123', District: 'Test Uni', slug: 'test-uni', Status: 'Active', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
             const baseUrl = '/my-base/';
             const expectedPath = '/my-base/districts/test-uni';
             const actualPath = await selectDistrictStandalone(district, baseUrl);
@@ -124,7 +124,7 @@ describe('Search Script Logic', () => {
         });
 
         it('should handle BASE_URL being just "/"', async () => {
-            const district: DistrictDetails = { 'CDS Code': '123', District: 'Test Uni', slug: 'test-uni', Status: 'Active', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
+            const district: DistrictDetails = { 'CDS Code': '123', District: 'Test Uni', slug: 'test-uni', Status: 'Active', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
             const baseUrl = '/';
             const expectedPath = '/districts/test-uni';
             const actualPath = await selectDistrictStandalone(district, baseUrl);
@@ -132,7 +132,7 @@ describe('Search Script Logic', () => {
         });
 
         it('should handle BASE_URL with a trailing slash', async () => {
-            const district: DistrictDetails = { 'CDS Code': '123', District: 'Test Uni', slug: 'test-uni', Status: 'Active', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
+            const district: DistrictDetails = { 'CDS Code': '123', District: 'Test Uni', slug: 'test-uni', Status: 'Active', County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '' };
             const baseUrl = '/another-base/'; // replace(/\/$/, '') handles this
             const expectedPath = '/another-base/districts/test-uni';
             const actualPath = await selectDistrictStandalone(district, baseUrl);
@@ -140,7 +140,7 @@ describe('Search Script Logic', () => {
         });
 
         it('should return null or indicate error if slug is missing', async () => {
-            const district: DistrictDetails = { 'CDS Code': '456', District: 'No Slug Elementary', Status: 'Active', /* slug is missing */ County: '', 'Street Address': '', 'Street City': '', 'Street State': '', 'Street Zip Code': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '', slug: undefined as any }; // Explicitly set slug to undefined for test clarity while satisfying type for other fields
+            const district: DistrictDetails = { 'CDS Code': '456', District: 'No Slug Elementary', Status: 'Active', /* slug is missing */ County: '', 'Street Address': '', 'Street City': '', 'Street State': '', Latitude: '', Longitude: '', Phone: '', Website: '', 'Street Zip': '', 'Low Grade': '', 'High Grade': '', slug: undefined as any }; // Explicitly set slug to undefined for test clarity while satisfying type for other fields
             const baseUrl = '/';
             // Spy on console.error
             const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
@@ -1,37 +1,23 @@
 // src/search.ts
 
-import type { DistrictDataMap, DistrictDetails, SchoolDetails, SchoolsByDistrictMap } from './types';
+import type { DistrictDetails, SchoolDetails, SearchIndex } from './types';
+import { searchDistricts, searchIndexEntries, type SearchIndexEntry } from './searchIndex';
 // Import map functions if search needs to trigger map updates (currently not used directly in search logic)
 // import { updateMapForDistrict } from './map';
 
-let filteredDistricts: DistrictDetails[] = [];
+let filteredDistricts: SearchIndexEntry[] = [];
 let highlightIndex = -1;
 
 // Store references to DOM elements - will be fetched inside setupSearchHandlers
 let searchInputEl: HTMLInputElement | null = null;
 let resultsListEl: HTMLDivElement | null = null;
 let infoDisplayEl: HTMLElement | null = null; // Keep for potential future use, though navigation is primary
-let allDistricts: DistrictDataMap | null = null;
-let allSchools: SchoolsByDistrictMap | null = null; // Keep for potential future use
+let searchEntries: SearchIndexEntry[] = [];
 let appBaseUrl: string = '/'; // Default to root, will be updated by setupSearchHandlers
 
+// The index is already limited to active districts and sorted by name
 function filterDistricts(searchTerm: string) {
-    if (!allDistricts) {
-        filteredDistricts = [];
-        return;
-    }
-    const lowerCaseTerm = searchTerm.toLowerCase();
-    if (!lowerCaseTerm) {
-        filteredDistricts = [];
-        return;
-    }
-    filteredDistricts = Object.values(allDistricts)
-        .filter(district =>
-            district.District?.toLowerCase().includes(lowerCaseTerm) &&
-            district.Status === 'Active' // Example filter
-        )
-        .sort((a, b) => (a.District || '').localeCompare(b.District || ''))
-        .slice(0, 10); // Limit results
+    filteredDistricts = searchDistricts(searchEntries, searchTerm, 10); // Limit results
 }
 
 function displayResults() {
@@ -46,8 +32,16 @@ function displayResults() {
 
     filteredDistricts.forEach((district, index) => {
         const item = document.createElement('div');
-        item.textContent = district.District;
-        item.dataset.id = district['CDS Code'];
+        item.textContent = district.name;
+        // County and city tell apart districts with similar names
+        const place = [district.city, district.county && `${district.county} County`].filter(Boolean).join(', ');
+        if (place) {
+            const placeEl = document.createElement('span');
+            placeEl.className = 'search-result-place';
+            placeEl.textContent = place;
+            item.appendChild(placeEl);
+        }
+        item.dataset.id = district.slug;
         item.role = 'option'; // Accessibility
         item.tabIndex = -1; // Allow focus via keyboard
         item.addEventListener('click', () => {
@@ -61,19 +55,18 @@ function displayResults() {
     resultsListEl.hidden = false;
 }
 
-async function selectDistrict(district: DistrictDetails) {
+async function selectDistrict(district: SearchIndexEntry) {
     if (!searchInputEl || !resultsListEl) return; // Removed infoDisplayEl check as it might not be needed for navigation
 
-    const cdsCode = district['CDS Code'];
-    const slug = district['slug']; // Get the slug from the district data
+    const slug = district.slug; // Get the slug from the search index
 
-    console.log(`District selected: ${district.District}, Slug: ${slug}, CDS: ${cdsCode}, BaseURL: ${appBaseUrl}`);
+    console.log(`District selected: ${district.name}, Slug: ${slug}, BaseURL: ${appBaseUrl}`);
 
     if (!slug) {
         console.error("Error: Selected district data is missing the 'slug' property. Cannot navigate.");
         // Optionally display an error message to the user (e.g., in resultsListEl or a dedicated error area)
         if (resultsListEl) resultsListEl.innerHTML = '<p class="error">Could not generate link for the selected district.</p>';
-        searchInputEl.value = district.District || ''; // Keep name in input
+        searchInputEl.value = district.name || ''; // Keep name in input
         // resultsListEl.hidden = true; // Keep results open to show error?
         filteredDistricts = [];
         return;
@@ -153,8 +146,7 @@ export function setupSearchHandlers(
     inputElementId: string,
     resultsElementId: string,
     // infoElementId: string, // Optional: ID for info display if needed
-    districts: DistrictDataMap,
-    schools: SchoolsByDistrictMap, // Keep schools data if needed for future features
+    searchIndex: SearchIndex, // Compact search-index.json, not the full districts.json
     baseUrl: string // Add baseUrl parameter
 ) {
     // Get elements by ID inside the function
@@ -168,8 +160,7 @@ export function setupSearchHandlers(
     }
 
     // Store data globally within the module
-    allDistricts = districts;
-    allSchools = schools;
+    searchEntries = searchIndexEntries(searchIndex);
     appBaseUrl = baseUrl; // Store the base URL
 
     searchInputEl.addEventListener('input', handleInput);
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { DistrictDataMap, DistrictDetails } from './types';
+import { buildSearchIndex, normalizeSearchText, searchDistricts, searchIndexEntries } from './searchIndex';
+
+const district = (cdsCode: string, name: string, overrides: Partial<DistrictDetails> = {}) => ({
+    'CDS Code': cdsCode,
+    District: name,
+    County: 'Alameda',
+    'Street City': 'Hayward',
+    Status: 'Active',
+    slug: `${normalizeSearchText(name).replace(/ /g, '-')}-${cdsCode}`,
+    Latitude: 37.6532,
+    Longitude: -122.0778,
+    geocodePrecision: 'source',
+    geocodeConfidence: null,
+    ...overrides,
+}) as DistrictDetails;
+
+const districts: DistrictDataMap = {
+    '01611920000000': district('01611920000000', 'Hayward Unified'),
+    '01611190000000': district('01611190000000', 'Alameda Unified', { 'Street City': 'Alameda' }),
+    '04615310000000': district('04615310000000', 'Chico Unified', { County: 'Butte', 'Street City': 'Chico', Latitude: 'No Data', Longitude: 'No Data' }),
+    '01100170000000': district('01100170000000', 'Alameda County Office of Education'),
+    '19000000000000': district('19000000000000', 'Closed Elementary', { Status: 'Closed' }),
+    '36000000000000': district('36000000000000', 'Cañon del Oro Jt. Elem.', {
+        County: 'San Bernardino', 'Street City': 'Apple Valley', Latitude: '34.5009', Longitude: '-117.1859', geocodePrecision: 'street', geocodeConfidence: 0.82,
+    }),
+};
+
+describe('searchIndex', () => {
+    it('should normalize names into lowercase words without accents or punctuation', () => {
+        expect(normalizeSearchText('Cañon del Oro Jt. Elem.')).toBe('canon del oro jt elem');
+        expect(normalizeSearchText('  Acton-Agua Dulce  ')).toBe('acton agua dulce');
+    });
+
+    it('should keep only the fields search and the map need, for active districts, sorted by name', () => {
+        const index = buildSearchIndex(districts);
+        expect(index.districts.map(row => row[0])).toEqual([
+            'Alameda County Office of Education',
+            'Alameda Unified',
+            'Cañon del Oro Jt. Elem.',
+            'Chico Unified',
+            'Hayward Unified',
+        ]);
+        expect(index.districts[2]).toEqual([
+            'Cañon del Oro Jt. Elem.', 'canon-del-oro-jt-elem-36000000000000', 'San Bernardino', 'Apple Valley', 'canon del oro jt elem',
+            '36000000000000', 34.5009, -117.1859, 'street', 0.82,
+        ]);
+        // Placeholders leave the district off the map
+        expect(index.districts[3]).toEqual([
+            'Chico Unified', 'chico-unified-04615310000000', 'Butte', 'Chico', 'chico unified', '04615310000000', null, null, 'source', null,
+        ]);
+    });
+
+    it('should find districts with a word starting with every search word, in index order', () => {
+        const entries = searchIndexEntries(buildSearchIndex(districts));
+        const names = (term: string, limit?: number) => searchDistricts(entries, term, limit).map(entry => entry.name);
+        expect(names('alameda')).toEqual(['Alameda County Office of Education', 'Alameda Unified']);
+        expect(names('uni ala')).toEqual(['Alameda Unified']);
+        expect(names('CANON')).toEqual(['Cañon del Oro Jt. Elem.']);
+        expect(names('unified', 2)).toEqual(['Alameda Unified', 'Chico Unified']);
+        expect(names('ward')).toEqual([]);
+        expect(names('closed')).toEqual([]);
+        expect(names(' - ')).toEqual([]);
+    });
+});
@@ -0,0 +1,86 @@
+// src/scripts/searchIndex.ts
+// Compact index for the home page, written by the data pipeline next to districts.json.
+// It holds only the active districts' names, slugs, counties and cities, with the name already
+// split into normalized tokens and the districts already sorted, so a keystroke neither walks the
+// full district records nor sorts. The office coordinates and their precision place the map
+// markers, so the home page never downloads districts.json. Shared by the pipeline and the page.
+import type { DistrictDataMap, GeocodePrecision, SearchIndex, SearchIndexRow } from './types.js';
+
+export const SEARCH_INDEX_VERSION = 2;
+
+export interface SearchIndexEntry {
+    name: string;
+    slug: string;
+    county: string;
+    city: string;
+    tokens: string[];
+    cdsCode: string;
+    latitude: number | null;
+    longitude: number | null;
+    geocodePrecision: GeocodePrecision | null;
+    geocodeConfidence: number | null;
+}
+
+// Placeholders such as "No Data" and out-of-range values have no place on the map. Five decimals
+// (about a metre) are plenty for a marker and keep the file small.
+const coordinateOf = (value: string | number, limit: number): number | null => {
+    const coordinate = parseFloat(String(value));
+    return Number.isFinite(coordinate) && Math.abs(coordinate) <= limit ? Math.round(coordinate * 1e5) / 1e5 : null;
+};
+
+// Lowercase words without accents or punctuation: "Cañon del Oro Jt. Elem." -> "canon del oro jt elem"
+export function normalizeSearchText(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+export function buildSearchIndex(districts: DistrictDataMap): SearchIndex {
+    const rows: SearchIndexRow[] = Object.values(districts)
+        .filter(district => district.Status === 'Active' && district.District && district.slug)
+        .map(district => {
+            const latitude = coordinateOf(district.Latitude, 90);
+            const longitude = coordinateOf(district.Longitude, 180);
+            const located = latitude !== null && longitude !== null;
+            return [
+                district.District,
+                district.slug,
+                district.County || '',
+                district['Street City'] || '',
+                normalizeSearchText(district.District),
+                district['CDS Code'],
+                located ? latitude : null,
+                located ? longitude : null,
+                district.geocodePrecision ?? null,
+                district.geocodeConfidence ?? null,
+            ];
+        });
+    rows.sort((a, b) => a[0].localeCompare(b[0], 'en'));
+    return { version: SEARCH_INDEX_VERSION, districts: rows };
+}
+
+export const searchIndexEntries = (index: SearchIndex): SearchIndexEntry[] =>
+    index.districts.map(([name, slug, county, city, tokens, cdsCode, latitude, longitude, geocodePrecision, geocodeConfidence]) => ({
+        name, slug, county, city, tokens: tokens.split(' '), cdsCode, latitude, longitude, geocodePrecision, geocodeConfidence,
+    }));
+
+/**
+ * Districts whose name has a word starting with every word of the search term, e.g. "hay uni"
+ * finds "Hayward Unified". Entries keep their index order, so the first `limit` matches are the
+ * results and the scan stops there.
+ */
+export function searchDistricts(entries: SearchIndexEntry[], searchTerm: string, limit = 10): SearchIndexEntry[] {
+    const terms = normalizeSearchText(searchTerm).split(' ').filter(Boolean);
+    if (terms.length === 0) return [];
+    const results: SearchIndexEntry[] = [];
+    for (const entry of entries) {
+        if (terms.every(term => entry.tokens.some(token => token.startsWith(term)))) {
+            results.push(entry);
+            if (results.length === limit) break;
+        }
+    }
+    return results;
+}
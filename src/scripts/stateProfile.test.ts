@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { CALIFORNIA, profileLinkUrl, resolveStateProfile } from './stateProfile';
+import { renderDistrictInfoHtml } from './districtUtils';
+
+const HAYWARD = '01611920000000';
+
+describe('stateProfile', () => {
+    it('should resolve California by default and reject unknown profiles', () => {
+        expect(resolveStateProfile(undefined)).toBe(CALIFORNIA);
+        expect(resolveStateProfile('CA')).toBe(CALIFORNIA);
+        expect(() => resolveStateProfile('nv')).toThrow('Unknown state profile "nv". Expected one of: ca.');
+        expect(new RegExp(`^${CALIFORNIA.id.pattern}$`).test(HAYWARD)).toBe(true);
+    });
+
+    it('should link district and school pages to the profile sites', () => {
+        expect(profileLinkUrl(CALIFORNIA.links[1].schoolUrl, '01611920130229')).toBe('https://www.cde.ca.gov/schooldirectory/details?cdscode=01611920130229');
+
+        document.body.innerHTML = renderDistrictInfoHtml(
+            { 'CDS Code': HAYWARD, District: 'Hayward Unified', Website: 'No Data' } as any,
+            [{ 'CDS Code': '01611920130229', School: 'Hayward High', Website: 'No Data' } as any]
+        );
+        const links = (selector: string) => Array.from(document.querySelectorAll<HTMLAnchorElement>(`${selector} a`)).map(link => [link.textContent, link.href]);
+        expect(links('.district-links')).toEqual([
+            ['Dashboard', `https://www.caschooldashboard.org/reports/gissearch/districts/${HAYWARD}`],
+            ['CDE Profile', `https://www.cde.ca.gov/schooldirectory/details?cdscode=${HAYWARD}`],
+        ]);
+        expect(links('.school-links').map(([label]) => label)).toEqual(['Dashboard', 'CDE Profile']);
+    });
+});
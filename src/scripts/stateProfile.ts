@@ -0,0 +1,85 @@
+// src/scripts/stateProfile.ts
+// Everything that ties the site and the pipeline to one state: where its data comes from, what its
+// district IDs look like, where the maps start, which official profile pages to link and the site
+// copy. The site reads the profile selected by PUBLIC_STATE_PROFILE (see siteConfig.ts) and the
+// pipeline the same variable, so another state is built by adding a profile here.
+
+// A page about a district or school on an official site; `{id}` is replaced by its ID
+export interface ExternalProfileLink {
+    label: string; // Link text, e.g. "Dashboard"
+    site: string; // Name of the site, e.g. "CA School Dashboard"
+    icon: 'dashboard' | 'profile';
+    districtUrl: string;
+    schoolUrl: string;
+}
+
+export interface StateProfile {
+    key: string; // PUBLIC_STATE_PROFILE value
+    name: string;
+    postalCode: string; // As written in addresses and appended to geocoding queries
+    // Source adapters (see pipeline/scripts/sources/sourceAdapters.ts) able to read this state's data
+    dataSources: { default: string; available: string[] };
+    // Published district boundary file, downloaded to the project root as `file`
+    boundarySource: { label: string; url: string; file: string };
+    // District and school IDs; records always keep theirs under 'CDS Code'
+    id: { label: string; pattern: string };
+    map: { center: [number, number]; zoom: number };
+    links: ExternalProfileLink[];
+    branding: {
+        siteName: string;
+        siteDescription: string;
+        hubHeading: string;
+        dataAgency: string; // Credited for the data in the site-wide disclaimer
+    };
+}
+
+export const CALIFORNIA: StateProfile = {
+    key: 'ca',
+    name: 'California',
+    postalCode: 'CA',
+    dataSources: { default: 'cde-directory-export', available: ['cde-directory-export', 'cde-public-schools'] },
+    boundarySource: {
+        label: 'California School District Areas 2023-24',
+        url: 'https://lab.data.ca.gov/dataset/california-school-district-areas-2023-24',
+        file: 'DistrictAreas2324_-3875917646802882317.geojson',
+    },
+    // County (2) + district (5) + school (7) digits; districts end in 0000000
+    id: { label: 'CDS Code', pattern: '\\d{14}' },
+    map: { center: [36.7783, -119.4179], zoom: 6 },
+    links: [
+        {
+            label: 'Dashboard',
+            site: 'CA School Dashboard',
+            icon: 'dashboard',
+            districtUrl: 'https://www.caschooldashboard.org/reports/gissearch/districts/{id}',
+            schoolUrl: 'https://www.caschooldashboard.org/reports/gissearch/schools/{id}',
+        },
+        {
+            label: 'CDE Profile',
+            site: 'California School Directory',
+            icon: 'profile',
+            districtUrl: 'https://www.cde.ca.gov/schooldirectory/details?cdscode={id}',
+            schoolUrl: 'https://www.cde.ca.gov/schooldirectory/details?cdscode={id}',
+        },
+    ],
+    branding: {
+        siteName: 'Unofficial California Education Policies Navigator',
+        siteDescription: 'Explore California K-12 school district data and policies.',
+        hubHeading: 'California Education Hub: Policies, Data & Parent Guides',
+        dataAgency: 'the CDE',
+    },
+};
+
+export const STATE_PROFILES: StateProfile[] = [CALIFORNIA];
+
+// The profile for a PUBLIC_STATE_PROFILE value; unset means California
+export function resolveStateProfile(key: string | undefined): StateProfile {
+    if (!key) return CALIFORNIA;
+    const profile = STATE_PROFILES.find(candidate => candidate.key === key.toLowerCase());
+    if (!profile) {
+        throw new Error(`Unknown state profile "${key}". Expected one of: ${STATE_PROFILES.map(candidate => candidate.key).join(', ')}.`);
+    }
+    return profile;
+}
+
+export const profileLinkUrl = (template: string, id: string): string => template.replace(/\{id\}/g, encodeURIComponent(id));
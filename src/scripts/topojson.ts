@@ -0,0 +1,58 @@
+// src/scripts/topojson.ts
+// The subset of TopoJSON (https://github.com/topojson/topojson-specification) written by the
+// boundary stage: quantized, delta-encoded arcs shared by neighbouring districts, and one object
+// per boundary layer made of Polygon and MultiPolygon geometries identified by CDS code.
+import type { Feature, FeatureCollection, MultiPolygon, Polygon, Position } from 'geojson';
+
+export type TopologyGeometry =
+    | { type: 'Polygon'; id: string; arcs: number[][] }
+    | { type: 'MultiPolygon'; id: string; arcs: number[][][] };
+
+export interface Topology {
+    type: 'Topology';
+    // Quantized positions map back to longitude/latitude as q * scale + translate
+    transform: { scale: [number, number]; translate: [number, number] };
+    // First position absolute, then deltas from the previous one
+    arcs: [number, number][][];
+    objects: { [name: string]: { type: 'GeometryCollection'; geometries: TopologyGeometry[] } };
+}
+
+function decodeArcs(topology: Topology): Position[][] {
+    const { scale: [kx, ky], translate: [dx, dy] } = topology.transform;
+    return topology.arcs.map(arc => {
+        let x = 0;
+        let y = 0;
+        return arc.map(([deltaX, deltaY]) => {
+            x += deltaX;
+            y += deltaY;
+            return [x * kx + dx, y * ky + dy];
+        });
+    });
+}
+
+// A ring is a list of arc indexes; ~i (-i - 1) walks arc i backwards
+function stitchRing(arcIndexes: number[], arcs: Position[][]): Position[] {
+    const ring: Position[] = [];
+    for (const index of arcIndexes) {
+        const arc = index >= 0 ? arcs[index] : [...arcs[~index]].reverse();
+        ring.push(...(ring.length > 0 ? arc.slice(1) : arc));
+    }
+    return ring;
+}
+
+/**
+ * Decodes one object of the topology into GeoJSON features whose `id` is the CDS code.
+ * Returns an empty collection when the object does not exist.
+ */
+export function topologyFeatures(topology: Topology, objectName: string): FeatureCollection<Polygon | MultiPolygon> {
+    const arcs = decodeArcs(topology);
+    const features: Feature<Polygon | MultiPolygon>[] = (topology.objects[objectName]?.geometries || []).map(geometry => ({
+        type: 'Feature',
+        id: geometry.id,
+        properties: {},
+        geometry: geometry.type === 'Polygon'
+            ? { type: 'Polygon', coordinates: geometry.arcs.map(ring => stitchRing(ring, arcs)) }
+            : { type: 'MultiPolygon', coordinates: geometry.arcs.map(polygon => polygon.map(ring => stitchRing(ring, arcs))) },
+    }));
+    return { type: 'FeatureCollection', features };
+}
@@ -6,13 +6,14 @@ export interface DistrictDataMap {
 }
 
 // Type for individual district details
+// The fields are those of DISTRICT_SCHEMA in dataSchema.ts, which checks them at runtime
 export interface DistrictDetails {
-    [key: string]: string | number | null;
-    // Ensure specific keys exist
     'CDS Code': string;
     'District': string;
     'County': string;
     'Status': string;
+    'Entity Type'?: string;
+    'Funding Type'?: string;
     'Street Address': string;
     'Street City': string;
     'Street State': string;
@@ -20,17 +21,51 @@ export interface DistrictDetails {
     'Phone': string;
     'Low Grade': string;
     'High Grade': string;
-    'Latitude': string;
-    'Longitude': string;
+    // Numbers, or a placeholder such as "No Data" when there are no coordinates
+    'Latitude': string | number;
+    'Longitude': string | number;
     'Website': string;
     'slug': string;
-    // Add other relevant fields from districts.json
+    // Only present when built from the CDE public schools file (DATA_SOURCE=cde-public-schools)
+    'Federal District ID'?: string;
+    // Set by the boundary validation step; null when there was no boundary or no coordinates to test
+    outsideBoundary?: boolean | null;
+    boundaryDistanceMeters?: number | null;
+    // How the coordinates were obtained (see geocodePrecision.ts)
+    geocodePrecision?: GeocodePrecision;
+    geocodeConfidence?: number | null;
+    // Set by the boundary validation step: whether boundaries/{cdsCode}.geojson exists with polygons
+    hasBoundary?: boolean;
+    // Set by the boundary validation step for districts with a boundary (see districtOverlaps.ts)
+    boundaryLayer?: BoundaryLayerKey;
+    overlappingDistrictCdsCodes?: string[];
 }
 
+// 'source' = coordinates came with the source data; otherwise what the geocoder matched: the
+// street address (fallback levels 1-2), only the street (level 3) or only the city (level 4)
+export type GeocodePrecision = 'source' | 'address' | 'street' | 'city';
+
+// Boundary layers: California elementary and high school districts overlap; unified districts cover both
+export type BoundaryLayerKey = 'elementary' | 'high' | 'unified';
+
+// Normalized CDE "Yes/No" and virtual instruction values (see schoolAttributes.ts)
+export type YesNo = 'Y' | 'N' | 'No Data';
+
+export type VirtualInstructionType =
+    | 'Exclusively Virtual'
+    | 'Primarily Virtual'
+    | 'Primarily Classroom'
+    | 'Partial Virtual'
+    | 'Not Virtual'
+    | 'No Data';
+
+// Who authorized a charter: a school district, a county office, or the state board
+// 'unlisted': no district, county office or state board record carries the charter's CDS prefix
+export type CharterAuthorizerType = 'district' | 'county' | 'state' | 'unlisted';
+
 // Type for individual school details
+// The fields are those of SCHOOL_SCHEMA in dataSchema.ts
 export interface SchoolDetails {
-    [key: string]: string | number | null;
-    // Ensure specific keys exist
     'CDS Code': string;
     'School': string;
     'Status': string;
@@ -41,15 +76,218 @@ export interface SchoolDetails {
     'Street State': string;
     'Street Zip': string;
     'Phone': string;
-    'Latitude': string;
-    'Longitude': string;
+    'Latitude': string | number;
+    'Longitude': string | number;
     'Low Grade': string;
     'High Grade': string;
     'Website': string;
-    // Add other relevant fields from schools.json
+    // Program attributes, normalized by the pipeline (see schoolAttributes.ts)
+    'Charter Yes/No'?: YesNo;
+    'Charter Number'?: string;
+    'Magnet Yes/No'?: YesNo;
+    'Virtual Instruction Type'?: VirtualInstructionType;
+    'Year Round Yes/No'?: YesNo;
+    'Multilingual Yes/No'?: YesNo;
+    // Only present when built from the CDE public schools file (DATA_SOURCE=cde-public-schools)
+    'Federal District ID'?: string;
+    'Federal School ID'?: string;
+    'SOC Type'?: string;
+    outsideBoundary?: boolean | null;
+    boundaryDistanceMeters?: number | null;
+    geocodePrecision?: GeocodePrecision;
+    geocodeConfidence?: number | null;
+    // Charters only: the entity the school is grouped under, and the geographic districts whose
+    // boundary contains it (set by the boundary validation step)
+    authorizerCdsCode?: string;
+    authorizerType?: CharterAuthorizerType;
+    locatedInDistrictCdsCodes?: string[];
 }
 
 // Type for schools data grouped by district prefix
 export interface SchoolsByDistrictMap {
     [districtCdsPrefix: string]: SchoolDetails[];
-} 
\ No newline at end of file
+}
+
+// --- School shards (assets/schools/): one file of schools per district, loaded on demand ---
+export interface SchoolShardEntry {
+    file: string; // e.g. "01611920000000.3f2a9c1d.json"; the hash changes with the content
+    count: number;
+}
+
+// manifest.json: districts without schools have no shard and are not listed
+export interface SchoolShardManifest {
+    [districtCdsCode: string]: SchoolShardEntry;
+}
+
+// --- Search index (search-index.json): what the home page search and map need, nothing more ---
+// [name, slug, county, city, normalized name tokens separated by spaces, CDS code,
+//  office latitude, longitude (null without coordinates), geocode precision, geocode confidence]
+export type SearchIndexRow = [string, string, string, string, string, string, number | null, number | null, GeocodePrecision | null, number | null];
+
+export interface SearchIndex {
+    version: number;
+    // Active districts only, already sorted by name
+    districts: SearchIndexRow[];
+}
+
+// --- Data snapshot (data-snapshot.json): the source files the published data was built from ---
+export interface DataSnapshotSource {
+    kind: 'directory' | 'boundaries';
+    label: string; // e.g. "CDE School Directory export"
+    url: string; // Where the source is published
+    file: string; // File name as read by the pipeline
+    sha256: string;
+    bytes: number;
+    // YYYY-MM-DD the data is current as of: the latest record update when the source has one,
+    // otherwise the date the file was last modified
+    exportDate: string;
+    exportDateFrom: 'records' | 'file';
+}
+
+export interface DataSnapshot {
+    id: string; // Short hash of the source files and pipeline version
+    generatedAt: string;
+    pipelineVersion: string; // package version + hash of the pipeline code and config
+    sources: DataSnapshotSource[];
+    counts: {
+        districts: number;
+        schools: number;
+        districtsWithBoundary: number;
+        archivedDistricts: number;
+        archivedSchools: number;
+    };
+}
+
+// --- Change log (changelog.json): what changed in districts.json and schools_by_district.json between builds ---
+// 'removed' records are no longer in the active data: closed, merged or dropped from the source
+export type DataChangeKind = 'added' | 'removed' | 'renamed' | 'address' | 'website' | 'phone' | 'grades' | 'moved';
+
+export interface DataChange {
+    kind: DataChangeKind;
+    entity: 'district' | 'school';
+    cdsCode: string;
+    name: string;
+    // Changed fields only: the value before and after, as displayed
+    from?: string;
+    to?: string;
+    distanceMeters?: number; // 'moved' only
+}
+
+export interface DistrictChangeSection {
+    name: string;
+    slug: string | null; // null when the district is no longer in districts.json
+    changes: DataChange[];
+}
+
+// The build on either side of the diff, identified by its data snapshot when there was one
+export interface ChangeLogBuild {
+    snapshotId: string | null;
+    dataDate: string | null;
+}
+
+export interface DataChangeLog {
+    generatedAt: string;
+    from: ChangeLogBuild | null; // null for the first build: nothing to compare with
+    to: ChangeLogBuild;
+    summary: { [kind in DataChangeKind]?: number };
+    // Keyed by the CDS code of the district the records belong to, sorted by district name
+    districts: { [cdsCode: string]: DistrictChangeSection };
+}
+
+// --- History dataset (district_history.json): closed and merged entities ---
+export interface ArchivedDistrictDetails extends DistrictDetails {
+    'Open Date': string;
+    'Closed Date': string;
+    // Active district inferred to have taken over, if any
+    successorCdsCode: string | null;
+    successorSlug: string | null;
+    successorName: string | null;
+}
+
+export interface ArchivedSchoolDetails extends SchoolDetails {
+    'Open Date': string;
+    'Closed Date': string;
+}
+
+export interface HistoryData {
+    districts: { [cdsCode: string]: ArchivedDistrictDetails };
+    // Closed schools grouped by the (active or archived) district they belonged to
+    schoolsByDistrict: { [districtCdsCode: string]: ArchivedSchoolDetails[] };
+}
+
+// One entry of prerender-params.json, consumed by getStaticPaths
+export interface PrerenderParam {
+    districtSlug: string;
+}
+
+// --- Slug registry (slug-registry.json): every slug a district page has had ---
+export interface SlugRegistryEntry {
+    current: string;
+    // Earlier slugs, oldest first; each one redirects to `current`
+    previous: string[];
+}
+
+export interface SlugRegistry {
+    [cdsCode: string]: SlugRegistryEntry;
+}
+
+export interface SlugRedirect {
+    from: string;
+    to: string;
+}
+
+// --- Boundary coverage report (written by the boundary validation step) ---
+
+export interface BoundaryCoverageEntry {
+    cdsCode: string;
+    name: string;
+    county: string;
+    entityType: string;
+    // Elementary, high, unified and common administration districts should have a boundary;
+    // county offices and other entities usually do not
+    expected: boolean;
+}
+
+export interface BoundaryCoverageReport {
+    generatedAt: string;
+    summary: {
+        districts: number;
+        withBoundary: number;
+        missing: number;
+        notExpected: number;
+        boundariesWithoutDistrict: number;
+    };
+    // Districts in districts.json without a boundary file, expected ones first
+    districtsWithoutBoundary: BoundaryCoverageEntry[];
+    // Boundary files whose CDS code is not in districts.json
+    boundariesWithoutDistrict: { cdsCode: string; layer: BoundaryLayerKey | null }[];
+}
+
+// --- Geocoding quality report (written by the data pipeline) ---
+
+// 'source' = coordinates came with the CDE data, 'geocoded' = found by the fallback chain,
+// 'failed' = no usable coordinates, 'reused' = carried over unchanged by an incremental run
+export type GeocodeStatus = 'source' | 'geocoded' | 'failed' | 'reused';
+
+export interface GeocodeReportEntry {
+    kind: 'district' | 'school';
+    cdsCode: string;
+    name: string;
+    county: string;
+    status: GeocodeStatus;
+    level: number | null; // Fallback attempt level 1-4 (raw, normalized, street+city, city+state)
+    query: string | null;
+    displayName: string | null;
+    confidence: number | null; // Match confidence 0-1, capped by the level's ceiling; null when not geocoded
+}
+
+export interface GeocodeReport {
+    generatedAt: string;
+    provider: string;
+    summary: {
+        total: number;
+        byStatus: { [status in GeocodeStatus]?: number };
+        byLevel: { [level: string]: number };
+    };
+    records: GeocodeReportEntry[];
+}
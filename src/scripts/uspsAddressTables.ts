@@ -0,0 +1,262 @@
+// src/scripts/uspsAddressTables.ts
+// Lookup tables of USPS Publication 28 (Postal Addressing Standards), used by addressStandardizer.ts.
+// Each entry maps the Postal Service standard abbreviation to the primary name and the commonly
+// used forms that standardize to it. The abbreviation itself is always accepted.
+
+// Appendix C1: street suffixes
+export const STREET_SUFFIXES: { [standard: string]: string[] } = {
+    ALY: ['ALLEY', 'ALLEE', 'ALLY'],
+    ANX: ['ANEX', 'ANNEX', 'ANNX'],
+    ARC: ['ARCADE'],
+    AVE: ['AVENUE', 'AV', 'AVEN', 'AVENU', 'AVN', 'AVNUE'],
+    BYU: ['BAYOU', 'BAYOO'],
+    BCH: ['BEACH'],
+    BND: ['BEND'],
+    BLF: ['BLUFF', 'BLUF'],
+    BLFS: ['BLUFFS'],
+    BTM: ['BOTTOM', 'BOT', 'BOTTM'],
+    BLVD: ['BOULEVARD', 'BOUL', 'BOULV'],
+    BR: ['BRANCH', 'BRNCH'],
+    BRG: ['BRIDGE', 'BRDGE'],
+    BRK: ['BROOK'],
+    BRKS: ['BROOKS'],
+    BG: ['BURG'],
+    BGS: ['BURGS'],
+    BYP: ['BYPASS', 'BYPA', 'BYPAS', 'BYPS'],
+    CP: ['CAMP', 'CMP'],
+    CYN: ['CANYON', 'CANYN', 'CNYN'],
+    CPE: ['CAPE'],
+    CSWY: ['CAUSEWAY', 'CAUSWA'],
+    CTR: ['CENTER', 'CEN', 'CENT', 'CENTR', 'CENTRE', 'CNTER', 'CNTR'],
+    CTRS: ['CENTERS'],
+    CIR: ['CIRCLE', 'CIRC', 'CIRCL', 'CRCL', 'CRCLE'],
+    CIRS: ['CIRCLES'],
+    CLF: ['CLIFF'],
+    CLFS: ['CLIFFS'],
+    CLB: ['CLUB'],
+    CMN: ['COMMON'],
+    CMNS: ['COMMONS'],
+    COR: ['CORNER'],
+    CORS: ['CORNERS'],
+    CRSE: ['COURSE'],
+    CT: ['COURT'],
+    CTS: ['COURTS'],
+    CV: ['COVE'],
+    CVS: ['COVES'],
+    CRK: ['CREEK'],
+    CRES: ['CRESCENT', 'CRSENT', 'CRSNT'],
+    CRST: ['CREST'],
+    XING: ['CROSSING', 'CRSSNG'],
+    XRD: ['CROSSROAD'],
+    XRDS: ['CROSSROADS'],
+    CURV: ['CURVE'],
+    DL: ['DALE'],
+    DM: ['DAM'],
+    DV: ['DIVIDE', 'DIV', 'DVD'],
+    DR: ['DRIVE', 'DRIV', 'DRV'],
+    DRS: ['DRIVES'],
+    EST: ['ESTATE'],
+    ESTS: ['ESTATES'],
+    EXPY: ['EXPRESSWAY', 'EXP', 'EXPR', 'EXPRESS', 'EXPW'],
+    EXT: ['EXTENSION', 'EXTN', 'EXTNSN'],
+    EXTS: ['EXTENSIONS'],
+    FALL: [],
+    FLS: ['FALLS'],
+    FRY: ['FERRY', 'FRRY'],
+    FLD: ['FIELD'],
+    FLDS: ['FIELDS'],
+    FLT: ['FLAT'],
+    FLTS: ['FLATS'],
+    FRD: ['FORD'],
+    FRDS: ['FORDS'],
+    FRST: ['FOREST', 'FORESTS'],
+    FRG: ['FORGE', 'FORG'],
+    FRGS: ['FORGES'],
+    FRK: ['FORK'],
+    FRKS: ['FORKS'],
+    FT: ['FORT', 'FRT'],
+    FWY: ['FREEWAY', 'FREEWY', 'FRWAY', 'FRWY'],
+    GDN: ['GARDEN', 'GARDN', 'GRDEN', 'GRDN'],
+    GDNS: ['GARDENS', 'GRDNS'],
+    GTWY: ['GATEWAY', 'GATEWY', 'GATWAY', 'GTWAY'],
+    GLN: ['GLEN'],
+    GLNS: ['GLENS'],
+    GRN: ['GREEN'],
+    GRNS: ['GREENS'],
+    GRV: ['GROVE', 'GROV'],
+    GRVS: ['GROVES'],
+    HBR: ['HARBOR', 'HARB', 'HARBR', 'HRBOR'],
+    HBRS: ['HARBORS'],
+    HVN: ['HAVEN'],
+    HTS: ['HEIGHTS', 'HT'],
+    HWY: ['HIGHWAY', 'HIGHWY', 'HIWAY', 'HIWY', 'HWAY'],
+    HL: ['HILL'],
+    HLS: ['HILLS'],
+    HOLW: ['HOLLOW', 'HLLW', 'HOLLOWS', 'HOLWS'],
+    INLT: ['INLET'],
+    IS: ['ISLAND', 'ISLND'],
+    ISS: ['ISLANDS', 'ISLNDS'],
+    ISLE: ['ISLES'],
+    JCT: ['JUNCTION', 'JCTION', 'JCTN', 'JUNCTN', 'JUNCTON'],
+    JCTS: ['JUNCTIONS', 'JCTNS'],
+    KY: ['KEY'],
+    KYS: ['KEYS'],
+    KNL: ['KNOLL', 'KNOL'],
+    KNLS: ['KNOLLS'],
+    LK: ['LAKE'],
+    LKS: ['LAKES'],
+    LAND: [],
+    LNDG: ['LANDING', 'LNDNG'],
+    LN: ['LANE'],
+    LGT: ['LIGHT'],
+    LGTS: ['LIGHTS'],
+    LF: ['LOAF'],
+    LCK: ['LOCK'],
+    LCKS: ['LOCKS'],
+    LDG: ['LODGE', 'LDGE', 'LODG'],
+    LOOP: ['LOOPS'],
+    MALL: [],
+    MNR: ['MANOR'],
+    MNRS: ['MANORS'],
+    MDW: ['MEADOW'],
+    MDWS: ['MEADOWS', 'MEDOWS'],
+    MEWS: [],
+    ML: ['MILL'],
+    MLS: ['MILLS'],
+    MSN: ['MISSION', 'MISSN', 'MSSN'],
+    MTWY: ['MOTORWAY'],
+    MT: ['MOUNT', 'MNT'],
+    MTN: ['MOUNTAIN', 'MNTAIN', 'MNTN', 'MOUNTIN', 'MTIN'],
+    MTNS: ['MOUNTAINS', 'MNTNS'],
+    NCK: ['NECK'],
+    ORCH: ['ORCHARD', 'ORCHRD'],
+    OVAL: ['OVL'],
+    OPAS: ['OVERPASS'],
+    PARK: ['PRK', 'PARKS'],
+    PKWY: ['PARKWAY', 'PARKWY', 'PKWAY', 'PKY', 'PARKWAYS', 'PKWYS'],
+    PASS: [],
+    PSGE: ['PASSAGE'],
+    PATH: ['PATHS'],
+    PIKE: ['PIKES'],
+    PNE: ['PINE'],
+    PNES: ['PINES'],
+    PL: ['PLACE'],
+    PLN: ['PLAIN'],
+    PLNS: ['PLAINS'],
+    PLZ: ['PLAZA', 'PLZA'],
+    PT: ['POINT'],
+    PTS: ['POINTS'],
+    PRT: ['PORT'],
+    PRTS: ['PORTS'],
+    PR: ['PRAIRIE', 'PRR'],
+    RADL: ['RADIAL', 'RAD', 'RADIEL'],
+    RAMP: [],
+    RNCH: ['RANCH', 'RANCHES', 'RNCHS'],
+    RPD: ['RAPID'],
+    RPDS: ['RAPIDS'],
+    RST: ['REST'],
+    RDG: ['RIDGE', 'RDGE'],
+    RDGS: ['RIDGES'],
+    RIV: ['RIVER', 'RVR', 'RIVR'],
+    RD: ['ROAD'],
+    RDS: ['ROADS'],
+    RTE: ['ROUTE'],
+    ROW: [],
+    RUE: [],
+    RUN: [],
+    SHL: ['SHOAL'],
+    SHLS: ['SHOALS'],
+    SHR: ['SHORE', 'SHOAR'],
+    SHRS: ['SHORES', 'SHOARS'],
+    SKWY: ['SKYWAY'],
+    SPG: ['SPRING', 'SPNG', 'SPRNG'],
+    SPGS: ['SPRINGS', 'SPNGS', 'SPRNGS'],
+    SPUR: ['SPURS'],
+    SQ: ['SQUARE', 'SQR', 'SQRE', 'SQU'],
+    SQS: ['SQUARES', 'SQRS'],
+    STA: ['STATION', 'STATN', 'STN'],
+    STRA: ['STRAVENUE', 'STRAV', 'STRAVEN', 'STRAVN', 'STRVN', 'STRVNUE'],
+    STRM: ['STREAM', 'STREME'],
+    ST: ['STREET', 'STRT', 'STR'],
+    STS: ['STREETS'],
+    SMT: ['SUMMIT', 'SUMIT', 'SUMITT'],
+    TER: ['TERRACE', 'TERR'],
+    TRWY: ['THROUGHWAY'],
+    TRCE: ['TRACE', 'TRACES'],
+    TRAK: ['TRACK', 'TRACKS', 'TRK', 'TRKS'],
+    TRFY: ['TRAFFICWAY'],
+    TRL: ['TRAIL', 'TRAILS', 'TRLS'],
+    TRLR: ['TRAILER', 'TRLRS'],
+    TUNL: ['TUNNEL', 'TUNEL', 'TUNLS', 'TUNNELS', 'TUNNL'],
+    TPKE: ['TURNPIKE', 'TRNPK', 'TURNPK'],
+    UPAS: ['UNDERPASS'],
+    UN: ['UNION'],
+    UNS: ['UNIONS'],
+    VLY: ['VALLEY', 'VALLY', 'VLLY'],
+    VLYS: ['VALLEYS'],
+    VIA: ['VIADUCT', 'VDCT', 'VIADCT'],
+    VW: ['VIEW'],
+    VWS: ['VIEWS'],
+    VLG: ['VILLAGE', 'VILL', 'VILLAG', 'VILLG', 'VILLIAGE'],
+    VLGS: ['VILLAGES'],
+    VL: ['VILLE'],
+    VIS: ['VISTA', 'VIST', 'VST', 'VSTA'],
+    WALK: ['WALKS'],
+    WALL: [],
+    WAY: ['WY'],
+    WAYS: [],
+    WL: ['WELL'],
+    WLS: ['WELLS'],
+};
+
+// Directionals (section 233): abbreviated before or after the street name
+export const DIRECTIONALS: { [standard: string]: string[] } = {
+    N: ['NORTH'],
+    S: ['SOUTH'],
+    E: ['EAST'],
+    W: ['WEST'],
+    NE: ['NORTHEAST', 'NORTH EAST'],
+    NW: ['NORTHWEST', 'NORTH WEST'],
+    SE: ['SOUTHEAST', 'SOUTH EAST'],
+    SW: ['SOUTHWEST', 'SOUTH WEST'],
+};
+
+// Appendix C2: secondary unit designators. Those listed in UNITS_WITHOUT_NUMBER need no range.
+export const SECONDARY_UNITS: { [standard: string]: string[] } = {
+    APT: ['APARTMENT'],
+    BSMT: ['BASEMENT'],
+    BLDG: ['BUILDING', 'BLD'],
+    DEPT: ['DEPARTMENT'],
+    FL: ['FLOOR', 'FLR'],
+    FRNT: ['FRONT'],
+    HNGR: ['HANGAR'],
+    KEY: [],
+    LBBY: ['LOBBY'],
+    LOT: [],
+    LOWR: ['LOWER'],
+    OFC: ['OFFICE'],
+    PH: ['PENTHOUSE'],
+    PIER: [],
+    REAR: [],
+    RM: ['ROOM'],
+    SIDE: [],
+    SLIP: [],
+    SPC: ['SPACE'],
+    STOP: [],
+    STE: ['SUITE'],
+    TRLR: ['TRAILER'],
+    UNIT: [],
+    UPPR: ['UPPER'],
+};
+
+export const UNITS_WITHOUT_NUMBER = ['BSMT', 'FRNT', 'LBBY', 'LOWR', 'OFC', 'PH', 'REAR', 'SIDE', 'UPPR'];
+
+// Builds a lookup from every accepted form (uppercase) to its standard abbreviation
+export function buildLookup(table: { [standard: string]: string[] }): Map<string, string> {
+    const lookup = new Map<string, string>();
+    for (const [standard, forms] of Object.entries(table)) {
+        lookup.set(standard, standard);
+        forms.forEach(form => lookup.set(form, standard));
+    }
+    return lookup;
+}
@@ -1,4 +1,9 @@
-export const WEBSITE_NAME = "Unofficial California Education Policies Navigator";
-export const WEBSITE_DESCRIPTION = "Explore California K-12 school district data and policies.";
+import { resolveStateProfile } from './scripts/stateProfile';
 
-// Add other site-wide constants here if needed 
\ No newline at end of file
+// The state this build is for (PUBLIC_STATE_PROFILE, California by default)
+export const STATE_PROFILE = resolveStateProfile(import.meta.env.PUBLIC_STATE_PROFILE);
+
+export const WEBSITE_NAME = STATE_PROFILE.branding.siteName;
+export const WEBSITE_DESCRIPTION = STATE_PROFILE.branding.siteDescription;
+
+// Add other site-wide constants here if needed